@@ -0,0 +1,472 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { IDBFactory, IDBKeyRange } from 'fake-indexeddb';
+import {
+  applyVerification,
+  normalizeQuizJson,
+  gradeBlankAnswers,
+  scoreChoiceAnswer,
+  allocateProportionally,
+  planChunkBatches,
+  assemblePaper,
+  createPaperTemplate,
+  scheduleReview,
+  buildWeeklyTrend,
+  parseVerificationResponse,
+  applyQuestionRewrite,
+  tallyAttempts,
+  recordAttempt,
+  queryAttempts,
+  batchIdMap,
+  repointProgress,
+  LLMError,
+  createStickyProviderFallback,
+  streamLLMToText,
+  withLLMRetry,
+  mergeWorkspaceArchive,
+  parseWorkspaceArchive,
+} from './index.tsx';
+import type {
+  QuizQuestion,
+  QuestionType,
+  AttemptEvent,
+  QuizBank,
+  QuestionMeta,
+  SyllabusPreset,
+  ApiConfig,
+  ApiConfigHistoryItem,
+  PaperCandidate,
+  PaperSection,
+  PaperTemplate,
+  ReviewCard,
+  QuestionRevision,
+  StoredQuizProgress,
+} from './index.tsx';
+
+// Fixtures with neutral defaults; each test only spells out the fields it is about
+const question = (overrides: Partial<QuizQuestion> = {}): QuizQuestion => ({ id: 'q', type: 'single', stem: '', options: [], answerIds: [], ...overrides });
+const attempt = (overrides: Partial<AttemptEvent> = {}): AttemptEvent => ({
+  id: 'a', questionId: 'q', sessionKey: 's', questionType: 'single', selected: [], isCorrect: false, seconds: 0, at: 0, mode: 'practice', ...overrides,
+});
+const apiConfig = (overrides: Partial<ApiConfig> = {}): ApiConfig => ({ protocol: 'openai-compatible', baseUrl: 'https://llm.test', model: 'm', apiKey: 'k', ...overrides });
+const apiPreset = (overrides: Partial<ApiConfigHistoryItem> = {}): ApiConfigHistoryItem => ({
+  id: 'p', name: 'P', protocol: 'openai-compatible', baseUrl: 'https://llm.test', model: 'm', createdAt: '2026-01-01T00:00:00Z', ...overrides,
+});
+const reviewCard = (overrides: Partial<ReviewCard> = {}): ReviewCard => ({
+  id: 'q', ease: 2.5, interval: 1, repetitions: 1, streak: 1, lapses: 0, reviews: 1, correct: 1, due: '2026-01-02', lastReviewedAt: '2026-01-01T00:00:00Z', ...overrides,
+});
+
+const emptyCollections = () => parseWorkspaceArchive(JSON.stringify({ format: 'quiz-workspace-archive', version: 3, collections: {} })).collections;
+
+describe('workspace archive', () => {
+  it('fills collections missing from older archives', () => {
+    const archive = parseWorkspaceArchive(JSON.stringify({ format: 'quiz-workspace-archive', version: 2, collections: { history: [{ id: 'b1' }] } }));
+    expect(archive.collections.history).toHaveLength(1);
+    expect(archive.collections.attempts).toEqual([]);
+    expect(archive.collections.reviews).toEqual([]);
+    expect(archive.collections.fallbackChain).toEqual([]);
+  });
+
+  it('keeps local API keys when the archive was exported without them', () => {
+    const local = { ...emptyCollections(), apiPresets: [apiPreset({ id: 'p1', name: 'A', apiKey: 'secret' })] };
+    const incoming = { ...emptyCollections(), apiPresets: [apiPreset({ id: 'p1', name: 'A renamed' }), apiPreset({ id: 'p2', name: 'B' })] };
+    const { collections } = mergeWorkspaceArchive(local, incoming, 'replace', false);
+    expect(collections.apiPresets.map(({ id, name, apiKey }) => ({ id, name, apiKey }))).toEqual([
+      { id: 'p1', name: 'A renamed', apiKey: 'secret' },
+      { id: 'p2', name: 'B', apiKey: undefined },
+    ]);
+  });
+
+  it('replaces keys when the archive carries its own', () => {
+    const local = { ...emptyCollections(), apiPresets: [apiPreset({ id: 'p1', apiKey: 'old' })] };
+    const incoming = { ...emptyCollections(), apiPresets: [apiPreset({ id: 'p1', apiKey: 'new' })] };
+    expect(mergeWorkspaceArchive(local, incoming, 'replace', true).collections.apiPresets[0].apiKey).toBe('new');
+  });
+
+  it('merges logs by id and keeps the most recently reviewed card', () => {
+    const local = {
+      ...emptyCollections(),
+      attempts: [attempt({ id: 'a1' })],
+      reviews: [reviewCard({ id: 'q1', lastReviewedAt: '2026-01-01T00:00:00Z', interval: 1 })],
+      apiPresets: [apiPreset({ id: 'p1' })],
+      fallbackChain: ['p1'],
+    };
+    const incoming = {
+      ...emptyCollections(),
+      attempts: [attempt({ id: 'a1' }), attempt({ id: 'a2' })],
+      reviews: [reviewCard({ id: 'q1', lastReviewedAt: '2026-02-01T00:00:00Z', interval: 6 })],
+      fallbackChain: ['p1', 'missing'],
+    };
+    const { collections, report } = mergeWorkspaceArchive(local, incoming, 'merge', true);
+    expect(collections.attempts.map(a => a.id)).toEqual(['a1', 'a2']);
+    expect(report.attempts).toEqual({ added: 1, updated: 0, conflicts: 0, unchanged: 1 });
+    expect(collections.reviews[0].interval).toBe(6);
+    // Chain entries must point at a preset that exists after the merge
+    expect(collections.fallbackChain).toEqual(['p1']);
+  });
+});
+
+describe('LLM retries', () => {
+  const config = apiConfig();
+  // Serves one event per read; with breakAfter the connection drops once that many were sent
+  const sse = (lines: string[], breakAfter?: number) => {
+    let i = 0;
+    const enc = new TextEncoder();
+    return new ReadableStream<Uint8Array>({
+      pull(controller) {
+        if (breakAfter !== undefined && i >= breakAfter) return controller.error(new TypeError('network connection lost'));
+        if (i >= lines.length) return controller.close();
+        controller.enqueue(enc.encode(`data: ${lines[i++]}\n\n`));
+      },
+    });
+  };
+  const chunk = (content: string) => JSON.stringify({ choices: [{ delta: { content } }] });
+
+  it('requests a stream again when it breaks off mid-way', async () => {
+    const bodies = [sse([chunk('Hel'), chunk('lo')], 1), sse([chunk('Hel'), chunk('lo'), '[DONE]'])];
+    const fetchMock = vi.fn(async () => new Response(bodies.shift()!, { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const progress: string[] = [];
+    try {
+      const text = await streamLLMToText(config, [{ role: 'user', content: 'hi' }], undefined, t => { progress.push(t); });
+      expect(text).toBe('Hello');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      // The partial first attempt is cleared before the retry streams in
+      expect(progress).toEqual(['Hel', '', 'Hel', 'Hello']);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('does not retry an error an inner retry already gave up on', async () => {
+    const exhausted = new LLMError('down', 'server');
+    exhausted.retried = true;
+    const fn = vi.fn(async () => { throw exhausted; });
+    await expect(withLLMRetry(fn)).rejects.toBe(exhausted);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry non-retryable errors', async () => {
+    const fn = vi.fn(async () => { throw new LLMError('bad key', 'auth'); });
+    await expect(withLLMRetry(fn)).rejects.toMatchObject({ category: 'auth' });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('provider fallback', () => {
+  it('starts later calls at the provider that last succeeded', async () => {
+    const providers = ['primary', 'backup', 'spare'].map(model => ({ label: model, config: apiConfig({ model }) }));
+    const calls: string[] = [];
+    const run = async (config: ApiConfig) => {
+      calls.push(config.model);
+      if (config.model === 'primary') throw new LLMError('down', 'server');
+      return config.model;
+    };
+    const fallback = createStickyProviderFallback(providers);
+    expect((await fallback(run)).result).toBe('backup');
+    expect((await fallback(run)).result).toBe('backup');
+    expect(calls).toEqual(['primary', 'backup', 'backup']);
+  });
+});
+
+describe('true/false parsing', () => {
+  const parse = (item: object) => normalizeQuizJson(JSON.stringify([{ stem: '包豪斯创立于 1919 年', ...item }]))?.[0];
+
+  it('recognises a declared type, 正确/错误 options and an option-less answer', () => {
+    for (const item of [
+      { type: 'truefalse', answer: '对' },
+      { type: '判断', answer: true },
+      { options: ['正确', '错误'], correctOptions: ['B'] },
+      { answer: '×' },
+    ]) {
+      const q = parse(item);
+      expect(q?.type).toBe('truefalse');
+      expect(q?.options).toEqual([{ id: 'T', text: '正确' }, { id: 'F', text: '错误' }]);
+    }
+    expect(parse({ options: ['正确', '错误'], correctOptions: ['B'] })?.answerIds).toEqual(['F']);
+    expect(parse({ type: 'truefalse', answer: '对' })?.answerIds).toEqual(['T']);
+  });
+
+  it('drops a true/false question without a readable answer and leaves ordinary choices alone', () => {
+    expect(parse({ type: 'truefalse', answer: '也许' })).toBeUndefined();
+    expect(parse({ options: ['1919', '1925'], correctOptions: ['A'] })?.type).toBe('single');
+  });
+});
+
+describe('blank grading', () => {
+  const blankQ = (...accepted: string[][]) => question({ id: 'b', type: 'blank', stem: '____', blanks: accepted });
+
+  it('ignores case, spacing, full-width forms and punctuation', () => {
+    const q = blankQ(['Le Corbusier'], ['包豪斯', 'Bauhaus']);
+    expect(gradeBlankAnswers(q, ['le corbusier。', 'ＢＡＵＨＡＵＳ'])).toEqual([true, true]);
+  });
+
+  it('keeps signs and decimal points in numbers', () => {
+    const q = blankQ(['-5'], ['3.14'], ['1-2']);
+    expect(gradeBlankAnswers(q, ['5', '314', '12'])).toEqual([false, false, false]);
+    expect(gradeBlankAnswers(q, ['−5', '3.14。', '1 - 2'])).toEqual([true, true, true]);
+  });
+
+  it('treats an empty answer as wrong', () => {
+    expect(gradeBlankAnswers(blankQ(['x']), [''])).toEqual([false]);
+  });
+
+  it('flags a verifier that drops the sign of a numeric blank', () => {
+    const verified = applyVerification(blankQ(['-5']), { answer: ['5'], rationale: '' }, 'checker');
+    expect(verified.verification?.status).toBe('disputed');
+  });
+});
+
+describe('choice scoring', () => {
+  const multi = (extra: Partial<QuizQuestion> = {}) => question({ id: 'm', type: 'multiple', answerIds: ['A', 'B', 'C'], ...extra });
+
+  it('gives 1 point per question unless weighting is switched on', () => {
+    const single = question({ id: 's', answerIds: ['A'] });
+    expect(scoreChoiceAnswer(single, ['A'], 'strict')).toBe(1);
+    expect(scoreChoiceAnswer(multi(), ['A', 'B', 'C'], 'strict')).toBe(1);
+    expect(scoreChoiceAnswer(multi(), ['A', 'B', 'C'], 'strict', true)).toBe(2);
+    expect(scoreChoiceAnswer(multi({ points: 5 }), ['A', 'B', 'C'], 'strict')).toBe(5);
+  });
+
+  it('lets paper section points override the points set on the question', () => {
+    expect(scoreChoiceAnswer(multi({ points: 5 }), ['A', 'B', 'C'], 'strict', false, { m: 4 })).toBe(4);
+    expect(scoreChoiceAnswer(multi(), ['A'], 'subset-half', true, { m: 4 })).toBe(2);
+    expect(scoreChoiceAnswer(multi({ points: 5 }), ['A', 'B', 'C'], 'strict', false, { other: 4 })).toBe(5);
+  });
+
+  it('only gives partial credit under the partial schemes', () => {
+    expect(scoreChoiceAnswer(multi(), ['A'], 'strict', true)).toBe(0);
+    expect(scoreChoiceAnswer(multi(), ['A'], 'subset-half', true)).toBe(1);
+    expect(scoreChoiceAnswer(multi(), ['A', 'D'], 'subset-half', true)).toBe(0);
+  });
+
+  it('adds and removes an equal share per option, never below zero', () => {
+    expect(scoreChoiceAnswer(multi({ points: 3 }), ['A', 'B'], 'per-option')).toBe(2);
+    expect(scoreChoiceAnswer(multi({ points: 3 }), ['A', 'B', 'D'], 'per-option')).toBe(1);
+    expect(scoreChoiceAnswer(multi({ points: 3 }), ['D', 'E'], 'per-option')).toBe(0);
+  });
+});
+
+describe('chunk batching', () => {
+  const chunk = (index: number, length: number) => ({ index, document: 'doc.pdf', text: 'x'.repeat(length) });
+
+  it('allocates by largest remainder and keeps the total', () => {
+    expect(allocateProportionally([1, 1, 1], 10)).toEqual([4, 3, 3]);
+    expect(allocateProportionally([5, 3, 2], 7)).toEqual([4, 2, 1]);
+    expect(allocateProportionally([0, 0], 5)).toEqual([0, 0]);
+  });
+
+  it('spreads questions by chunk length and caps each batch', () => {
+    const batches = planChunkBatches([chunk(1, 3000), chunk(2, 1000)], 8, 5);
+    expect(batches.map(b => b.count)).toEqual([5, 3]);
+    expect(batches[0].chunks.map(c => c.index)).toEqual([1]);
+    // Chunk 1 gets 6 questions, so it carries over into the second batch alongside chunk 2
+    expect(batches[1].chunks.map(c => c.index)).toEqual([1, 2]);
+  });
+
+  it('plans nothing for empty input', () => {
+    expect(planChunkBatches([], 10, 5)).toEqual([]);
+    expect(planChunkBatches([chunk(1, 100)], 0, 5)).toEqual([]);
+  });
+});
+
+describe('paper assembly', () => {
+  const candidate = (id: string, type: QuestionType = 'single', extra: Partial<PaperCandidate> = {}): PaperCandidate =>
+    ({ question: question({ id, type, stem: id }), bookId: null, topicId: null, tags: [], ...extra });
+  const template = (...sections: Partial<PaperSection>[]): PaperTemplate => ({
+    ...createPaperTemplate(null),
+    sections: sections.map((section, i) => ({ id: `s${i}`, title: `S${i}`, questionType: 'any', count: 1, ...section })),
+  });
+
+  it('never puts the same question in two sections and records section points apart from the questions', () => {
+    const pool = ['a', 'b', 'c'].map(id => candidate(id));
+    const { questions, pointsById, shortages } = assemblePaper(template({ count: 2, points: 3 }, { count: 1 }), pool, null, new Set());
+    expect(new Set(questions.map(q => q.id)).size).toBe(3);
+    expect(questions.every(q => q.points === undefined && pool.some(c => c.question === q))).toBe(true);
+    expect(Object.keys(pointsById).sort()).toEqual(questions.slice(0, 2).map(q => q.id).sort());
+    expect(Object.values(pointsById)).toEqual([3, 3]);
+    expect(shortages).toEqual([]);
+  });
+
+  it('filters by type and tag and reports shortages', () => {
+    const pool = [candidate('a', 'single'), candidate('b', 'multiple', { tags: ['hard'] }), candidate('c', 'multiple')];
+    const { questions, shortages } = assemblePaper(template({ questionType: 'multiple', tag: 'hard', count: 2 }), pool, null, new Set());
+    expect(questions.map(q => q.id)).toEqual(['b']);
+    expect(shortages).toEqual([{ title: 'S0', wanted: 2, got: 1 }]);
+  });
+
+  it('prefers questions not seen recently and counts the ones it had to reuse', () => {
+    const pool = ['a', 'b', 'c'].map(id => candidate(id));
+    const first = assemblePaper(template({ count: 2 }), pool, null, new Set(['a', 'b']));
+    expect(first.questions[0].id).toBe('c');
+    expect(first.reusedRecent).toBe(1);
+  });
+});
+
+describe('review scheduling', () => {
+  const now = Date.UTC(2026, 0, 10, 12);
+  const review = (qualities: number[]) => qualities.reduce<ReviewCard | undefined>((card, quality) => scheduleReview(card, 'q1', quality, now), undefined)!;
+
+  it('spaces passed reviews 1, 6, then interval × ease days apart', () => {
+    expect(review([4]).interval).toBe(1);
+    expect(review([4, 4]).interval).toBe(6);
+    expect(review([4, 4, 4])).toMatchObject({ interval: 15, ease: 2.5, repetitions: 3, streak: 3, reviews: 3, correct: 3 });
+  });
+
+  it('restarts after a lapse and lowers the ease', () => {
+    const card = review([4, 4, 1]);
+    expect(card).toMatchObject({ interval: 1, repetitions: 0, streak: 0, lapses: 1, reviews: 3, correct: 2 });
+    expect(card.ease).toBeLessThan(2.5);
+  });
+
+  it('never lets the ease drop below the floor', () => {
+    expect(review([1, 1, 1, 1, 1, 1, 1, 1]).ease).toBe(1.3);
+  });
+});
+
+describe('weekly trend', () => {
+  const answeredAt = (at: Date, isCorrect: boolean) => attempt({ id: String(+at), at: +at, isCorrect, seconds: 10 });
+
+  it('buckets attempts into Monday-based weeks ending with the current one', () => {
+    const now = +new Date(2026, 0, 14, 12); // Wednesday
+    const trend = buildWeeklyTrend([
+      answeredAt(new Date(2026, 0, 12, 0, 30), true),
+      answeredAt(new Date(2026, 0, 13, 18), false),
+      answeredAt(new Date(2026, 0, 11, 23, 30), true),
+      answeredAt(new Date(2025, 11, 1), true),
+    ], 3, now);
+    expect(trend).toEqual([
+      { weekStart: '2025-12-29', attempts: 0, correct: 0 },
+      { weekStart: '2026-01-05', attempts: 1, correct: 1 },
+      { weekStart: '2026-01-12', attempts: 2, correct: 1 },
+    ]);
+  });
+});
+
+describe('batch revert', () => {
+  it('maps merged ids back to the originals and repoints saved sessions', () => {
+    const revision = (from: string, to: string, batchId?: string): QuestionRevision => ({
+      id: `r-${to}`, questionId: to, at: '2026-01-01T00:00:00Z', actor: 'user', source: 'merge', fields: ['id'],
+      before: question({ id: from }), after: question({ id: to }), batchId,
+    });
+    const idMap = batchIdMap([revision('q1', 'merged_1', 'b1'), revision('q2', 'merged_2', 'b1'), revision('q3', 'merged_3', 'b2')], 'b1');
+    expect(idMap).toEqual({ merged_1: 'q1', merged_2: 'q2' });
+
+    const progress: StoredQuizProgress = {
+      questionIds: ['merged_1', 'x'], currentIndex: 0, answers: { merged_1: { answerIds: ['A'], isCorrect: true } }, answeredCount: 1, correctCount: 1, updatedAt: 0,
+    };
+    const repointed = repointProgress(progress, idMap);
+    expect(repointed.questionIds).toEqual(['q1', 'x']);
+    expect(Object.keys(repointed.answers)).toEqual(['q1']);
+  });
+});
+
+describe('verification responses', () => {
+  const choice = (type: QuestionType) => question({ id: 'c', type, options: [{ id: 'o1', text: '甲' }, { id: 'o2', text: '乙' }, { id: 'o3', text: '丙' }], answerIds: ['o1'] });
+
+  it('maps option letters in any of the usual shapes to option ids', () => {
+    expect(parseVerificationResponse('{"answer": ["A", "C"], "rationale": "因为"}', choice('multiple'))).toEqual({ answer: ['o1', 'o3'], rationale: '因为' });
+    expect(parseVerificationResponse('```json\n{"answer": "C、A"}\n```', choice('multiple'))?.answer).toEqual(['o3', 'o1']);
+    expect(parseVerificationResponse('[{"answer": ["b"]}]', choice('single'))?.answer).toEqual(['o2']);
+  });
+
+  it('reads true/false words and keeps blank answers as text', () => {
+    const tf = question({ id: 't', type: 'truefalse', options: [{ id: 'T', text: '正确' }, { id: 'F', text: '错误' }], answerIds: ['T'] });
+    expect(parseVerificationResponse('{"answer": ["错误"]}', tf)?.answer).toEqual(['F']);
+    const blank = question({ id: 'b', type: 'blank', stem: '____', blanks: [['x']] });
+    expect(parseVerificationResponse('{"answer": [" 包豪斯 "]}', blank)?.answer).toEqual(['包豪斯']);
+  });
+
+  it('returns null when there is no usable answer', () => {
+    expect(parseVerificationResponse('我不确定', choice('single'))).toBeNull();
+    expect(parseVerificationResponse('{"answer": ["Z"]}', choice('single'))).toBeNull();
+    expect(parseVerificationResponse('{"answer": ["A", "F"]}', choice('multiple'))).toBeNull();
+  });
+
+  it('refuses answers that quote option text instead of giving letters', () => {
+    expect(parseVerificationResponse('{"answer": ["A. CAD 软件"]}', choice('multiple'))).toBeNull();
+    expect(parseVerificationResponse('{"answer": "选 B"}', choice('single'))).toBeNull();
+    expect(parseVerificationResponse('{"answer": "A,C"}', choice('multiple'))?.answer).toEqual(['o1', 'o3']);
+  });
+});
+
+describe('question rewrite', () => {
+  const options = (...texts: string[]) => texts.map((text, i) => ({ id: 'ABCDE'[i], text }));
+  const original = question({
+    id: 'q1', stem: '包豪斯创立于哪一年？', question: '包豪斯创立于哪一年？',
+    options: options('1919', '1925', '1933'), answerIds: ['A'], points: 3, sourceDocument: 'doc.pdf', sourceExcerpt: '1919 年创立',
+  });
+
+  it('keeps the id, stem and source of the original when replacing distractors', () => {
+    const generated = { ...original, id: 'new', stem: '改过的题干', options: options('1907', '1919', '1945'), answerIds: ['B'], sourceExcerpt: undefined };
+    const result = applyQuestionRewrite(original, generated, 'distractors', []);
+    expect('question' in result && result.question).toMatchObject({ id: 'q1', stem: original.stem, points: 3, sourceExcerpt: '1919 年创立', answerIds: ['B'] });
+  });
+
+  it('rejects distractor rewrites that change the correct option', () => {
+    const generated = { ...original, options: options('1920', '1925', '1933'), answerIds: ['A'] };
+    expect(applyQuestionRewrite(original, generated, 'distractors', [])).toEqual({ error: '模型改动了正确选项' });
+  });
+
+  it('checks the type and gives similar questions a new id', () => {
+    expect(applyQuestionRewrite(original, { ...original, type: 'multiple' }, 'harder', [])).toHaveProperty('error');
+    expect(applyQuestionRewrite(original, { ...original, type: 'multiple', answerIds: ['A'] }, 'toMultiple', [])).toHaveProperty('error');
+    const similar = applyQuestionRewrite(original, { ...original, stem: '新题' }, 'similar', []);
+    expect('question' in similar && similar.question.id).not.toBe('q1');
+  });
+});
+
+describe('attempt tally', () => {
+  it('counts attempts per question, skipping those before a reset', () => {
+    const answer = (questionId: string, at: number, isCorrect: boolean) => attempt({ questionId, at, isCorrect });
+    const tally = tallyAttempts([answer('a', 1, true), answer('a', 2, false), answer('b', 1, false), answer('b', 5, true)], { b: 3 });
+    expect(tally).toEqual({ a: { attempts: 2, correct: 1 }, b: { attempts: 1, correct: 1 } });
+  });
+});
+
+describe('attempt queries', () => {
+  const bank = (id: string, questions: QuizQuestion[]): QuizBank => ({ id, title: id, createdAt: '', sourceFiles: [], questionCount: questions.length, questions });
+  const syllabus: SyllabusPreset = {
+    id: 's', name: 'S',
+    books: [{ id: 'k1', title: '设计史', topics: [{ id: 't1', title: '现代主义', topics: [{ id: 't1a', title: '包豪斯' }] }] }],
+  };
+  const metaMap: Record<string, QuestionMeta> = { q1: { id: 'q1', tags: ['hard'] } };
+  const scope = {
+    banks: [
+      bank('b1', [question({ id: 'q1' }), question({ id: 'q2' })]),
+      bank('b2', [question({ id: 'q3', assignedBookId: 'k1', assignedTopicId: 't1' }), question({ id: 'q4', assignedBookId: 'k1', assignedTopicId: 't1a' })]),
+    ],
+    syllabus,
+    metaMap,
+  };
+  const ids = (attempts: AttemptEvent[]) => attempts.map(a => a.questionId);
+
+  beforeAll(async () => {
+    vi.stubGlobal('indexedDB', new IDBFactory());
+    vi.stubGlobal('IDBKeyRange', IDBKeyRange);
+    for (const [questionId, at] of [['q1', 1000], ['q2', 2000], ['q3', 3000], ['q4', 4000], ['q1', 5000]] as const) {
+      await recordAttempt(attempt({ questionId, at }));
+    }
+  });
+  afterAll(() => vi.unstubAllGlobals());
+
+  it('reads the date range from the key range, from inclusive and to exclusive', async () => {
+    expect(ids(await queryAttempts({}, scope))).toEqual(['q1', 'q2', 'q3', 'q4', 'q1']);
+    expect(ids(await queryAttempts({ from: 2000, to: 4000 }, scope))).toEqual(['q2', 'q3']);
+    expect(ids(await queryAttempts({ from: 4000 }, scope))).toEqual(['q4', 'q1']);
+    expect(ids(await queryAttempts({ to: 2000 }, scope))).toEqual(['q1']);
+  });
+
+  it('filters by question, bank and tag', async () => {
+    expect(ids(await queryAttempts({ questionId: 'q1' }, scope))).toEqual(['q1', 'q1']);
+    expect(ids(await queryAttempts({ bankId: 'b1' }, scope))).toEqual(['q1', 'q2', 'q1']);
+    expect(ids(await queryAttempts({ tag: 'hard' }, scope))).toEqual(['q1', 'q1']);
+    expect(ids(await queryAttempts({ bankId: 'b2', from: 3500 }, scope))).toEqual(['q4']);
+  });
+
+  it('filters by book and topic, counting sub-topics towards their parent', async () => {
+    expect(ids(await queryAttempts({ bookId: 'k1' }, scope))).toEqual(['q3', 'q4']);
+    expect(ids(await queryAttempts({ bookId: 'k1', topicId: 't1' }, scope))).toEqual(['q3', 'q4']);
+    expect(ids(await queryAttempts({ bookId: 'k1', topicId: 't1a' }, scope))).toEqual(['q4']);
+    expect(await queryAttempts({ bookId: 'missing' }, scope)).toEqual([]);
+  });
+});
@@ -65,7 +65,7 @@ declare global {
 const APP_VERSION = 'V2025.12';
 
 // --- Data Structures ---
-type QuestionType = 'single' | 'multiple';
+type QuestionType = 'single' | 'multiple' | 'truefalse' | 'blank' | 'essay';
 
 // 1. Types for Syllabus Management
 interface SyllabusTopic {
@@ -88,12 +88,21 @@ interface SyllabusPreset {
 
 type QuizOption = { id: string; text: string };
 
+type RubricPoint = { point: string; score: number };
+
 type QuizQuestion = {
   id: string;
   type: QuestionType; // Derived or explicitly set
   stem: string; // The question text
   options: QuizOption[];
   answerIds: string[]; // Correct option IDs
+  // Fill-in-the-blank: accepted answers per blank, canonical answer first (options/answerIds stay empty)
+  blanks?: string[][];
+  // Short-answer/essay: reference answer plus the rubric the LLM grades against
+  referenceAnswer?: string;
+  rubric?: RubricPoint[];
+  // Point value in scored results; 1 when unset, or WEIGHTED_QUESTION_POINTS with type weighting on
+  points?: number;
   
   // --- Structured Explanation Fields ---
   analysis?: string; // Fallback
@@ -102,6 +111,15 @@ type QuizQuestion = {
   extendedCases?: string[]; 
 
   sourceDocument?: string; 
+  sourceChunk?: SourceChunkRef;
+  // Page and verbatim passage the model cites; verified means the passage was found in the material
+  sourcePage?: number;
+  sourceExcerpt?: string;
+  sourceExcerptVerified?: boolean;
+  // Result of solving the question again without the key
+  verification?: AnswerVerification;
+  // Level the question was generated at; see effectiveDifficulty for the one shown to the user
+  difficulty?: QuestionDifficulty;
   
   // --- Auto-tagging Fields ---
   bookTitle?: string;
@@ -129,6 +147,31 @@ type QuizBank = {
   sourceFiles: string[];
   questionCount: number;
   questions: QuizQuestion[];
+  // Set when generation was cancelled and the finished batches were kept
+  partial?: { completedBatches: number; totalBatches: number };
+  note?: string;
+  // Providers that actually produced the questions (more than one when a fallback kicked in)
+  providers?: string[];
+  usage?: UsageByModel;
+  // Set on banks assembled from a paper template
+  paperTemplateId?: string;
+  // Section points of an assembled paper; kept here because the questions are shared with their source banks
+  pointsById?: Record<string, number>;
+};
+
+// Where in the uploaded material a generated question came from
+type SourceChunkRef = {
+  document: string;
+  chunkIndex: number; // 1-based, across all files of the generation run
+  pageStart?: number;
+  pageEnd?: number;
+};
+
+type UploadedFile = {
+  name: string;
+  content: string;
+  // Offset in content where each PDF page begins
+  pageStarts?: number[];
 };
 
 type FavoriteItem = {
@@ -145,6 +188,8 @@ type MistakeItem = {
   fromBankId?: string;
   fromBankTitle?: string;
   userAnswer?: string[];
+  // Earned some but not all points (e.g. a correct subset of a multiple-choice answer)
+  partial?: boolean;
   addedAt: string;
 };
 
@@ -170,9 +215,22 @@ type ApiConfigHistoryItem = {
 
 // --- New Progress Persistence Types ---
 type StoredQuizAnswer = {
-  answerIds: string[]; // Changed from 'selected' to match new structure, but keeping compatibility logic might be needed
+  answerIds: string[]; // Changed from 'selected' to match new structure, but keeping compatibility logic might be needed (typed texts for blank questions)
   selected?: string[]; // Legacy
   isCorrect: boolean;
+  // Essay questions earn partial credit; isCorrect is then score / maxScore >= ESSAY_PASS_RATIO
+  grading?: EssayGrading;
+  // Points earned out of the question's point value (absent on answers saved before scoring schemes)
+  score?: number;
+  maxScore?: number;
+};
+
+type EssayGrading = {
+  score: number;
+  maxScore: number;
+  covered: string[];
+  missed: string[];
+  feedback: string;
 };
 
 type StoredQuizProgress = {
@@ -182,20 +240,49 @@ type StoredQuizProgress = {
   answeredCount: number; // Added for stats
   correctCount: number;  // Added for stats
   updatedAt: number;
+  // Timed exam clock, kept so resuming doesn't restart the time limit
+  examStartedAt?: number;
+  examDeadline?: number;
+};
+
+type ExamQuestionRecord = {
+  id: string;
+  stem: string;
+  seconds: number;
+  answered: boolean;
+  isCorrect: boolean;
+  score: number;
+  maxScore: number;
+};
+
+// One finished mock exam, saved when the paper is handed in or the countdown runs out
+type ExamRecord = {
+  id: string;
+  sessionKey: string;
+  title: string;
+  startedAt: string;
+  finishedAt: string;
+  durationSeconds: number;
+  usedSeconds: number;
+  timedOut: boolean;
+  scoringScheme: ScoringScheme;
+  earnedPoints: number;
+  totalPoints: number;
+  questions: ExamQuestionRecord[];
 };
 
 type StoredQuizProgressMap = {
   [sessionKey: string]: StoredQuizProgress;
 };
 
-type GenerationStage = 'idle' | 'parsing' | 'callingModel' | 'postProcessing';
+type GenerationStage = 'idle' | 'parsing' | 'callingModel' | 'verifying' | 'postProcessing';
 type Theme = 'light' | 'dark';
 type GenerationSpeedMode = 'quality' | 'fast';
 type HistoryViewMode = 'byBank' | 'byBook' | 'byTag';
 type MistakeViewMode = 'mistakes' | 'trash';
 
 // --- API Config Types ---
-type ApiProtocol = 'openai-compatible' | 'gemini-native';
+type ApiProtocol = 'openai-compatible' | 'gemini-native' | 'anthropic' | 'ollama';
 
 interface ApiConfig {
   protocol: ApiProtocol;
@@ -206,6 +293,23 @@ interface ApiConfig {
   preset?: string;
 }
 
+type ChatSession = {
+  id: string;
+  title: string;
+  messages: {role: string, content: string, reasoning?: string}[];
+  createdAt: Date;
+  updatedAt: Date;
+  usage?: UsageByModel;
+};
+
+const createEmptyChatSession = (): ChatSession => ({
+  id: `session-${Date.now()}`,
+  title: '新对话',
+  messages: [],
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
 const QUIZ_HISTORY_KEY = 'quizHistory.v1';
 const THEME_KEY = 'app_theme';
 const APP_TITLE_KEY = 'quiz_app_title'; 
@@ -220,6 +324,9 @@ const QUESTION_META_KEY = 'questionMeta.v1';
 const TAG_PRESETS_KEY = 'tagPresets.v1';
 const SYLLABUS_PRESETS_KEY = 'quiz_syllabus_presets_v1';
 const QUIZ_PROGRESS_KEY = 'quiz_progress_v1';
+const MODEL_PRICES_KEY = 'modelPrices.v1';
+const DAILY_BUDGET_KEY = 'dailyBudget.v1';
+const CHAT_SESSIONS_KEY = 'chatSessions';
 
 // --- Constants & Config ---
 const DEFAULT_TAG_PRESETS: TagPreset[] = [
@@ -246,6 +353,11 @@ const MODEL_PRESETS: PresetConfig[] = [
   { id: 'openai', label: 'OpenAI (GPT-4o)', protocol: 'openai-compatible', baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o', customPath: '/v1/chat/completions' },
   { id: 'gemini-openai', label: 'Google Gemini (OpenAI 兼容)', protocol: 'openai-compatible', baseUrl: 'https://generativelanguage.googleapis.com/v1beta/openai', model: 'gpt-4.1-mini', customPath: '/v1/chat/completions' },
   { id: 'gemini-native', label: 'Google Gemini 原生 (推荐)', protocol: 'gemini-native', baseUrl: 'https://generativelanguage.googleapis.com', model: 'gemini-1.5-flash' },
+  { id: 'anthropic', label: 'Anthropic Claude', protocol: 'anthropic', baseUrl: 'https://api.anthropic.com', model: 'claude-sonnet-4-5' },
+  // Local servers (no API key needed)
+  { id: 'ollama', label: 'Ollama 本地 (原生接口)', protocol: 'ollama', baseUrl: 'http://localhost:11434', model: 'qwen2.5:7b' },
+  { id: 'ollama-openai', label: 'Ollama 本地 (OpenAI 兼容)', protocol: 'openai-compatible', baseUrl: 'http://localhost:11434', model: 'qwen2.5:7b', customPath: '/v1/chat/completions' },
+  { id: 'llama-cpp', label: 'llama.cpp server 本地', protocol: 'openai-compatible', baseUrl: 'http://localhost:8080', model: 'local-model', customPath: '/v1/chat/completions' },
 ];
 
 const COLORS = {
@@ -303,10 +415,64 @@ const prepareOrderedQuestions = (questions: QuizQuestion[]): QuizQuestion[] => {
   return [...questions]; // Return copy, do not shuffle
 };
 
+// True/false questions always carry these two options; answerIds is ['T'] or ['F']
+const TRUE_FALSE_OPTIONS: QuizOption[] = [{ id: 'T', text: '正确' }, { id: 'F', text: '错误' }];
+const QUESTION_TYPE_LABELS: Record<QuestionType, string> = { single: '单选', multiple: '多选', truefalse: '判断', blank: '填空', essay: '简答' };
+
+// Reads 对/错, 正确/错误, √/×, true/false, T/F and booleans as a true/false answer
+const parseTrueFalseValue = (value: any): 'T' | 'F' | null => {
+  if (typeof value === 'boolean') return value ? 'T' : 'F';
+  if (Array.isArray(value)) return value.length === 1 ? parseTrueFalseValue(value[0]) : null;
+  if (typeof value !== 'string') return null;
+  const v = value.trim().toLowerCase();
+  if (['t', 'true', 'yes', '对', '正确', '是', '√', '✓', '✔'].includes(v)) return 'T';
+  if (['f', 'false', 'no', '错', '错误', '否', '×', '✗', '✘'].includes(v)) return 'F';
+  return null;
+};
+
+// Badge shown in front of an option: the letter, or ✓/✗ for true/false questions
+const optionBadge = (q: QuizQuestion, idx: number): string => {
+  if (q.type === 'truefalse') return q.options[idx]?.id === 'T' ? '✓' : '✗';
+  return indexToLetter(idx);
+};
+
+// How a correct answer id is spelled out to the user
+const formatAnswerLabel = (q: QuizQuestion, id: string): string => {
+  const idx = q.options.findIndex(opt => opt.id === id);
+  if (idx < 0) return id;
+  return q.type === 'truefalse' ? q.options[idx].text : indexToLetter(idx);
+};
+
 const normalizeQuestionText = (text: string): string => {
   return (text || '').toLowerCase().replace(/\s+/g, '').replace(/[，。,\.、；;！!？?\-—_（）()【】\[\]"'“”‘’]/g, '');
 };
 
+// Blank markers in a stem: ____ , （ ） or ( )
+const BLANK_MARKER_RE = /_{2,}|（\s*）|\(\s*\)/g;
+
+// Full-width forms folded before the usual whitespace/punctuation stripping. Unlike stems, a minus
+// sign before a digit and a decimal point between digits are kept, so "-5" ≠ "5" and "3.14" ≠ "314".
+const normalizeBlankAnswer = (text: string): string => {
+  const folded = (text || '').normalize('NFKC').replace(/\u2212/g, '-');
+  const marked = folded.replace(/-(?=\s*\d)/g, '\u0001').replace(/(\d)\.(?=\d)/g, '$1\u0002');
+  return normalizeQuestionText(marked).replace(/\u0001/g, '-').replace(/\u0002/g, '.');
+};
+
+// Per-blank verdicts: a blank is right when it matches any accepted answer after normalization
+const gradeBlankAnswers = (q: QuizQuestion, texts: string[]): boolean[] => {
+  return (q.blanks || []).map((accepted, i) => {
+    const given = normalizeBlankAnswer(texts[i] || '');
+    return given.length > 0 && accepted.some(a => normalizeBlankAnswer(a) === given);
+  });
+};
+
+// The correct answer spelled out for headers and prompts
+const formatCorrectAnswer = (q: QuizQuestion): string => {
+  if (q.type === 'blank') return (q.blanks || []).map(b => b[0]).join('；');
+  if (q.type === 'essay') return q.referenceAnswer || (q.rubric || []).map(r => r.point).join('；');
+  return q.answerIds.map(id => formatAnswerLabel(q, id)).join('、');
+};
+
 // --- ROBUST JSON PARSING HELPERS ---
 
 function stripCodeFences(raw: string): string {
@@ -492,24 +658,84 @@ function normalizeQuizJson(raw: string): QuizQuestion[] | null {
       return Array.from(ids);
     };
 
+    const TRUE_FALSE_TYPE_NAMES = ['truefalse', 'true_false', 'true-false', 'tf', 'judge', 'boolean', '判断', '判断题'];
+    const ESSAY_TYPE_NAMES = ['essay', 'short', 'shortanswer', 'short_answer', 'short-answer', 'discussion', '简答', '简答题', '论述', '论述题'];
+    const BLANK_TYPE_NAMES = ['blank', 'fill', 'fillblank', 'fill_blank', 'fill-in-the-blank', 'cloze', '填空', '填空题'];
+
+    // [["答案", "同义词"], "答案2|别称"] -> one list of accepted answers per blank
+    const toBlanks = (value: any): string[][] => {
+      if (value == null) return [];
+      const list = Array.isArray(value) ? value : [value];
+      return list
+        .map((entry: any) => (Array.isArray(entry) ? entry : [entry])
+          .flatMap((a: any) => String(a).split(/[|｜]/))
+          .map((a: string) => a.trim())
+          .filter(Boolean))
+        .filter((accepted: string[]) => accepted.length > 0);
+    };
+
     const out: QuizQuestion[] = [];
     arr.forEach((item: any, idx: number) => {
       if (!item) return;
       const stem = String(item.stem ?? item.question ?? item.title ?? '');
-      const options = toOptions(item.options ?? item.choices ?? []);
-      const answerIds = normalizeAnswers(item, options);
-      if (!stem || options.length === 0) return;
+      let options = toOptions(item.options ?? item.choices ?? []);
+      let answerIds = normalizeAnswers(item, options);
+      let type: QuestionType = answerIds.length > 1 ? 'multiple' : 'single';
+
+      // True/false: declared by type, implied by 正确/错误 options, or an option-less 对/错 answer
+      const rawAnswer = item.answerIds ?? item.answers ?? item.answer ?? item.correctOptions ?? item.correctOption ?? item.correctAnswer;
+      const optionsLookTrueFalse = options.length === 2 && options.every(o => parseTrueFalseValue(o.text) !== null);
+      if (TRUE_FALSE_TYPE_NAMES.includes(String(item.type ?? '').trim().toLowerCase()) || optionsLookTrueFalse || (options.length === 0 && parseTrueFalseValue(rawAnswer) !== null)) {
+        let tf = parseTrueFalseValue(rawAnswer);
+        if (!tf && optionsLookTrueFalse && answerIds.length === 1) {
+          tf = parseTrueFalseValue(options.find(o => o.id === answerIds[0])?.text);
+        }
+        if (!tf) return;
+        type = 'truefalse';
+        options = TRUE_FALSE_OPTIONS.map(o => ({ ...o }));
+        answerIds = [tf];
+      }
+      let blanks: string[][] | undefined;
+      if (BLANK_TYPE_NAMES.includes(String(item.type ?? '').trim().toLowerCase()) || (options.length === 0 && Array.isArray(item.blanks))) {
+        blanks = toBlanks(item.blanks ?? item.acceptableAnswers ?? item.answers ?? item.answer ?? item.correctAnswer);
+        if (blanks.length === 0) return;
+        // Merge extra alternatives listed separately, e.g. "alternatives": [["同义词"], ...]
+        toBlanks(item.alternatives).forEach((alts, i) => { if (blanks![i]) blanks![i] = Array.from(new Set([...blanks![i], ...alts])); });
+        type = 'blank';
+        options = [];
+        answerIds = [];
+      }
+      let referenceAnswer: string | undefined;
+      let rubric: RubricPoint[] | undefined;
+      if (ESSAY_TYPE_NAMES.includes(String(item.type ?? '').trim().toLowerCase()) || (options.length === 0 && (item.rubric || item.referenceAnswer))) {
+        const reference = item.referenceAnswer ?? item.reference ?? item.answer ?? item.参考答案;
+        referenceAnswer = typeof reference === 'string' && reference.trim() ? reference.trim() : undefined;
+        rubric = (Array.isArray(item.rubric) ? item.rubric : [])
+          .map((r: any) => typeof r === 'string'
+            ? { point: r.trim(), score: 2 }
+            : { point: String(r?.point ?? r?.text ?? r?.要点 ?? '').trim(), score: Number(r?.score ?? r?.points ?? 2) || 2 })
+          .filter((r: RubricPoint) => r.point);
+        if (!referenceAnswer && rubric!.length === 0) return;
+        type = 'essay';
+        options = [];
+        answerIds = [];
+      }
+      if (!stem || (options.length === 0 && !blanks && type !== 'essay')) return;
 
       const id = String(item.id ?? item.qid ?? `q-${Date.now()}-${idx}`);
       
       const q: QuizQuestion = {
         id,
-        type: answerIds.length > 1 ? 'multiple' : 'single',
+        type,
         stem, // mapped from stem/question
         question: stem, // legacy compat
         options,
         answerIds,
         correctOptions: answerIds, // legacy compat
+        blanks,
+        referenceAnswer,
+        rubric: rubric && rubric.length > 0 ? rubric : undefined,
+        points: Number(item.points) > 0 ? Number(item.points) : undefined,
         
         analysis: item.analysis ?? item.explanation ?? item.解析 ?? undefined,
         coreConcept: item.coreConcept ?? undefined,
@@ -521,7 +747,15 @@ function normalizeQuizJson(raw: string): QuizQuestion[] | null {
         assignedBookId: item.assignedBookId ?? undefined,
         assignedTopicId: item.assignedTopicId ?? undefined,
         
-        sourceDocument: item.sourceDocument
+        sourceDocument: item.sourceDocument,
+        // Generated batches answer with a bare chunk number, resolved by the caller
+        sourceChunk: typeof item.sourceChunk === 'number'
+          ? { document: item.sourceDocument ?? '', chunkIndex: item.sourceChunk }
+          : (item.sourceChunk && typeof item.sourceChunk.chunkIndex === 'number' ? item.sourceChunk : undefined),
+        sourcePage: Number.isFinite(Number(item.sourcePage)) && Number(item.sourcePage) > 0 ? Number(item.sourcePage) : undefined,
+        sourceExcerpt: typeof item.sourceExcerpt === 'string' && item.sourceExcerpt.trim() ? item.sourceExcerpt.trim() : undefined,
+        sourceExcerptVerified: typeof item.sourceExcerptVerified === 'boolean' ? item.sourceExcerptVerified : undefined,
+        difficulty: parseDifficulty(item.difficulty ?? item.level ?? item.难度)
       };
       out.push(q);
     });
@@ -615,14 +849,302 @@ function normalizeSyllabusJson(raw: string): SyllabusPreset | null {
 }
 
 const checkAnswerIsCorrect = (q: QuizQuestion, selected: string[]): boolean => {
+  if (q.type === 'blank') return (q.blanks || []).length > 0 && gradeBlankAnswers(q, selected).every(Boolean);
   if (!q.answerIds) return false;
   if (selected.length !== q.answerIds.length) return false;
   const correctSet = new Set(q.answerIds);
   return selected.every(opt => correctSet.has(opt));
 };
 
+// --- Essay Grading ---
+const ESSAY_PASS_RATIO = 0.6;
+
+const essayMaxScore = (q: QuizQuestion): number => (q.rubric || []).reduce((sum, r) => sum + r.score, 0) || 10;
+
+// Fraction of the question earned: partial for scored and graded answers, all-or-nothing otherwise
+const answerCredit = (answer: StoredQuizAnswer | undefined): number => {
+  if (!answer) return 0;
+  if (answer.maxScore) return (answer.score || 0) / answer.maxScore;
+  if (answer.grading) return answer.grading.maxScore > 0 ? answer.grading.score / answer.grading.maxScore : 0;
+  return answer.isCorrect ? 1 : 0;
+};
+
+const buildEssayGradingPrompt = (q: QuizQuestion, text: string): string => {
+  const rubric = (q.rubric || []).map((r, i) => `${i + 1}. ${r.point}（${r.score} 分）`).join('\n');
+  return `你是一名严格但公正的阅卷老师。请根据评分要点为学生的作答打分。
+
+题目：${q.stem}
+
+参考答案：${q.referenceAnswer || '（无）'}
+
+评分要点（满分 ${essayMaxScore(q)} 分）：
+${rubric || `1. 与参考答案的要点一致程度（${essayMaxScore(q)} 分）`}
+
+学生作答：
+${text}
+
+评分规则：
+1. 逐条对照评分要点，意思表达正确即可得分，不要求与参考答案字面一致；部分答到可给部分分。
+2. 与题目无关、空泛或错误的内容不得分。
+3. "covered" 和 "missed" 中的条目请使用评分要点的原文。
+
+只输出 JSON，不要输出 Markdown：
+{"score": 得分数字, "covered": ["已答到的要点"], "missed": ["遗漏或答错的要点"], "feedback": "简短的改进建议(简体中文)"}`;
+};
+
+const normalizeEssayGrading = (raw: string, maxScore: number): EssayGrading | null => {
+  const block = extractFirstJsonBlock(raw);
+  if (!block) return null;
+  const obj = tryJsonParse<any>(block) ?? tryJsonParse<any>(safeTrimCommas(block));
+  if (!obj || typeof obj !== 'object') return null;
+  const score = Number(obj.score);
+  if (!Number.isFinite(score)) return null;
+  const toList = (v: any): string[] => (Array.isArray(v) ? v.map(x => String(x).trim()).filter(Boolean) : []);
+  return {
+    score: Math.min(maxScore, Math.max(0, Math.round(score * 10) / 10)),
+    maxScore,
+    covered: toList(obj.covered),
+    missed: toList(obj.missed),
+    feedback: String(obj.feedback ?? '').trim(),
+  };
+};
+
+// --- Answer Verification ---
+// After generation, the model (or another preset) solves each objective question again
+// without seeing the key. A different answer marks the question as disputed until resolved.
+type AnswerVerification = {
+  status: 'agreed' | 'disputed' | 'resolved';
+  verifierAnswer: string[]; // option ids, or one text per blank
+  verifierRationale: string;
+  generatorRationale: string;
+  verifier: string; // provider label
+  checkedAt: string;
+  resolvedAt?: string;
+};
+
+type VerifierSolution = { answer: string[]; rationale: string };
+
+const VERIFIABLE_TYPES: QuestionType[] = ['single', 'multiple', 'truefalse', 'blank'];
+
+const VERIFICATION_STATUS_LABELS: Record<AnswerVerification['status'], string> = { agreed: '一致', disputed: '待核对', resolved: '已核对' };
+
+const isDisputed = (q: QuizQuestion) => q.verification?.status === 'disputed';
+
+// One question per request, so the verifier can't lean on the other questions of a batch
+const buildVerificationPrompt = (q: QuizQuestion): string => {
+  let block: string;
+  if (q.type === 'blank') {
+    block = `【填空题，共 ${(q.blanks || []).length} 个空】${q.stem}`;
+  } else {
+    const options = q.options.map((o, idx) => `${indexToLetter(idx)}. ${o.text}`).join('\n');
+    const kind = q.type === 'multiple' ? '多选题，可能有多个正确答案' : q.type === 'truefalse' ? '判断题' : '单选题';
+    block = `【${kind}】${q.stem}\n${options}`;
+  }
+  return `请独立解答下面这道题。
+
+${block}
+
+只输出 JSON 对象，不要输出 Markdown：
+{"answer": ["选项字母"，填空题则按顺序填写每个空的答案], "rationale": "简短的解题依据(简体中文)"}`;
+};
+
+// The verifier's solution, or null when the response has no usable answer
+const parseVerificationResponse = (raw: string, q: QuizQuestion): VerifierSolution | null => {
+  const block = extractFirstJsonBlock(raw);
+  if (!block) return null;
+  const parsed = tryJsonParse<any>(block) ?? tryJsonParse<any>(safeTrimCommas(block));
+  // Tolerate a one-element array in the style of the generation prompts
+  const item = Array.isArray(parsed) ? parsed[0] : parsed;
+  if (!item || typeof item !== 'object') return null;
+  const values = (Array.isArray(item.answer) ? item.answer : [item.answer]).map((v: any) => String(v ?? '').trim()).filter(Boolean);
+  let answer: string[];
+  if (q.type === 'blank') {
+    answer = values;
+  } else {
+    // Letters may come as ["A", "C"], "AC" or "A、C"; true/false may come as 正确/错误.
+    // Anything else (e.g. "A. CAD 软件") is refused rather than mined for capitals.
+    const tf = q.type === 'truefalse' && values.length === 1 ? parseTrueFalseValue(values[0]) : null;
+    if (!tf && !values.every((v: string) => /^[A-Z](?:[\s,，、]*[A-Z])*$/i.test(v))) return null;
+    const letters = tf ? [tf === 'T' ? 'A' : 'B'] : values.join('').toUpperCase().match(/[A-Z]/g) || [];
+    const ids = Array.from(new Set<string>(letters)).map(letter => q.options[letter.charCodeAt(0) - 65]?.id);
+    if (ids.some(id => !id)) return null;
+    answer = ids as string[];
+  }
+  return answer.length > 0 ? { answer, rationale: String(item.rationale ?? '').trim() } : null;
+};
+
+// The generator's own explanation for its key, for showing next to the verifier's
+const describeGeneratorRationale = (q: QuizQuestion): string => {
+  const analyses = q.answerIds
+    .map(id => {
+      const idx = q.options.findIndex(o => o.id === id);
+      return q.optionAnalyses?.[id] ?? q.optionAnalyses?.[indexToLetter(idx)];
+    })
+    .filter(Boolean);
+  return [q.coreConcept || q.analysis, ...analyses].filter(Boolean).join('\n');
+};
+
+const applyVerification = (q: QuizQuestion, solution: VerifierSolution, verifier: string): QuizQuestion => {
+  const agreed = q.type === 'blank'
+    ? solution.answer.length === (q.blanks || []).length && gradeBlankAnswers(q, solution.answer).every(Boolean)
+    : solution.answer.length === q.answerIds.length && solution.answer.every(id => q.answerIds.includes(id));
+  return {
+    ...q,
+    verification: {
+      status: agreed ? 'agreed' : 'disputed',
+      verifierAnswer: solution.answer,
+      verifierRationale: solution.rationale,
+      generatorRationale: describeGeneratorRationale(q),
+      verifier,
+      checkedAt: new Date().toISOString(),
+    },
+  };
+};
+
+// The question with the verifier's answer taken as the key
+const adoptVerifierAnswer = (q: QuizQuestion): QuizQuestion => {
+  const v = q.verification;
+  if (!v) return q;
+  const resolved = { ...v, status: 'resolved' as const, resolvedAt: new Date().toISOString() };
+  if (q.type === 'blank') return { ...q, blanks: v.verifierAnswer.map(a => [a]), verification: resolved };
+  const answerIds = q.options.map(o => o.id).filter(id => v.verifierAnswer.includes(id));
+  return { ...q, answerIds, type: q.type === 'single' && answerIds.length > 1 ? 'multiple' : q.type, verification: resolved };
+};
+
+const formatVerifierAnswer = (q: QuizQuestion): string => {
+  const v = q.verification;
+  if (!v) return '';
+  if (q.type === 'blank') return v.verifierAnswer.join('；');
+  return v.verifierAnswer.map(id => formatAnswerLabel(q, id)).join('、');
+};
+
+// --- Question Difficulty ---
+// Generated questions carry the level the model was asked for. Once a question has been
+// answered often enough, its accuracy decides the level instead.
+type QuestionDifficulty = 'basic' | 'advanced' | 'challenge';
+type DifficultyMix = Record<QuestionDifficulty, number>; // relative weights
+type DifficultyOrder = 'none' | 'asc' | 'desc';
+
+const DIFFICULTY_LEVELS: QuestionDifficulty[] = ['basic', 'advanced', 'challenge'];
+const DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = { basic: '基础', advanced: '提高', challenge: '冲刺' };
+const DIFFICULTY_PROMPT_HINTS: Record<QuestionDifficulty, string> = {
+  basic: '直接考查概念、定义和基本事实',
+  advanced: '需要理解和运用知识，辨析相近概念',
+  challenge: '综合多个知识点，需要多步推理或结合情境分析',
+};
+const DEFAULT_DIFFICULTY_MIX: DifficultyMix = { basic: 30, advanced: 50, challenge: 20 };
+
+const DIFFICULTY_MIN_ATTEMPTS = 3;
+// Accuracy at or above which a question counts as basic / advanced
+const DIFFICULTY_BASIC_ACCURACY = 0.8;
+const DIFFICULTY_ADVANCED_ACCURACY = 0.5;
+
+// Accepts the English keys as well as labels the model may answer with instead
+const parseDifficulty = (value: any): QuestionDifficulty | undefined => {
+  const text = String(value ?? '').trim().toLowerCase();
+  if (!text) return undefined;
+  if (/basic|easy|基础|简单|容易/.test(text)) return 'basic';
+  if (/advanced|medium|提高|中等/.test(text)) return 'advanced';
+  if (/challenge|hard|冲刺|困难|较难/.test(text)) return 'challenge';
+  return undefined;
+};
+
+const empiricalDifficulty = (tally: AttemptTally[string] | undefined): QuestionDifficulty | undefined => {
+  if (!tally || tally.attempts < DIFFICULTY_MIN_ATTEMPTS) return undefined;
+  const accuracy = tally.correct / tally.attempts;
+  if (accuracy >= DIFFICULTY_BASIC_ACCURACY) return 'basic';
+  return accuracy >= DIFFICULTY_ADVANCED_ACCURACY ? 'advanced' : 'challenge';
+};
+
+const effectiveDifficulty = (q: QuizQuestion, tally: AttemptTally[string] | undefined): QuestionDifficulty | undefined =>
+  empiricalDifficulty(tally) ?? q.difficulty;
+
+const buildDifficultyInstruction = (mix: DifficultyMix, count: number): string => {
+  const weights = DIFFICULTY_LEVELS.map(level => Math.max(0, mix[level] || 0));
+  // An all-zero mix falls back to the default rather than asking for nothing
+  const counts = allocateProportionally(weights.some(w => w > 0) ? weights : DIFFICULTY_LEVELS.map(level => DEFAULT_DIFFICULTY_MIX[level]), count);
+  const parts = DIFFICULTY_LEVELS
+    .map((level, i) => counts[i] > 0 ? `${DIFFICULTY_LABELS[level]}（"${level}"，${DIFFICULTY_PROMPT_HINTS[level]}）${counts[i]} 道` : '')
+    .filter(Boolean);
+  return `难度要求：本批 ${count} 道题中，${parts.join('，')}。每道题都要用 "difficulty" 字段标明它的难度。`;
+};
+
+// Questions of one level (unrated ones are dropped when filtering), optionally sorted easy-first
+// or hard-first with unrated questions last
+const arrangeByDifficulty = (
+  questions: QuizQuestion[],
+  tally: AttemptTally,
+  filter: QuestionDifficulty | 'all',
+  order: DifficultyOrder
+): QuizQuestion[] => {
+  const levelOf = (q: QuizQuestion) => effectiveDifficulty(q, tally[String(q.id)]);
+  const kept = filter === 'all' ? [...questions] : questions.filter(q => levelOf(q) === filter);
+  if (order === 'none') return kept;
+  const rank = (q: QuizQuestion) => {
+    const level = levelOf(q);
+    if (!level) return Infinity;
+    const i = DIFFICULTY_LEVELS.indexOf(level);
+    return order === 'asc' ? i : DIFFICULTY_LEVELS.length - 1 - i;
+  };
+  return kept.sort((a, b) => rank(a) - rank(b));
+};
+
+// --- Scoring Schemes ---
+type ScoringScheme = 'strict' | 'subset-half' | 'per-option';
+
+const SCORING_SCHEME_LABELS: Record<ScoringScheme, string> = {
+  'strict': '全对才得分',
+  'subset-half': '少选得一半（有错选不得分）',
+  'per-option': '按选项加减分',
+};
+
+// Opt-in per-type values; without them every question is worth 1 point
+const WEIGHTED_QUESTION_POINTS: Record<QuestionType, number> = { single: 1, multiple: 2, truefalse: 1, blank: 1, essay: 10 };
+
+// pointsById overrides the question's own value, e.g. the section points of an assembled paper
+const questionPoints = (q: QuizQuestion, weighted = false, pointsById?: Record<string, number>): number => {
+  const override = pointsById?.[String(q.id)];
+  if (override && override > 0) return override;
+  if (q.points && q.points > 0) return q.points;
+  if (!weighted) return 1;
+  return q.type === 'essay' ? essayMaxScore(q) : (WEIGHTED_QUESTION_POINTS[q.type] ?? 1);
+};
+
+const roundPoints = (n: number) => Math.round(n * 100) / 100;
+
+// Points earned by a non-essay answer; only multiple-choice questions can earn partial credit
+const scoreChoiceAnswer = (q: QuizQuestion, selected: string[], scheme: ScoringScheme, weighted = false, pointsById?: Record<string, number>): number => {
+  const points = questionPoints(q, weighted, pointsById);
+  if (checkAnswerIsCorrect(q, selected)) return points;
+  if (q.type !== 'multiple' || scheme === 'strict') return 0;
+  const correct = new Set(q.answerIds);
+  const right = selected.filter(id => correct.has(id)).length;
+  const wrong = selected.length - right;
+  if (scheme === 'subset-half') return wrong === 0 && right > 0 ? roundPoints(points / 2) : 0;
+  // per-option: each correct pick adds and each wrong pick removes an equal share, never below zero
+  return Math.max(0, roundPoints((right - wrong) * points / Math.max(1, correct.size)));
+};
+
+// Points earned on a stored answer, falling back to all-or-nothing for answers without a score
+const answerPoints = (q: QuizQuestion, answer: StoredQuizAnswer | undefined, weighted = false, pointsById?: Record<string, number>): number => {
+  if (!answer) return 0;
+  if (answer.score !== undefined) return answer.score;
+  return roundPoints(answerCredit(answer) * questionPoints(q, weighted, pointsById));
+};
+
+const isPartialAnswer = (answer: StoredQuizAnswer | undefined): boolean => !!answer && !answer.isCorrect && (answer.score ?? 0) > 0;
+
 const buildSuggestedTutorQuestions = (q: QuizQuestion): string[] => {
-  const correctLetters = q.answerIds || [];
+  if (q.type === 'essay') {
+    return [
+      `这道题的答题思路是什么？应该按什么结构组织答案？`,
+      `这道题主要考察了什么核心概念？请系统梳理这一知识点。`,
+      `能结合2024-2025年的最新案例，对这道题涉及的知识点进行拓展吗？`
+    ];
+  }
+  const correctLetters = q.type === 'blank'
+    ? (q.blanks || []).map(b => `「${b[0]}」`)
+    : (q.answerIds || []).map(id => q.type === 'truefalse' ? `「${formatAnswerLabel(q, id)}」` : id);
   if (correctLetters.length === 0) return [];
   // Need to map IDs back to Text if IDs are labels A,B... or just use IDs if they are readable
   // Assuming IDs are typically A, B, C... for suggested questions.
@@ -633,6 +1155,225 @@ const buildSuggestedTutorQuestions = (q: QuizQuestion): string[] => {
   ];
 };
 
+// --- Question Editor ---
+// Editable copy of a question. List-valued fields are kept as text while editing and parsed on save.
+type QuestionDraft = {
+  type: QuestionType;
+  stem: string;
+  options: QuizOption[];
+  answerIds: string[];
+  // One entry per blank, alternatives separated by |
+  blanksText: string[];
+  referenceAnswer: string;
+  rubric: RubricPoint[]; // carried over for validation, not edited here
+  coreConcept: string;
+  optionAnalyses: Record<string, string>; // keyed by option id
+  extendedCasesText: string; // one case per line
+};
+
+const CHOICE_TYPES: QuestionType[] = ['single', 'multiple', 'truefalse'];
+
+const questionToDraft = (q: QuizQuestion): QuestionDraft => ({
+  type: q.type || 'single',
+  stem: q.stem,
+  options: q.options.map(o => ({ ...o })),
+  answerIds: [...q.answerIds],
+  blanksText: (q.blanks || []).map(b => b.join(' | ')),
+  referenceAnswer: q.referenceAnswer || '',
+  rubric: q.rubric || [],
+  coreConcept: q.coreConcept || '',
+  // Analyses may be keyed by id, letter or option text; the editor always uses the id
+  optionAnalyses: Object.fromEntries(q.options.map((o, i) => [o.id, q.optionAnalyses?.[o.id] ?? q.optionAnalyses?.[indexToLetter(i)] ?? q.optionAnalyses?.[o.text] ?? ''])),
+  extendedCasesText: (q.extendedCases || []).join('\n'),
+});
+
+const nextOptionId = (options: QuizOption[]): string => {
+  const used = new Set(options.map(o => o.id));
+  let i = 0;
+  while (used.has(indexToLetter(i))) i++;
+  return indexToLetter(i);
+};
+
+// Switching between choice types keeps what still makes sense (option texts, the first answer)
+const changeDraftType = (draft: QuestionDraft, type: QuestionType): QuestionDraft => {
+  if (type === draft.type) return draft;
+  if (type === 'truefalse') {
+    const current = draft.answerIds[0] ? parseTrueFalseValue(draft.options.find(o => o.id === draft.answerIds[0])?.text) : null;
+    return { ...draft, type, options: TRUE_FALSE_OPTIONS.map(o => ({ ...o })), answerIds: current ? [current] : [], optionAnalyses: {} };
+  }
+  if (draft.type === 'truefalse') {
+    const options = draft.options.map((o, i) => ({ id: indexToLetter(i), text: o.text }));
+    const answerIds = draft.options.flatMap((o, i) => draft.answerIds.includes(o.id) ? [indexToLetter(i)] : []);
+    return { ...draft, type, options, answerIds, optionAnalyses: {} };
+  }
+  return { ...draft, type, answerIds: type === 'single' ? draft.answerIds.slice(0, 1) : draft.answerIds };
+};
+
+const parseDraftBlanks = (blanksText: string[]): string[][] =>
+  blanksText.map(text => text.split(/[|｜]/).map(a => a.trim()).filter(Boolean));
+
+// True when an edit changes what counts as a right answer, so earlier answers to it can't stand
+const answerKeyChanged = (before: QuizQuestion, after: QuizQuestion): boolean =>
+  (before.type || 'single') !== (after.type || 'single')
+  || JSON.stringify(before.options) !== JSON.stringify(after.options)
+  || JSON.stringify(before.answerIds) !== JSON.stringify(after.answerIds)
+  || JSON.stringify(before.blanks || []) !== JSON.stringify(after.blanks || [])
+  || (before.referenceAnswer || '') !== (after.referenceAnswer || '')
+  || JSON.stringify(before.rubric || []) !== JSON.stringify(after.rubric || []);
+
+// Problems that block saving, in display order; empty when the draft is valid
+const validateQuestionDraft = (draft: QuestionDraft): string[] => {
+  const errors: string[] = [];
+  if (!draft.stem.trim()) errors.push('题干不能为空');
+  if (CHOICE_TYPES.includes(draft.type)) {
+    const optionIds = new Set(draft.options.map(o => o.id));
+    if (draft.options.length < 2) errors.push('至少需要两个选项');
+    if (draft.options.some(o => !o.text.trim())) errors.push('选项内容不能为空');
+    if (optionIds.size !== draft.options.length) errors.push('选项编号重复');
+    if (draft.answerIds.length === 0) errors.push('请标记正确答案');
+    if (draft.answerIds.some(id => !optionIds.has(id))) errors.push('正确答案引用了不存在的选项');
+    if (draft.type !== 'multiple' && draft.answerIds.length > 1) errors.push(`${QUESTION_TYPE_LABELS[draft.type]}题只能有一个正确答案`);
+  } else if (draft.type === 'blank') {
+    const blanks = parseDraftBlanks(draft.blanksText);
+    if (blanks.length === 0) errors.push('至少需要一个空');
+    if (blanks.some(b => b.length === 0)) errors.push('每个空至少需要一个答案');
+  } else if (draft.type === 'essay') {
+    if (!draft.referenceAnswer.trim() && draft.rubric.length === 0) errors.push('请填写参考答案');
+  }
+  return errors;
+};
+
+// The edited question, keeping its id and every field the editor doesn't cover
+const applyQuestionEdit = (q: QuizQuestion, draft: QuestionDraft): QuizQuestion => {
+  const isChoice = CHOICE_TYPES.includes(draft.type);
+  const options = isChoice ? draft.options.map(o => ({ id: o.id, text: o.text.trim() })) : [];
+  const optionAnalyses = Object.fromEntries(
+    options.map(o => [o.id, (draft.optionAnalyses[o.id] || '').trim()]).filter(([, text]) => text)
+  );
+  const extendedCases = draft.extendedCasesText.split('\n').map(c => c.trim()).filter(Boolean);
+  return {
+    ...q,
+    type: draft.type,
+    stem: draft.stem.trim(),
+    options,
+    // Stored in option order so answers compare the same way as generated ones
+    answerIds: isChoice ? options.map(o => o.id).filter(id => draft.answerIds.includes(id)) : [],
+    blanks: draft.type === 'blank' ? parseDraftBlanks(draft.blanksText) : undefined,
+    referenceAnswer: draft.type === 'essay' ? (draft.referenceAnswer.trim() || undefined) : q.referenceAnswer,
+    coreConcept: draft.coreConcept.trim() || undefined,
+    optionAnalyses: Object.keys(optionAnalyses).length > 0 ? optionAnalyses : undefined,
+    extendedCases: extendedCases.length > 0 ? extendedCases : undefined,
+  };
+};
+
+// --- Question Rewrite ---
+// Asks the model to rework a single question. "Similar" adds a new question next to the original;
+// the other actions replace it in place, so they go through the revision history like an edit.
+type QuestionRewriteAction = 'similar' | 'harder' | 'easier' | 'distractors' | 'toMultiple';
+
+const QUESTION_REWRITE_ACTIONS: QuestionRewriteAction[] = ['similar', 'harder', 'easier', 'distractors', 'toMultiple'];
+
+const QUESTION_REWRITE_LABELS: Record<QuestionRewriteAction, string> = {
+  similar: '生成相似题',
+  harder: '提高难度',
+  easier: '降低难度',
+  distractors: '重写干扰项',
+  toMultiple: '改为多选题',
+};
+
+const QUESTION_REWRITE_INSTRUCTIONS: Record<QuestionRewriteAction, string> = {
+  similar: '出一道考查同一知识点的新题，题型不变，但题干、选项和答案都不能与原题相同。',
+  harder: '保持考查的知识点和题型不变，把题目改得更难：例如需要多步推理、辨析相近概念，或让干扰项更有迷惑性。',
+  easier: '保持考查的知识点和题型不变，把题目改得更容易：题干更直接，干扰项与正确答案的区别更明显。',
+  distractors: '题干和正确选项原样保留，只重写错误选项，让它们更有迷惑性但仍然明确是错的，并同步更新选项解析。',
+  toMultiple: '把这道题改写为多选题（type 为 "multiple"），给出 4-5 个选项，其中至少 2 个正确选项，题干可按需调整。',
+};
+
+const isRewriteApplicable = (q: QuizQuestion, action: QuestionRewriteAction): boolean => {
+  if (action === 'distractors') return q.type === 'single' || q.type === 'multiple';
+  if (action === 'toMultiple') return q.type === 'single' || q.type === 'truefalse';
+  return true;
+};
+
+// The passage the question was written from, if its document is still uploaded; otherwise the cited excerpt.
+// Chunk numbers shift when the uploaded files change, so the excerpt and page are tried first.
+const findRewriteContext = (q: QuizQuestion, docChunks: DocumentChunk[]): string => {
+  const chunk = (q.sourceExcerpt ? locateExcerpt(docChunks, q.sourceExcerpt)?.chunk : undefined)
+    || (q.sourcePage ? docChunks.find(c => c.pageStart != null && c.pageStart <= q.sourcePage! && (c.pageEnd ?? c.pageStart) >= q.sourcePage!) : undefined)
+    || docChunks.find(c => c.index === q.sourceChunk?.chunkIndex);
+  return chunk ? chunk.text : (q.sourceExcerpt || '');
+};
+
+const buildRewritePrompt = (q: QuizQuestion, action: QuestionRewriteAction, context: string): string => {
+  const original = {
+    type: q.type,
+    question: q.stem,
+    options: q.options.map(o => o.text),
+    correctOptions: q.answerIds.map(id => formatAnswerLabel(q, id)),
+    blanks: q.blanks,
+    referenceAnswer: q.referenceAnswer,
+    rubric: q.rubric,
+    coreConcept: q.coreConcept,
+    difficulty: q.difficulty,
+    sourceExcerpt: q.sourceExcerpt,
+  };
+  return `你是一名专业出题老师。请根据要求改写题库中的一道题。
+
+要求：${QUESTION_REWRITE_INSTRUCTIONS[action]}
+${context ? `\n学习资料（${q.sourceDocument || '原题出处'}）：\n${context}\n` : ''}
+原题：
+${JSON.stringify(original, null, 2)}
+
+请只输出包含一道题的 JSON 数组，不要输出 Markdown，字段结构与原题相同。全部使用简体中文：
+- 选择题给出 "options" 和 "correctOptions"（选项字母），并提供 "optionAnalyses" 逐项分析；
+- 填空题给出 "blanks"，简答题给出 "referenceAnswer" 和 "rubric"；
+- "coreConcept" 概括考查的知识点；
+- "difficulty" 标明改写后的难度："basic"（基础）、"advanced"（提高）或 "challenge"（冲刺）；
+- "sourceExcerpt" 从学习资料中逐字复制能支撑正确答案的原文，没有资料时可省略。`;
+};
+
+// Fits the model's question into the bank: replacements keep the original's id, source and
+// classification; a similar question gets a fresh id. Returns a reason when the result doesn't fit the action.
+const applyQuestionRewrite = (
+  original: QuizQuestion,
+  generated: QuizQuestion,
+  action: QuestionRewriteAction,
+  docChunks: DocumentChunk[]
+): { question: QuizQuestion } | { error: string } => {
+  if (action === 'toMultiple' ? generated.type !== 'multiple' : generated.type !== original.type) {
+    return { error: '模型返回的题型不符合要求' };
+  }
+  if (action === 'toMultiple' && generated.answerIds.length < 2) return { error: '模型返回的多选题少于 2 个正确选项' };
+  if (action === 'distractors') {
+    const keyTexts = (q: QuizQuestion) => q.answerIds.map(id => normalizeQuestionText(q.options.find(o => o.id === id)?.text || '')).sort().join('\n');
+    if (keyTexts(generated) !== keyTexts(original)) return { error: '模型改动了正确选项' };
+  }
+  const located = generated.sourceExcerpt ? locateExcerpt(docChunks, generated.sourceExcerpt) : null;
+  // Without the material a new excerpt can't be checked, so the original citation stays
+  const source = generated.sourceExcerpt && (located || docChunks.length > 0)
+    ? { sourceExcerpt: generated.sourceExcerpt, sourcePage: located?.page ?? generated.sourcePage, sourceExcerptVerified: !!located }
+    : { sourceExcerpt: original.sourceExcerpt, sourcePage: original.sourcePage, sourceExcerptVerified: original.sourceExcerptVerified };
+  const question: QuizQuestion = {
+    ...generated,
+    ...source,
+    id: action === 'similar' ? `q-${Date.now()}-${Math.random().toString(36).slice(2, 8)}` : original.id,
+    // The distractor rewrite must not touch the stem
+    stem: action === 'distractors' ? original.stem : generated.stem,
+    question: action === 'distractors' ? original.stem : generated.stem,
+    points: original.points,
+    difficulty: generated.difficulty ?? original.difficulty,
+    sourceDocument: original.sourceDocument,
+    sourceChunk: original.sourceChunk,
+    bookTitle: original.bookTitle,
+    chapterTitle: original.chapterTitle,
+    assignedBookId: original.assignedBookId,
+    assignedTopicId: original.assignedTopicId,
+    verification: undefined,
+  };
+  const errors = validateQuestionDraft(questionToDraft(question));
+  return errors.length > 0 ? { error: errors[0] } : { question };
+};
+
 // --- New Structured Explanation Renderer ---
 const renderFormattedExplanation = (q: QuizQuestion, theme: Theme) => {
   const colors = COLORS[theme];
@@ -663,12 +1404,12 @@ const renderFormattedExplanation = (q: QuizQuestion, theme: Theme) => {
           <ul style={{ listStyle: 'none', padding: 0, margin: 0 }}>
             {q.options.map((opt, idx) => {
               const letter = indexToLetter(idx); // Fallback if IDs are not letters
-              // Try to find analysis by Option ID first, then by index letter
-              const analysis = q.optionAnalyses?.[opt.id] ?? q.optionAnalyses?.[letter];
+              // Try to find analysis by Option ID first, then by index letter (or text for true/false)
+              const analysis = q.optionAnalyses?.[opt.id] ?? q.optionAnalyses?.[letter] ?? q.optionAnalyses?.[opt.text];
               if (!analysis) return null;
               return (
                 <li key={opt.id} style={{ marginBottom: '6px', display: 'flex', gap: '8px' }}>
-                  <span style={{ fontWeight: 'bold', minWidth: '20px' }}>{letter}.</span>
+                  <span style={{ fontWeight: 'bold', minWidth: '20px' }}>{q.type === 'truefalse' ? opt.text : letter}.</span>
                   <span>{analysis}</span>
                 </li>
               );
@@ -908,10 +1649,344 @@ const groupQuestionsByTag = (quizHistory: QuizBank[], metaMap: Record<string, Qu
   return result;
 };
 
+// --- Document Chunking ---
+const CHUNK_TARGET_CHARS = 6000;
+// Upper bound on material sent along with a single generation batch
+const MAX_BATCH_CONTEXT_CHARS = 30000;
+
+type DocumentChunk = {
+  index: number;
+  document: string;
+  text: string;
+  pageStart?: number;
+  pageEnd?: number;
+};
+
+// Prefixed to every PDF page so the model can cite page numbers
+const pageMarker = (page: number) => `〔第 ${page} 页〕`;
+const PAGE_MARKER_SPLIT_RE = /〔第 (\d+) 页〕/;
+
+type ChunkBatch = {
+  chunks: DocumentChunk[];
+  count: number;
+};
+
+// Chapter/section headings such as "第三章", "1.2 标题", "# Title" or "Chapter 3"
+const HEADING_LINE_RE = /^\s*(第[一二三四五六七八九十百零\d]+[章节篇讲部分单元]|#{1,6}\s|\d+(\.\d+){0,2}[\s、．]\s*\S|chapter\s+\d+)/i;
+
+// Natural units of a file: its pages for PDFs, heading-delimited sections otherwise
+const splitIntoUnits = (file: UploadedFile): Omit<DocumentChunk, 'index' | 'document'>[] => {
+  const pageStarts = file.pageStarts;
+  if (pageStarts && pageStarts.length > 0) {
+    return pageStarts.map((start, i) => ({
+      text: pageMarker(i + 1) + '\n' + file.content.slice(start, pageStarts[i + 1] ?? file.content.length),
+      pageStart: i + 1,
+      pageEnd: i + 1,
+    }));
+  }
+  const units: { text: string }[] = [];
+  let current: string[] = [];
+  file.content.split('\n').forEach(line => {
+    if (HEADING_LINE_RE.test(line) && current.some(l => l.trim())) {
+      units.push({ text: current.join('\n') + '\n' });
+      current = [];
+    }
+    current.push(line);
+  });
+  if (current.some(l => l.trim())) units.push({ text: current.join('\n') });
+  return units;
+};
+
+// Cuts text longer than maxChars at the last paragraph or sentence break that fits
+const splitOversizedText = (text: string, maxChars: number): string[] => {
+  const parts: string[] = [];
+  let rest = text;
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    let cut = window.lastIndexOf('\n') + 1;
+    if (cut < maxChars / 2) cut = Math.max(window.lastIndexOf('。'), window.lastIndexOf('. ')) + 1;
+    if (cut < maxChars / 2) cut = maxChars;
+    parts.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  if (rest.trim()) parts.push(rest);
+  return parts;
+};
+
+// Splits every uploaded file into chunks of roughly CHUNK_TARGET_CHARS along page/heading boundaries
+const chunkDocuments = (files: UploadedFile[], targetChars: number = CHUNK_TARGET_CHARS): DocumentChunk[] => {
+  const chunks: DocumentChunk[] = [];
+  files.forEach(file => {
+    let current: Omit<DocumentChunk, 'index' | 'document'> | null = null;
+    const flush = () => {
+      if (current && current.text.trim()) chunks.push({ index: chunks.length + 1, document: file.name, ...current });
+      current = null;
+    };
+    splitIntoUnits(file).forEach(unit => {
+      if (unit.text.length > targetChars) {
+        flush();
+        splitOversizedText(unit.text, targetChars).forEach(text => {
+          chunks.push({ index: chunks.length + 1, document: file.name, text, pageStart: unit.pageStart, pageEnd: unit.pageEnd });
+        });
+        return;
+      }
+      if (current && current.text.length + unit.text.length > targetChars) flush();
+      current = current
+        ? { text: current.text + unit.text, pageStart: current.pageStart ?? unit.pageStart, pageEnd: unit.pageEnd ?? current.pageEnd }
+        : { ...unit };
+    });
+    flush();
+  });
+  return chunks;
+};
+
+// Splits total into whole numbers proportional to weights (largest remainder method)
+const allocateProportionally = (weights: number[], total: number): number[] => {
+  const sum = weights.reduce((a, b) => a + b, 0);
+  if (sum <= 0 || total <= 0) return weights.map(() => 0);
+  const exact = weights.map(w => total * w / sum);
+  const allocation = exact.map(Math.floor);
+  let leftover = total - allocation.reduce((a, b) => a + b, 0);
+  exact
+    .map((value, i) => ({ i, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(({ i }) => { if (leftover > 0) { allocation[i]++; leftover--; } });
+  return allocation;
+};
+
+// Spreads totalCount questions over the chunks in proportion to their length (largest remainder),
+// then packs consecutive chunks into batches of at most batchSize questions
+const planChunkBatches = (chunks: DocumentChunk[], totalCount: number, batchSize: number): ChunkBatch[] => {
+  const totalChars = chunks.reduce((sum, c) => sum + c.text.length, 0);
+  if (totalChars === 0 || totalCount <= 0) return [];
+  const allocation = allocateProportionally(chunks.map(c => c.text.length), totalCount);
+
+  const batches: ChunkBatch[] = [];
+  let current: ChunkBatch = { chunks: [], count: 0 };
+  const contextChars = (batch: ChunkBatch) => batch.chunks.reduce((sum, c) => sum + c.text.length, 0);
+  const flush = () => {
+    if (current.count > 0) batches.push(current);
+    current = { chunks: [], count: 0 };
+  };
+  chunks.forEach((chunk, i) => {
+    let remaining = allocation[i];
+    while (remaining > 0) {
+      if (!current.chunks.includes(chunk) && contextChars(current) + chunk.text.length > MAX_BATCH_CONTEXT_CHARS) flush();
+      const take = Math.min(remaining, batchSize - current.count);
+      if (!current.chunks.includes(chunk)) current.chunks.push(chunk);
+      current.count += take;
+      remaining -= take;
+      if (current.count >= batchSize) flush();
+    }
+  });
+  flush();
+  return batches;
+};
+
+const formatPageRange = (ref: { pageStart?: number; pageEnd?: number }): string => {
+  if (ref.pageStart == null) return '';
+  return ref.pageEnd != null && ref.pageEnd !== ref.pageStart ? `第 ${ref.pageStart}-${ref.pageEnd} 页` : `第 ${ref.pageStart} 页`;
+};
+
+// Maps a question back to the chunk it names; when it doesn't, falls back to the batch's span in its document
+const resolveSourceChunk = (question: QuizQuestion, batch: ChunkBatch): SourceChunkRef => {
+  const named = batch.chunks.find(c => c.index === question.sourceChunk?.chunkIndex);
+  const candidates = named ? [named] : (() => {
+    const sameDoc = batch.chunks.filter(c => c.document === question.sourceDocument);
+    return sameDoc.length > 0 ? sameDoc : batch.chunks.filter(c => c.document === batch.chunks[0].document);
+  })();
+  const first = candidates[0];
+  const last = candidates[candidates.length - 1];
+  return { document: first.document, chunkIndex: first.index, pageStart: first.pageStart, pageEnd: last.pageEnd };
+};
+
+// Finds the chunk (and page, for PDFs) whose text contains the excerpt, ignoring whitespace and punctuation
+const locateExcerpt = (chunks: DocumentChunk[], excerpt: string): { chunk: DocumentChunk; page?: number } | null => {
+  const needle = normalizeQuestionText(excerpt);
+  if (needle.length < 4) return null;
+  for (const chunk of chunks) {
+    // [text before first marker, page, text, page, text, ...]
+    const parts = chunk.text.split(new RegExp(PAGE_MARKER_SPLIT_RE.source, 'g'));
+    if (normalizeQuestionText(parts[0]).includes(needle)) return { chunk, page: chunk.pageStart };
+    for (let k = 1; k < parts.length; k += 2) {
+      if (normalizeQuestionText(parts[k + 1] || '').includes(needle)) return { chunk, page: Number(parts[k]) };
+    }
+    // Excerpt straddling a page break
+    if (normalizeQuestionText(chunk.text.replace(new RegExp(PAGE_MARKER_SPLIT_RE.source, 'g'), '')).includes(needle)) {
+      return { chunk, page: chunk.pageStart };
+    }
+  }
+  return null;
+};
+
+const getUploadedPageText = (files: UploadedFile[], document: string, page: number): string | null => {
+  const file = files.find(f => f.name === document);
+  const start = file?.pageStarts?.[page - 1];
+  if (!file || start == null) return null;
+  return file.content.slice(start, file.pageStarts![page] ?? file.content.length).trim();
+};
+
+// --- Paper Assembly ---
+type PaperSection = {
+  id: string;
+  title: string;
+  questionType: QuestionType | 'any';
+  bookId?: string;
+  topicId?: string;
+  tag?: string;
+  count: number;
+  // Points per question in this section; the question's own value when unset
+  points?: number;
+};
+
+// Blueprint for composing a mock paper out of the existing banks
+type PaperTemplate = {
+  id: string;
+  name: string;
+  syllabusId: string | null;
+  sections: PaperSection[];
+  // Questions answered within this many days are only drawn when nothing fresher is left
+  avoidRecentDays: number;
+  updatedAt: string;
+};
+
+type PaperCandidate = {
+  question: QuizQuestion;
+  bookId: string | null;
+  topicId: string | null;
+  tags: string[];
+};
+
+type PaperAssembly = {
+  questions: QuizQuestion[];
+  // Points of questions in sections that set their own
+  pointsById: Record<string, number>;
+  shortages: { title: string; wanted: number; got: number }[];
+  reusedRecent: number;
+};
+
+const createPaperSection = (overrides: Partial<PaperSection> = {}): PaperSection => ({
+  id: `sec-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  title: '',
+  questionType: 'single',
+  count: 10,
+  ...overrides,
+});
+
+const createPaperTemplate = (syllabusId: string | null): PaperTemplate => ({
+  id: `paper-${Date.now()}`,
+  name: '新试卷模板',
+  syllabusId,
+  sections: [createPaperSection({ title: '单项选择题' })],
+  avoidRecentDays: 7,
+  updatedAt: new Date().toISOString(),
+});
+
+const findTopicDeep = (topicId: string, topics: SyllabusTopic[]): SyllabusTopic | undefined => {
+  for (const topic of topics) {
+    if (topic.id === topicId) return topic;
+    const found = findTopicDeep(topicId, topic.topics || []);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+const flattenTopics = (topics: SyllabusTopic[], depth = 0): { topic: SyllabusTopic; depth: number }[] =>
+  topics.flatMap(topic => [{ topic, depth }, ...flattenTopics(topic.topics || [], depth + 1)]);
+
+// Every distinct question in the banks with its syllabus placement and tags
+const buildPaperCandidates = (banks: QuizBank[], syllabus: SyllabusPreset | null, metaMap: Record<string, QuestionMeta>): PaperCandidate[] => {
+  const seen = new Set<string>();
+  const candidates: PaperCandidate[] = [];
+  banks.forEach(bank => bank.questions.forEach(q => {
+    const id = String(q.id);
+    if (seen.has(id)) return;
+    seen.add(id);
+    const mapping = mapQuestionToSyllabus(q, syllabus, metaMap, { title: bank.title });
+    candidates.push({ question: q, bookId: mapping?.bookId ?? null, topicId: mapping?.topicId ?? null, tags: metaMap[id]?.tags || [] });
+  }));
+  return candidates;
+};
+
+const sectionMatches = (candidate: PaperCandidate, section: PaperSection, syllabus: SyllabusPreset | null): boolean => {
+  if (section.questionType !== 'any' && (candidate.question.type || 'single') !== section.questionType) return false;
+  if (section.bookId && candidate.bookId !== section.bookId) return false;
+  if (section.topicId) {
+    // A topic section also accepts questions placed in its sub-topics
+    const book = syllabus?.books.find(b => b.id === section.bookId);
+    const topic = book ? findTopicDeep(section.topicId, book.topics) : undefined;
+    const allowed = topic ? flattenTopics([topic]).map(t => t.topic.id) : [section.topicId];
+    if (!candidate.topicId || !allowed.includes(candidate.topicId)) return false;
+  }
+  if (section.tag && !candidate.tags.includes(section.tag)) return false;
+  return true;
+};
+
+const shuffleCopy = <T,>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+// Question ids answered in saved sessions or exams since the cutoff
+const collectRecentlySeenIds = (progressMap: StoredQuizProgressMap, exams: ExamRecord[], sinceMs: number): Set<string> => {
+  const ids = new Set<string>();
+  Object.values(progressMap).forEach(progress => {
+    if ((progress.updatedAt || 0) >= sinceMs) Object.keys(progress.answers || {}).forEach(id => ids.add(id));
+  });
+  exams.forEach(exam => {
+    if (Date.parse(exam.finishedAt) >= sinceMs) exam.questions.forEach(q => { if (q.answered) ids.add(q.id); });
+  });
+  return ids;
+};
+
+// Samples each section in order without repeating a question, preferring ones not seen recently
+const assemblePaper = (template: PaperTemplate, candidates: PaperCandidate[], syllabus: SyllabusPreset | null, recentIds: Set<string>): PaperAssembly => {
+  const used = new Set<string>();
+  const questions: QuizQuestion[] = [];
+  const pointsById: Record<string, number> = {};
+  const shortages: PaperAssembly['shortages'] = [];
+  let reusedRecent = 0;
+  template.sections.forEach((section, i) => {
+    const pool = candidates.filter(c => !used.has(String(c.question.id)) && sectionMatches(c, section, syllabus));
+    const fresh = shuffleCopy(pool.filter(c => !recentIds.has(String(c.question.id))));
+    const recent = shuffleCopy(pool.filter(c => recentIds.has(String(c.question.id))));
+    const picked = [...fresh, ...recent].slice(0, Math.max(0, section.count));
+    reusedRecent += Math.max(0, picked.length - fresh.length);
+    picked.forEach(c => {
+      used.add(String(c.question.id));
+      questions.push(c.question);
+      if (section.points) pointsById[String(c.question.id)] = section.points;
+    });
+    if (picked.length < section.count) {
+      shortages.push({ title: section.title || `第 ${i + 1} 部分`, wanted: section.count, got: picked.length });
+    }
+  });
+  return { questions, pointsById, shortages, reusedRecent };
+};
+
+// One section per syllabus book, splitting total in proportion to how many matching questions each book has
+const buildWeightedSections = (syllabus: SyllabusPreset, candidates: PaperCandidate[], total: number, questionType: PaperSection['questionType']): PaperSection[] => {
+  const weights = syllabus.books.map(book => candidates.filter(c => c.bookId === book.id && (questionType === 'any' || (c.question.type || 'single') === questionType)).length);
+  const counts = allocateProportionally(weights, total);
+  const typeLabel = questionType === 'any' ? '综合' : `${QUESTION_TYPE_LABELS[questionType]}题`;
+  return syllabus.books
+    .map((book, i) => ({ book, count: counts[i] }))
+    .filter(({ count }) => count > 0)
+    .map(({ book, count }) => createPaperSection({ title: `${book.title} · ${typeLabel}`, questionType, bookId: book.id, count }));
+};
+
 // --- Export Helper ---
 function exportQuizBankToJson(bank: QuizBank) {
   try {
-    const data = JSON.stringify(bank.questions, null, 2);
+    // An exported paper carries its section points on the questions themselves
+    const questions = bank.pointsById
+      ? bank.questions.map(q => bank.pointsById![String(q.id)] ? { ...q, points: bank.pointsById![String(q.id)] } : q)
+      : bank.questions;
+    const data = JSON.stringify(questions, null, 2);
     const blob = new Blob([data], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -927,148 +2002,1947 @@ function exportQuizBankToJson(bank: QuizBank) {
   }
 }
 
-// --- Persistence Helpers for Quiz Progress ---
-const buildBankSessionKey = (bankId: string) => `bank:${bankId}`;
-const buildBookSessionKey = (syllabusId: string, bookId: string) => `syllabus:${syllabusId}:book:${bookId}`;
-const buildTopicSessionKey = (syllabusId: string, bookId: string, topicId: string) => `syllabus:${syllabusId}:topic:${bookId}:${topicId}`;
-const buildSyllabusSessionKey = (syllabusId: string) => `syllabus:${syllabusId}:all`;
+// --- Workspace Backup Archive ---
+// A single versioned JSON file holding every collection, so a workspace can be moved to
+// another browser. Bump WORKSPACE_ARCHIVE_VERSION when the collections shape changes.
+const WORKSPACE_ARCHIVE_FORMAT = 'quiz-workspace-archive';
+const WORKSPACE_ARCHIVE_VERSION = 3;
+
+type WorkspaceArchiveCollections = {
+  history: QuizBank[];
+  mistakes: MistakeItem[];
+  trash: TrashItem[];
+  favorites: FavoriteItem[];
+  questionMeta: Record<string, QuestionMeta>;
+  tagPresets: TagPreset[];
+  syllabusPresets: SyllabusPreset[];
+  apiPresets: ApiConfigHistoryItem[];
+  progress: StoredQuizProgressMap;
+  paperTemplates: PaperTemplate[];
+  fallbackChain: string[]; // preset ids
+  // Logs and per-question state that live only in IndexedDB (see loadStoredLogs)
+  usage: UsageEntry[];
+  exams: ExamRecord[];
+  reviews: ReviewCard[];
+  attempts: AttemptEvent[];
+  revisions: QuestionRevision[];
+  revisionBatches: RevisionBatch[];
+};
 
-function loadAllProgress(): StoredQuizProgressMap {
-    try {
-      const raw = localStorage.getItem(QUIZ_PROGRESS_KEY);
-      if (!raw) return {};
-      const parsed = JSON.parse(raw);
-      if (!parsed || typeof parsed !== 'object') return {};
-      return parsed;
-    } catch (e) {
-      console.warn('Failed to load quiz progress', e);
-      return {};
-    }
-  }
-  
-  function saveAllProgress(map: StoredQuizProgressMap) {
-    try {
-      localStorage.setItem(QUIZ_PROGRESS_KEY, JSON.stringify(map));
-    } catch (e) {
-      console.warn('Failed to save quiz progress', e);
-    }
-  }
-  
-  function loadProgress(sessionKey: string): StoredQuizProgress | null {
-    const map = loadAllProgress();
-    return map[sessionKey] ?? null;
-  }
-  
-  function saveProgress(sessionKey: string, progress: StoredQuizProgress) {
-    const map = loadAllProgress();
-    map[sessionKey] = progress;
-    saveAllProgress(map);
-  }
-  
-  function clearProgress(sessionKey: string) {
-    const map = loadAllProgress();
-    delete map[sessionKey];
-    saveAllProgress(map);
-  }
+type WorkspaceArchive = {
+  format: typeof WORKSPACE_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  appVersion: string;
+  includesApiKeys: boolean;
+  collections: WorkspaceArchiveCollections;
+};
 
-// --- LLM Call Abstraction ---
-type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+type ArchiveCollectionName = keyof WorkspaceArchiveCollections;
+type ArchiveImportMode = 'merge' | 'replace';
+type ArchiveCollectionReport = { added: number; updated: number; conflicts: number; unchanged: number };
+type ArchiveImportReport = Record<ArchiveCollectionName, ArchiveCollectionReport>;
+
+const ARCHIVE_COLLECTION_LABELS: Record<ArchiveCollectionName, string> = {
+  history: '题库',
+  mistakes: '错题本',
+  trash: '垃圾篓',
+  favorites: '收藏',
+  questionMeta: '题目标签/归类',
+  tagPresets: '标签预设',
+  syllabusPresets: '大纲预设',
+  apiPresets: 'API 配置',
+  progress: '答题进度',
+  paperTemplates: '组卷模板',
+  fallbackChain: '备用 API 顺序',
+  usage: '用量记录',
+  exams: '考试记录',
+  reviews: '复习计划',
+  attempts: '答题记录',
+  revisions: '修改记录',
+  revisionBatches: '批量操作记录',
+};
 
-async function callLLM(
-  config: ApiConfig,
-  messages: ChatMessage[],
-  options?: { maxTokens?: number; temperature?: number }
-): Promise<string> {
-  const { protocol, baseUrl, model, apiKey, customPath } = config;
+function buildWorkspaceArchive(collections: WorkspaceArchiveCollections, includeApiKeys: boolean): WorkspaceArchive {
+  return {
+    format: WORKSPACE_ARCHIVE_FORMAT,
+    version: WORKSPACE_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    appVersion: APP_VERSION,
+    includesApiKeys: includeApiKeys,
+    collections: {
+      ...collections,
+      apiPresets: includeApiKeys
+        ? collections.apiPresets
+        : collections.apiPresets.map(({ apiKey, ...rest }) => rest),
+    },
+  };
+}
+
+function downloadWorkspaceArchive(archive: WorkspaceArchive) {
+  const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `刷题工作区备份_${archive.exportedAt.split('T')[0]}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
 
-  if (!apiKey || !baseUrl || !model) {
-    throw new Error('请先在配置中填写完整的 Base URL、模型名称和 API Key。');
+// Validates the archive envelope and fills missing collections with empty values so
+// archives from older versions (with fewer collections) still import.
+function parseWorkspaceArchive(text: string): WorkspaceArchive {
+  const parsed = tryJsonParse(text);
+  if (!parsed || typeof parsed !== 'object' || parsed.format !== WORKSPACE_ARCHIVE_FORMAT) {
+    throw new Error('不是有效的工作区备份文件');
   }
+  if (typeof parsed.version !== 'number' || parsed.version > WORKSPACE_ARCHIVE_VERSION) {
+    throw new Error(`备份文件版本 (${parsed.version}) 高于当前应用支持的版本，请先升级应用`);
+  }
+  const c = parsed.collections || {};
+  const asArray = (v: any) => (Array.isArray(v) ? v : []);
+  const asRecord = (v: any) => (v && typeof v === 'object' && !Array.isArray(v) ? v : {});
+  return {
+    format: WORKSPACE_ARCHIVE_FORMAT,
+    version: parsed.version,
+    exportedAt: String(parsed.exportedAt || ''),
+    appVersion: String(parsed.appVersion || ''),
+    includesApiKeys: !!parsed.includesApiKeys,
+    collections: {
+      history: asArray(c.history),
+      mistakes: asArray(c.mistakes),
+      trash: asArray(c.trash),
+      favorites: asArray(c.favorites),
+      questionMeta: asRecord(c.questionMeta),
+      tagPresets: asArray(c.tagPresets),
+      syllabusPresets: asArray(c.syllabusPresets),
+      apiPresets: asArray(c.apiPresets),
+      progress: asRecord(c.progress),
+      paperTemplates: asArray(c.paperTemplates),
+      fallbackChain: asArray(c.fallbackChain).map(String),
+      usage: asArray(c.usage),
+      exams: asArray(c.exams),
+      reviews: asArray(c.reviews),
+      attempts: asArray(c.attempts),
+      revisions: asArray(c.revisions),
+      revisionBatches: asArray(c.revisionBatches),
+    },
+  };
+}
 
-  if (protocol === 'openai-compatible') {
-    const path = customPath || '/v1/chat/completions';
-    const url = baseUrl.replace(/\/+$/, '') + path;
+// Merges `incoming` into `local` by id. Local items come first and keep their order.
+// On conflicting content the local copy wins unless `preferIncoming` says otherwise.
+function mergeCollectionById<T>(
+  local: T[],
+  incoming: T[],
+  keyOf: (item: T) => string,
+  preferIncoming?: (localItem: T, incomingItem: T) => boolean
+): { merged: T[]; report: ArchiveCollectionReport } {
+  const report: ArchiveCollectionReport = { added: 0, updated: 0, conflicts: 0, unchanged: 0 };
+  const incomingById = new Map<string, T>();
+  incoming.forEach(item => incomingById.set(keyOf(item), item));
+
+  const merged: T[] = local.map(item => {
+    const key = keyOf(item);
+    const other = incomingById.get(key);
+    if (other === undefined) return item;
+    incomingById.delete(key);
+    if (JSON.stringify(other) === JSON.stringify(item)) {
+      report.unchanged++;
+      return item;
+    }
+    if (preferIncoming?.(item, other)) {
+      report.updated++;
+      return other;
+    }
+    report.conflicts++;
+    return item;
+  });
+  incomingById.forEach(item => {
+    merged.push(item);
+    report.added++;
+  });
+  return { merged, report };
+}
 
-    const body: any = {
-      model,
-      messages: messages.map(m => ({ role: m.role, content: m.content })),
+function mergeRecordByKey<T>(
+  local: Record<string, T>,
+  incoming: Record<string, T>,
+  preferIncoming?: (localItem: T, incomingItem: T) => boolean
+): { merged: Record<string, T>; report: ArchiveCollectionReport } {
+  const { merged, report } = mergeCollectionById(
+    Object.entries(local),
+    Object.entries(incoming),
+    ([key]) => key,
+    preferIncoming ? ([, a], [, b]) => preferIncoming(a, b) : undefined
+  );
+  return { merged: Object.fromEntries(merged), report };
+}
+
+// Archives exported without API keys must not blank the keys of presets that exist locally
+function keepLocalApiKeys(local: ApiConfigHistoryItem[], incoming: ApiConfigHistoryItem[]): ApiConfigHistoryItem[] {
+  const localById = new Map(local.map(p => [p.id, p]));
+  return incoming.map(p => {
+    const localKey = localById.get(p.id)?.apiKey;
+    return !p.apiKey && localKey ? { ...p, apiKey: localKey } : p;
+  });
+}
+
+function mergeWorkspaceArchive(
+  local: WorkspaceArchiveCollections,
+  incoming: WorkspaceArchiveCollections,
+  mode: ArchiveImportMode,
+  incomingHasApiKeys: boolean
+): { collections: WorkspaceArchiveCollections; report: ArchiveImportReport } {
+  if (!incomingHasApiKeys) {
+    incoming = { ...incoming, apiPresets: keepLocalApiKeys(local.apiPresets, incoming.apiPresets) };
+  }
+  if (mode === 'replace') {
+    const countOf = (v: unknown[] | Record<string, unknown>) => (Array.isArray(v) ? v.length : Object.keys(v).length);
+    const report = Object.fromEntries(
+      (Object.keys(incoming) as ArchiveCollectionName[]).map(name => [
+        name,
+        { added: countOf(incoming[name]), updated: 0, conflicts: 0, unchanged: 0 },
+      ])
+    ) as ArchiveImportReport;
+    return { collections: incoming, report };
+  }
+
+  const byId = <T extends { id: string | number }>(item: T) => String(item.id);
+  const history = mergeCollectionById(local.history, incoming.history, byId);
+  const mistakes = mergeCollectionById(local.mistakes, incoming.mistakes, byId);
+  const trash = mergeCollectionById(local.trash, incoming.trash, byId);
+  const favorites = mergeCollectionById(local.favorites, incoming.favorites, byId);
+  const questionMeta = mergeRecordByKey(local.questionMeta, incoming.questionMeta);
+  const tagPresets = mergeCollectionById(local.tagPresets, incoming.tagPresets, byId);
+  const syllabusPresets = mergeCollectionById(local.syllabusPresets, incoming.syllabusPresets, byId);
+  const apiPresets = mergeCollectionById(local.apiPresets, incoming.apiPresets, byId);
+  // Progress is the one collection where "newer" is well defined
+  const progress = mergeRecordByKey(local.progress, incoming.progress, (a, b) => (b.updatedAt || 0) > (a.updatedAt || 0));
+  const paperTemplates = mergeCollectionById(local.paperTemplates, incoming.paperTemplates, byId, (a, b) => b.updatedAt > a.updatedAt);
+  const fallbackChain = mergeCollectionById(local.fallbackChain, incoming.fallbackChain, id => id);
+  const usage = mergeCollectionById(local.usage, incoming.usage, byId);
+  const exams = mergeCollectionById(local.exams, incoming.exams, byId);
+  const reviews = mergeCollectionById(local.reviews, incoming.reviews, byId, (a, b) => b.lastReviewedAt > a.lastReviewedAt);
+  const attempts = mergeCollectionById(local.attempts, incoming.attempts, byId);
+  const revisions = mergeCollectionById(local.revisions, incoming.revisions, byId);
+  const revisionBatches = mergeCollectionById(local.revisionBatches, incoming.revisionBatches, byId, (a, b) => !!b.revertedAt && !a.revertedAt);
+  const presetIds = new Set(apiPresets.merged.map(p => p.id));
+
+  return {
+    collections: {
+      history: history.merged,
+      mistakes: mistakes.merged,
+      trash: trash.merged,
+      favorites: favorites.merged,
+      questionMeta: questionMeta.merged,
+      tagPresets: tagPresets.merged,
+      syllabusPresets: syllabusPresets.merged,
+      apiPresets: apiPresets.merged,
+      progress: progress.merged,
+      paperTemplates: paperTemplates.merged,
+      fallbackChain: fallbackChain.merged.filter(id => presetIds.has(id)),
+      usage: usage.merged,
+      exams: exams.merged,
+      reviews: reviews.merged,
+      attempts: attempts.merged,
+      revisions: revisions.merged,
+      revisionBatches: revisionBatches.merged,
+    },
+    report: {
+      history: history.report,
+      mistakes: mistakes.report,
+      trash: trash.report,
+      favorites: favorites.report,
+      questionMeta: questionMeta.report,
+      tagPresets: tagPresets.report,
+      syllabusPresets: syllabusPresets.report,
+      apiPresets: apiPresets.report,
+      progress: progress.report,
+      paperTemplates: paperTemplates.report,
+      fallbackChain: fallbackChain.report,
+      usage: usage.report,
+      exams: exams.report,
+      reviews: reviews.report,
+      attempts: attempts.report,
+      revisions: revisions.report,
+      revisionBatches: revisionBatches.report,
+    },
+  };
+}
+
+// --- Session Keys for Quiz Progress ---
+const buildBankSessionKey = (bankId: string) => `bank:${bankId}`;
+const buildBookSessionKey = (syllabusId: string, bookId: string) => `syllabus:${syllabusId}:book:${bookId}`;
+const buildTopicSessionKey = (syllabusId: string, bookId: string, topicId: string) => `syllabus:${syllabusId}:topic:${bookId}:${topicId}`;
+const buildSyllabusSessionKey = (syllabusId: string) => `syllabus:${syllabusId}:all`;
+
+// --- IndexedDB Storage Layer ---
+// Collections (banks, mistakes, favorites, progress, chat sessions...) are stored one record
+// per row in IndexedDB so a large history no longer has to fit into the ~5MB localStorage
+// quota. Small preferences (theme, title, API config, quiz settings) stay in localStorage
+// because they are read synchronously during the first render.
+const APP_DB_NAME = 'quizAppDb';
+const APP_DB_VERSION = 6;
+
+type AppStoreName = 'banks' | 'mistakes' | 'trash' | 'favorites' | 'questionMeta' | 'progress' | 'chatSessions' | 'kv' | 'usage' | 'exams' | 'reviews' | 'attempts' | 'revisions' | 'revisionBatches';
+
+// Keys inside the 'kv' store
+const KV_TAG_PRESETS = 'tagPresets';
+const KV_SYLLABUS_PRESETS = 'syllabusPresets';
+const KV_API_PRESETS = 'apiPresets';
+const KV_FALLBACK_CHAIN = 'apiFallbackChain';
+const KV_PAPER_TEMPLATES = 'paperTemplates';
+const collectionOrderKey = (store: AppStoreName) => `order:${store}`;
+
+// One-time import of the pre-IndexedDB localStorage data. Runs inside the v1 upgrade
+// transaction; the legacy keys are only removed once that transaction has committed.
+function importLegacyLocalStorage(tx: IDBTransaction) {
+  const readJson = (key: string): any => {
+    try {
+      const raw = localStorage.getItem(key);
+      return raw ? JSON.parse(raw) : null;
+    } catch { return null; }
+  };
+  const kv = tx.objectStore('kv');
+
+  const importList = (store: AppStoreName, key: string, keyOf: (item: any) => string) => {
+    const list = readJson(key);
+    if (!Array.isArray(list)) return;
+    const os = tx.objectStore(store);
+    const order: string[] = [];
+    list.forEach(item => {
+      if (!item) return;
+      const id = keyOf(item);
+      os.put(item, id);
+      order.push(id);
+    });
+    kv.put(order, collectionOrderKey(store));
+  };
+  const importMap = (store: AppStoreName, key: string) => {
+    const map = readJson(key);
+    if (!map || typeof map !== 'object') return;
+    const os = tx.objectStore(store);
+    Object.entries(map).forEach(([id, value]) => { if (value) os.put(value, id); });
+  };
+  const importValue = (kvKey: string, key: string) => {
+    const value = readJson(key);
+    if (Array.isArray(value)) kv.put(value, kvKey);
+  };
+
+  importList('banks', QUIZ_HISTORY_KEY, b => String(b.id));
+  importList('mistakes', MISTAKE_KEY, m => String(m.id));
+  importList('trash', MISTAKE_TRASH_KEY, m => String(m.id));
+  importList('favorites', FAVORITES_KEY, f => String(f.id));
+  importList('chatSessions', CHAT_SESSIONS_KEY, c => String(c.id));
+  importMap('questionMeta', QUESTION_META_KEY);
+  importMap('progress', QUIZ_PROGRESS_KEY);
+  importValue(KV_TAG_PRESETS, TAG_PRESETS_KEY);
+  importValue(KV_SYLLABUS_PRESETS, SYLLABUS_PRESETS_KEY);
+  importValue(KV_API_PRESETS, API_HISTORY_KEY);
+
+  tx.addEventListener('complete', () => {
+    [QUIZ_HISTORY_KEY, MISTAKE_KEY, MISTAKE_TRASH_KEY, FAVORITES_KEY, CHAT_SESSIONS_KEY, QUESTION_META_KEY,
+     QUIZ_PROGRESS_KEY, TAG_PRESETS_KEY, SYLLABUS_PRESETS_KEY, API_HISTORY_KEY].forEach(key => localStorage.removeItem(key));
+    console.info('Legacy localStorage data imported into IndexedDB.');
+  });
+}
+
+// Schema migrations keyed by the version they upgrade TO. They run in order inside the
+// versionchange transaction, so a failing step aborts the whole upgrade.
+const APP_DB_MIGRATIONS: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db, tx) => {
+    const stores: AppStoreName[] = ['banks', 'mistakes', 'trash', 'favorites', 'questionMeta', 'progress', 'chatSessions', 'kv'];
+    stores.forEach(name => db.createObjectStore(name));
+    importLegacyLocalStorage(tx);
+  },
+  // One record per LLM call, for token / cost accounting
+  2: (db) => {
+    db.createObjectStore('usage');
+  },
+  // Finished mock exams, keyed by record id
+  3: (db) => {
+    db.createObjectStore('exams');
+  },
+  // Spaced-repetition state, keyed by question id
+  4: (db) => {
+    db.createObjectStore('reviews');
+  },
+  // Append-only answer log; keys start with the zero-padded timestamp so they sort by time
+  5: (db) => {
+    db.createObjectStore('attempts');
+  },
+  // Question revision log, plus the bulk operations that can be undone as a whole
+  6: (db) => {
+    db.createObjectStore('revisions');
+    db.createObjectStore('revisionBatches');
+  },
+};
+
+let appDbPromise: Promise<IDBDatabase> | null = null;
+
+function openAppDb(): Promise<IDBDatabase> {
+  if (appDbPromise) return appDbPromise;
+  appDbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('当前浏览器不支持 IndexedDB'));
+      return;
+    }
+    const req = indexedDB.open(APP_DB_NAME, APP_DB_VERSION);
+    req.onupgradeneeded = (event) => {
+      const db = req.result;
+      const tx = req.transaction!;
+      for (let v = event.oldVersion + 1; v <= APP_DB_VERSION; v++) {
+        APP_DB_MIGRATIONS[v]?.(db, tx);
+      }
     };
-    if (options?.maxTokens) body.max_tokens = options.maxTokens;
-    if (options?.temperature !== undefined) body.temperature = options.temperature;
+    req.onsuccess = () => {
+      const db = req.result;
+      // Another tab is upgrading the schema; let it proceed.
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    req.onerror = () => reject(req.error);
+    req.onblocked = () => console.warn('IndexedDB upgrade blocked by another open tab');
+  });
+  appDbPromise.catch(() => { appDbPromise = null; });
+  return appDbPromise;
+}
+
+const requestToPromise = <T,>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+async function idbGet<T>(store: AppStoreName, key: string): Promise<T | undefined> {
+  const db = await openAppDb();
+  return requestToPromise(db.transaction(store, 'readonly').objectStore(store).get(key)) as Promise<T | undefined>;
+}
+
+async function idbGetAllEntries<T>(store: AppStoreName): Promise<[string, T][]> {
+  const db = await openAppDb();
+  const os = db.transaction(store, 'readonly').objectStore(store);
+  const [keys, values] = await Promise.all([requestToPromise(os.getAllKeys()), requestToPromise(os.getAll())]);
+  return keys.map((k, i) => [String(k), values[i] as T]);
+}
+
+async function idbGetAllValues<T>(store: AppStoreName, range?: IDBKeyRange): Promise<T[]> {
+  const db = await openAppDb();
+  return requestToPromise(db.transaction(store, 'readonly').objectStore(store).getAll(range)) as Promise<T[]>;
+}
+
+async function idbPut(store: AppStoreName, key: string, value: unknown): Promise<void> {
+  const db = await openAppDb();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).put(value, key);
+  return transactionDone(tx);
+}
 
+async function idbDelete(store: AppStoreName, key: string): Promise<void> {
+  const db = await openAppDb();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).delete(key);
+  return transactionDone(tx);
+}
+
+// Writes only the records that changed, plus the id order when it changed, in one transaction.
+async function idbWriteCollectionChanges(store: AppStoreName, puts: [string, unknown][], deletes: string[], order: string[] | null): Promise<void> {
+  const db = await openAppDb();
+  const tx = db.transaction(order ? [store, 'kv'] : [store], 'readwrite');
+  const os = tx.objectStore(store);
+  puts.forEach(([key, value]) => os.put(value, key));
+  deletes.forEach(key => os.delete(key));
+  if (order) tx.objectStore('kv').put(order, collectionOrderKey(store));
+  return transactionDone(tx);
+}
+
+async function loadOrderedCollection<T>(store: AppStoreName): Promise<T[]> {
+  const [entries, order] = await Promise.all([
+    idbGetAllEntries<T>(store),
+    idbGet<string[]>('kv', collectionOrderKey(store)),
+  ]);
+  const rank = new Map((order || []).map((id, i) => [id, i]));
+  return entries
+    .sort((a, b) => (rank.get(a[0]) ?? Number.MAX_SAFE_INTEGER) - (rank.get(b[0]) ?? Number.MAX_SAFE_INTEGER))
+    .map(([, value]) => value);
+}
+
+type StoredWorkspace = {
+  history: QuizBank[];
+  mistakes: MistakeItem[];
+  mistakeTrash: TrashItem[];
+  favorites: FavoriteItem[];
+  questionMetaMap: Record<string, QuestionMeta>;
+  chatSessions: ChatSession[];
+  tagPresets: TagPreset[] | null;
+  syllabusPresets: SyllabusPreset[];
+  apiPresets: ApiConfigHistoryItem[];
+  fallbackChain: string[];
+  paperTemplates: PaperTemplate[];
+};
+
+async function loadWorkspaceFromDb(): Promise<StoredWorkspace> {
+  const [history, mistakes, mistakeTrash, favorites, metaEntries, chatSessions, tagPresets, syllabusPresets, apiPresets, fallbackChain, paperTemplates] = await Promise.all([
+    loadOrderedCollection<QuizBank>('banks'),
+    loadOrderedCollection<MistakeItem>('mistakes'),
+    loadOrderedCollection<TrashItem>('trash'),
+    loadOrderedCollection<FavoriteItem>('favorites'),
+    idbGetAllEntries<QuestionMeta>('questionMeta'),
+    loadOrderedCollection<any>('chatSessions'),
+    idbGet<TagPreset[]>('kv', KV_TAG_PRESETS),
+    idbGet<SyllabusPreset[]>('kv', KV_SYLLABUS_PRESETS),
+    idbGet<ApiConfigHistoryItem[]>('kv', KV_API_PRESETS),
+    idbGet<string[]>('kv', KV_FALLBACK_CHAIN),
+    idbGet<PaperTemplate[]>('kv', KV_PAPER_TEMPLATES),
+  ]);
+  return {
+    history,
+    mistakes,
+    mistakeTrash,
+    favorites,
+    questionMetaMap: Object.fromEntries(metaEntries),
+    // Sessions imported from localStorage carry ISO strings instead of Date objects
+    chatSessions: chatSessions.map(session => ({
+      ...session,
+      createdAt: new Date(session.createdAt),
+      updatedAt: new Date(session.updatedAt)
+    })),
+    tagPresets: Array.isArray(tagPresets) ? tagPresets : null,
+    syllabusPresets: Array.isArray(syllabusPresets) ? syllabusPresets : [],
+    apiPresets: Array.isArray(apiPresets) ? apiPresets : [],
+    fallbackChain: Array.isArray(fallbackChain) ? fallbackChain : [],
+    paperTemplates: Array.isArray(paperTemplates) ? paperTemplates : [],
+  };
+}
+
+// Stores whose records are keyed by their own id and which the app reads on demand
+// instead of keeping in state; the archive carries them as plain arrays.
+type StoredLogs = Pick<WorkspaceArchiveCollections, 'usage' | 'exams' | 'reviews' | 'attempts' | 'revisions' | 'revisionBatches'>;
+const LOG_STORES: (keyof StoredLogs & AppStoreName)[] = ['usage', 'exams', 'reviews', 'attempts', 'revisions', 'revisionBatches'];
+
+async function loadStoredLogs(): Promise<StoredLogs> {
+  const lists = await Promise.all(LOG_STORES.map(store => idbGetAllValues<any>(store)));
+  return Object.fromEntries(LOG_STORES.map((store, i) => [store, lists[i]])) as StoredLogs;
+}
+
+async function replaceStoredLogs(logs: StoredLogs): Promise<void> {
+  const db = await openAppDb();
+  const tx = db.transaction(LOG_STORES, 'readwrite');
+  LOG_STORES.forEach(store => {
+    const os = tx.objectStore(store);
+    os.clear();
+    (logs[store] as { id: string }[]).forEach(record => os.put(record, String(record.id)));
+  });
+  return transactionDone(tx);
+}
+
+// Mirrors a state array into an object store. Only records whose object identity changed
+// since the last sync are written, so answering one question doesn't rewrite every bank.
+// The first sync after `ready` just records the loaded snapshot.
+function useIdbCollectionSync<T>(store: AppStoreName, items: T[], keyOf: (item: T) => string, ready: boolean) {
+  const snapshotRef = useRef<Map<string, T> | null>(null);
+  const orderRef = useRef<string>('');
+
+  useEffect(() => {
+    if (!ready) return;
+    const keys = items.map(keyOf);
+    const orderSignature = keys.join('\u0000');
+    const next = new Map<string, T>();
+    items.forEach((item, i) => next.set(keys[i], item));
+
+    const prev: Map<string, T> | null = snapshotRef.current;
+    snapshotRef.current = next;
+    const orderChanged = orderSignature !== orderRef.current;
+    orderRef.current = orderSignature;
+    if (!prev) return;
+
+    const puts: [string, T][] = [];
+    next.forEach((item, key) => { if (prev.get(key) !== item) puts.push([key, item]); });
+    const deletes = Array.from(prev.keys()).filter(key => !next.has(key));
+    if (puts.length === 0 && deletes.length === 0 && !orderChanged) return;
+
+    idbWriteCollectionChanges(store, puts, deletes, orderChanged ? Array.from(next.keys()) : null)
+      .catch(e => console.warn(`Failed to persist ${store}`, e));
+  }, [store, items, ready]);
+}
+
+// --- Persistence Helpers for Quiz Progress ---
+async function loadAllProgress(): Promise<StoredQuizProgressMap> {
+  try {
+    const entries = await idbGetAllEntries<StoredQuizProgress>('progress');
+    return Object.fromEntries(entries);
+  } catch (e) {
+    console.warn('Failed to load quiz progress', e);
+    return {};
+  }
+}
+
+async function loadProgress(sessionKey: string): Promise<StoredQuizProgress | null> {
+  try {
+    return (await idbGet<StoredQuizProgress>('progress', sessionKey)) ?? null;
+  } catch (e) {
+    console.warn('Failed to load quiz progress', e);
+    return null;
+  }
+}
+
+function saveProgress(sessionKey: string, progress: StoredQuizProgress) {
+  idbPut('progress', sessionKey, progress).catch(e => console.warn('Failed to save quiz progress', e));
+}
+
+// The session without its answer to one question, with the stats counters recounted
+const dropStoredAnswer = (progress: StoredQuizProgress, questionId: string): StoredQuizProgress => {
+  const answers = { ...progress.answers };
+  delete answers[questionId];
+  const counted = progress.questionIds.filter(id => answers[id]);
+  return { ...progress, answers, answeredCount: counted.length, correctCount: counted.filter(id => answers[id].isCorrect).length };
+};
+
+function clearProgress(sessionKey: string) {
+  idbDelete('progress', sessionKey).catch(e => console.warn('Failed to clear quiz progress', e));
+}
+
+// Used by the workspace archive import; replaces every stored session in one transaction.
+async function replaceAllProgress(progressMap: StoredQuizProgressMap): Promise<void> {
+  const db = await openAppDb();
+  const tx = db.transaction('progress', 'readwrite');
+  const os = tx.objectStore('progress');
+  os.clear();
+  Object.entries(progressMap).forEach(([key, value]) => os.put(value, key));
+  return transactionDone(tx);
+}
+
+// --- Exam Records ---
+const EXAM_WARNING_SECONDS = 5 * 60;
+
+function saveExamRecord(record: ExamRecord) {
+  idbPut('exams', record.id, record).catch(e => console.warn('Failed to save exam record', e));
+}
+
+async function loadExamRecords(): Promise<ExamRecord[]> {
+  try {
+    const entries = await idbGetAllEntries<ExamRecord>('exams');
+    return entries.map(([, record]) => record).sort((a, b) => b.finishedAt.localeCompare(a.finishedAt));
+  } catch (e) {
+    console.warn('Failed to load exam records', e);
+    return [];
+  }
+}
+
+function buildExamRecord(args: {
+  sessionKey: string;
+  title: string;
+  startedAt: number;
+  durationSeconds: number;
+  timedOut: boolean;
+  scoringScheme: ScoringScheme;
+  weightedPoints: boolean;
+  pointsById?: Record<string, number>;
+  questions: QuizQuestion[];
+  answers: Record<string, StoredQuizAnswer>;
+  questionTimes: Record<string, number>;
+}): ExamRecord {
+  const finishedAt = Date.now();
+  const questions = args.questions.map(q => {
+    const answer = args.answers[q.id];
+    return {
+      id: String(q.id),
+      stem: q.stem,
+      seconds: args.questionTimes[q.id] || 0,
+      answered: !!answer,
+      isCorrect: !!answer?.isCorrect,
+      score: answerPoints(q, answer, args.weightedPoints, args.pointsById),
+      maxScore: questionPoints(q, args.weightedPoints, args.pointsById),
+    };
+  });
+  return {
+    id: `exam-${finishedAt}`,
+    sessionKey: args.sessionKey,
+    title: args.title,
+    startedAt: new Date(args.startedAt).toISOString(),
+    finishedAt: new Date(finishedAt).toISOString(),
+    durationSeconds: args.durationSeconds,
+    usedSeconds: Math.min(args.durationSeconds, Math.round((finishedAt - args.startedAt) / 1000)),
+    timedOut: args.timedOut,
+    scoringScheme: args.scoringScheme,
+    earnedPoints: roundPoints(questions.reduce((sum, q) => sum + q.score, 0)),
+    totalPoints: roundPoints(questions.reduce((sum, q) => sum + q.maxScore, 0)),
+    questions,
+  };
+}
+
+// --- Spaced Repetition ---
+// SM-2 scheduling per question. Every committed answer updates the question's card; the
+// daily review queue is built from mistakes, favorites and weak questions whose card is due.
+type ReviewCard = {
+  id: string;
+  ease: number;
+  interval: number; // days
+  repetitions: number;
+  // Consecutive correct answers; a mistake leaves the book once this reaches REVIEW_GRADUATE_STREAK
+  streak: number;
+  lapses: number;
+  reviews: number;
+  correct: number;
+  due: string; // local day, YYYY-MM-DD
+  lastReviewedAt: string;
+};
+
+type ReviewReason = 'mistake' | 'favorite' | 'weak';
+
+type ReviewQueueItem = {
+  question: QuizQuestion;
+  reason: ReviewReason;
+  card?: ReviewCard;
+};
+
+const REVIEW_DEFAULT_EASE = 2.5;
+const REVIEW_MIN_EASE = 1.3;
+const REVIEW_GRADUATE_STREAK = 3;
+const REVIEW_DAILY_LIMIT = 50;
+// A question counts as weak after this many answers below this accuracy
+const REVIEW_WEAK_MIN_ANSWERS = 3;
+const REVIEW_WEAK_ACCURACY = 0.6;
+
+const REVIEW_REASON_LABELS: Record<ReviewReason, string> = { mistake: '错题', favorite: '收藏', weak: '低正确率' };
+
+// SM-2 quality grade (0-5) for an answer; partial credit counts as a failed recall
+const answerQuality = (answer: StoredQuizAnswer): number => {
+  if (answer.isCorrect) return 4;
+  return isPartialAnswer(answer) ? 2 : 1;
+};
+
+const scheduleReview = (card: ReviewCard | undefined, id: string, quality: number, now: number): ReviewCard => {
+  const prev: ReviewCard = card ?? { id, ease: REVIEW_DEFAULT_EASE, interval: 0, repetitions: 0, streak: 0, lapses: 0, reviews: 0, correct: 0, due: toLocalDay(now), lastReviewedAt: '' };
+  const passed = quality >= 3;
+  const ease = Math.max(REVIEW_MIN_EASE, prev.ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  const repetitions = passed ? prev.repetitions + 1 : 0;
+  const interval = !passed ? 1 : repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(prev.interval * ease);
+  return {
+    ...prev,
+    ease: roundPoints(ease),
+    interval,
+    repetitions,
+    streak: passed ? prev.streak + 1 : 0,
+    lapses: passed ? prev.lapses : prev.lapses + 1,
+    reviews: prev.reviews + 1,
+    correct: prev.correct + (passed ? 1 : 0),
+    due: toLocalDay(now + interval * 24 * 3600 * 1000),
+    lastReviewedAt: new Date(now).toISOString(),
+  };
+};
+
+const isWeakCard = (card: ReviewCard) =>
+  card.reviews >= REVIEW_WEAK_MIN_ANSWERS && card.correct / card.reviews < REVIEW_WEAK_ACCURACY;
+
+function saveReviewCard(card: ReviewCard) {
+  idbPut('reviews', card.id, card).catch(e => console.warn('Failed to save review card', e));
+}
+
+async function loadReviewCards(): Promise<Record<string, ReviewCard>> {
+  try {
+    const entries = await idbGetAllEntries<ReviewCard>('reviews');
+    return Object.fromEntries(entries);
+  } catch (e) {
+    console.warn('Failed to load review cards', e);
+    return {};
+  }
+}
+
+// Due items for today, most overdue first. Questions without a card yet are due immediately.
+const buildReviewQueue = (
+  cards: Record<string, ReviewCard>,
+  mistakes: MistakeItem[],
+  favorites: FavoriteItem[],
+  banks: QuizBank[],
+  today: string
+): ReviewQueueItem[] => {
+  const items = new Map<string, ReviewQueueItem>();
+  const add = (question: QuizQuestion, reason: ReviewReason) => {
+    const id = String(question.id);
+    if (!items.has(id)) items.set(id, { question, reason, card: cards[id] });
+  };
+  mistakes.forEach(m => add(m.question, 'mistake'));
+  favorites.forEach(f => add(f.question, 'favorite'));
+  const weakIds = new Set(Object.values(cards).filter(isWeakCard).map(c => c.id));
+  if (weakIds.size > 0) {
+    banks.forEach(bank => bank.questions.forEach(q => { if (weakIds.has(String(q.id))) add(q, 'weak'); }));
+  }
+  return Array.from(items.values())
+    .filter(item => !item.card || item.card.due <= today)
+    .sort((a, b) => (a.card?.due || today).localeCompare(b.card?.due || today))
+    .slice(0, REVIEW_DAILY_LIMIT);
+};
+
+// --- Attempt Log ---
+// Every committed answer is stored as an immutable event, independent of the resumable
+// session progress (which only keeps the latest answer and is wiped by clearProgress).
+type AttemptEvent = {
+  id: string;
+  questionId: string;
+  sessionKey: string;
+  questionType: QuestionType;
+  selected: string[];
+  isCorrect: boolean;
+  score?: number;
+  maxScore?: number;
+  seconds: number; // time spent on the question in this session so far
+  at: number; // ms timestamp
+  mode: string; // quizSettings.mode at answer time
+};
+
+type AttemptQuery = {
+  questionId?: string;
+  bankId?: string;
+  bookId?: string;
+  topicId?: string;
+  tag?: string;
+  from?: number; // inclusive, ms
+  to?: number; // exclusive, ms
+};
+
+// What bank / book / topic / tag filters are resolved against
+type AttemptScope = {
+  banks: QuizBank[];
+  syllabus: SyllabusPreset | null;
+  metaMap: Record<string, QuestionMeta>;
+};
+
+const attemptKeyPrefix = (ms: number) => String(Math.max(0, Math.floor(ms))).padStart(15, '0');
+
+function recordAttempt(event: Omit<AttemptEvent, 'id'>): Promise<void> {
+  const id = `${attemptKeyPrefix(event.at)}-${Math.random().toString(36).slice(2, 8)}`;
+  return idbPut('attempts', id, { ...event, id }).catch(e => console.warn('Failed to record attempt', e));
+}
+
+// Answer counts per question, read from the attempt log
+type AttemptTally = Record<string, { attempts: number; correct: number }>;
+
+// Attempts before a question's reset time (its latest AI rewrite) describe the old version and are skipped
+const tallyAttempts = (attempts: AttemptEvent[], resetAt: Record<string, number> = {}): AttemptTally => {
+  const tally: AttemptTally = {};
+  attempts.forEach(a => {
+    if (a.at < (resetAt[a.questionId] ?? 0)) return;
+    const entry = tally[a.questionId] ?? (tally[a.questionId] = { attempts: 0, correct: 0 });
+    entry.attempts += 1;
+    entry.correct += a.isCorrect ? 1 : 0;
+  });
+  return tally;
+};
+
+const rewriteResetTimes = (revisions: QuestionRevision[]): Record<string, number> => {
+  const resetAt: Record<string, number> = {};
+  revisions.forEach(r => {
+    if (r.source === 'rewrite') resetAt[r.questionId] = Math.max(resetAt[r.questionId] ?? 0, Date.parse(r.at));
+  });
+  return resetAt;
+};
+
+async function loadAttemptTally(): Promise<AttemptTally> {
+  try {
+    const [attempts, revisions] = await Promise.all([idbGetAllValues<AttemptEvent>('attempts'), loadRevisions()]);
+    return tallyAttempts(attempts, rewriteResetTimes(revisions));
+  } catch (e) {
+    console.warn('Failed to load attempt counts', e);
+    return {};
+  }
+}
+
+// Question ids passing the bank / book / topic / tag filters, or null when none is set
+const resolveAttemptQuestionIds = (query: AttemptQuery, scope: AttemptScope): Set<string> | null => {
+  if (!query.bankId && !query.bookId && !query.topicId && !query.tag) return null;
+  const banks = query.bankId ? scope.banks.filter(b => b.id === query.bankId) : scope.banks;
+  const filter: PaperSection = { id: 'attempt-query', title: '', questionType: 'any', count: 0, bookId: query.bookId, topicId: query.topicId, tag: query.tag };
+  return new Set(
+    buildPaperCandidates(banks, scope.syllabus, scope.metaMap)
+      .filter(c => sectionMatches(c, filter, scope.syllabus))
+      .map(c => String(c.question.id))
+  );
+};
+
+// Attempts in chronological order. The date range is served by the key range; the other
+// filters are applied in memory.
+async function queryAttempts(query: AttemptQuery, scope: AttemptScope): Promise<AttemptEvent[]> {
+  try {
+    const range = query.from !== undefined || query.to !== undefined
+      ? IDBKeyRange.bound(attemptKeyPrefix(query.from ?? 0), attemptKeyPrefix(query.to ?? Number.MAX_SAFE_INTEGER), false, true)
+      : undefined;
+    const attempts = await idbGetAllValues<AttemptEvent>('attempts', range);
+    const ids = resolveAttemptQuestionIds(query, scope);
+    return attempts.filter(a => (!query.questionId || a.questionId === query.questionId) && (!ids || ids.has(a.questionId)));
+  } catch (e) {
+    console.warn('Failed to query attempts', e);
+    return [];
+  }
+}
+
+// --- Question Revisions ---
+// Every change to a question keeps a full snapshot of the previous version. Bulk operations
+// (e.g. merging banks, which rewrites question ids) also record a batch that undoes them as a whole.
+type RevisionSource = 'edit' | 'merge' | 'revert' | 'verify' | 'confirm' | 'rewrite';
+
+type QuestionRevision = {
+  id: string;
+  questionId: string; // id after the change
+  at: string;
+  actor: 'user' | 'ai';
+  source: RevisionSource;
+  fields: (keyof QuizQuestion)[];
+  before: QuizQuestion;
+  after: QuizQuestion;
+  batchId?: string;
+};
+
+type RevisionBatch = {
+  id: string;
+  at: string;
+  label: string;
+  source: RevisionSource;
+  // Undoing the batch puts these banks back and drops the ones it created
+  removedBanks: QuizBank[];
+  createdBankIds: string[];
+  // The created banks as first saved, to tell whether undoing would lose later changes
+  createdBanks?: QuizBank[];
+  revertedAt?: string;
+};
+
+const REVISION_FIELD_LABELS: Partial<Record<keyof QuizQuestion, string>> = {
+  id: '题目编号',
+  type: '题型',
+  stem: '题干',
+  options: '选项',
+  answerIds: '答案',
+  blanks: '填空答案',
+  referenceAnswer: '参考答案',
+  rubric: '评分要点',
+  coreConcept: '核心概念',
+  optionAnalyses: '选项解析',
+  extendedCases: '拓展案例',
+  points: '分值',
+  verification: '答案复核',
+};
+
+const REVISION_SOURCE_LABELS: Record<RevisionSource, string> = { edit: '编辑', merge: '合并题库', revert: '恢复', verify: '采用复核答案', confirm: '确认原答案', rewrite: 'AI 改写' };
+
+const diffQuestionFields = (before: QuizQuestion, after: QuizQuestion): (keyof QuizQuestion)[] =>
+  (Object.keys(REVISION_FIELD_LABELS) as (keyof QuizQuestion)[]).filter(field =>
+    JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null));
+
+const createRevision = (
+  before: QuizQuestion,
+  after: QuizQuestion,
+  source: RevisionSource,
+  actor: QuestionRevision['actor'],
+  batchId?: string
+): QuestionRevision | null => {
+  const fields = diffQuestionFields(before, after);
+  if (fields.length === 0) return null;
+  const now = Date.now();
+  return {
+    id: `${attemptKeyPrefix(now)}-${Math.random().toString(36).slice(2, 8)}`,
+    questionId: String(after.id),
+    at: new Date(now).toISOString(),
+    actor,
+    source,
+    fields,
+    before,
+    after,
+    batchId,
+  };
+};
+
+// Readable form of one field for the diff view
+const formatRevisionValue = (q: QuizQuestion, field: keyof QuizQuestion): string => {
+  const value = q[field];
+  if (value == null || value === '') return '（空）';
+  if (field === 'options') return q.options.map((o, i) => `${optionBadge(q, i)}. ${o.text}`).join('\n');
+  if (field === 'answerIds') return formatCorrectAnswer(q);
+  if (field === 'type') return `${QUESTION_TYPE_LABELS[q.type] || q.type}题`;
+  if (field === 'blanks') return (q.blanks || []).map((b, i) => `第 ${i + 1} 空：${b.join(' | ')}`).join('\n');
+  if (field === 'rubric') return (q.rubric || []).map(r => `${r.point}（${r.score} 分）`).join('\n');
+  if (field === 'extendedCases') return (q.extendedCases || []).join('\n');
+  if (field === 'optionAnalyses') return Object.entries(q.optionAnalyses || {}).map(([id, text]) => `${id}：${text}`).join('\n');
+  if (field === 'verification') return `${VERIFICATION_STATUS_LABELS[q.verification!.status]} · 复核答案：${formatVerifierAnswer(q)}`;
+  return String(value);
+};
+
+// Ids the batch gave its questions, mapped back to the ids they had before it
+const batchIdMap = (revisions: QuestionRevision[], batchId: string): Record<string, string> =>
+  Object.fromEntries(revisions
+    .filter(r => r.batchId === batchId && String(r.before.id) !== r.questionId)
+    .map(r => [r.questionId, String(r.before.id)]));
+
+// A saved session with its question ids mapped through idMap
+const repointProgress = (progress: StoredQuizProgress, idMap: Record<string, string>): StoredQuizProgress => ({
+  ...progress,
+  questionIds: progress.questionIds.map(id => idMap[id] ?? id),
+  answers: Object.fromEntries(Object.entries(progress.answers || {}).map(([id, answer]) => [idMap[id] ?? id, answer])),
+});
+
+// Whether a bank the batch created was edited or deleted since; null for batches without a snapshot
+const batchCreatedBanksChanged = (batch: RevisionBatch, banks: QuizBank[]): boolean | null => {
+  if (!batch.createdBanks) return null;
+  return batch.createdBanks.some(snapshot => {
+    const current = banks.find(b => b.id === snapshot.id);
+    return !current || JSON.stringify(current.questions) !== JSON.stringify(snapshot.questions);
+  });
+};
+
+function saveRevisions(revisions: QuestionRevision[]) {
+  if (revisions.length === 0) return;
+  idbWriteCollectionChanges('revisions', revisions.map(r => [r.id, r]), [], null)
+    .catch(e => console.warn('Failed to save question revisions', e));
+}
+
+async function loadRevisions(): Promise<QuestionRevision[]> {
+  try {
+    return await idbGetAllValues<QuestionRevision>('revisions');
+  } catch (e) {
+    console.warn('Failed to load question revisions', e);
+    return [];
+  }
+}
+
+// Revisions of a question newest first, following id rewrites (e.g. merges) back to earlier ids
+const collectQuestionRevisions = (all: QuestionRevision[], questionId: string): QuestionRevision[] => {
+  const result: QuestionRevision[] = [];
+  const pending = [questionId];
+  const visited = new Set<string>();
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    all.filter(r => r.questionId === id).forEach(r => {
+      result.push(r);
+      if (String(r.before.id) !== id) pending.push(String(r.before.id));
+    });
+  }
+  return result.sort((a, b) => b.at.localeCompare(a.at));
+};
+
+function saveRevisionBatch(batch: RevisionBatch) {
+  idbPut('revisionBatches', batch.id, batch).catch(e => console.warn('Failed to save revision batch', e));
+}
+
+async function loadRevisionBatches(): Promise<RevisionBatch[]> {
+  try {
+    const batches = await idbGetAllValues<RevisionBatch>('revisionBatches');
+    return batches.sort((a, b) => b.at.localeCompare(a.at));
+  } catch (e) {
+    console.warn('Failed to load revision batches', e);
+    return [];
+  }
+}
+
+// --- Learning Analytics ---
+type StatsDimension = 'book' | 'topic' | 'tag' | 'bank';
+
+type StatsBucket = {
+  key: string;
+  label: string;
+  attempts: number;
+  correct: number;
+  seconds: number;
+  questionIds: Set<string>;
+  // Set on topic buckets so a weak topic can launch a practice session
+  bookId?: string;
+  topicId?: string;
+};
+
+type WeeklyStats = { weekStart: string; attempts: number; correct: number };
+
+const STATS_DIMENSION_LABELS: Record<StatsDimension, string> = { book: '书目', topic: '章节', tag: '标签', bank: '题库' };
+const STATS_TREND_WEEKS = 12;
+const STATS_HEATMAP_WEEKS = 20;
+// Topics with fewer attempts than this are left out of the weakest list
+const STATS_WEAK_MIN_ATTEMPTS = 5;
+const STATS_WEAK_TOPIC_COUNT = 10;
+
+// Local midnight of the Monday starting the week that contains ms
+const startOfWeek = (ms: number): number => {
+  const d = new Date(ms);
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() - (d.getDay() + 6) % 7);
+  return d.getTime();
+};
+
+const accuracyOf = (b: { attempts: number; correct: number }) => (b.attempts > 0 ? b.correct / b.attempts : 0);
+
+const aggregateAttempts = (
+  attempts: AttemptEvent[],
+  dimension: StatsDimension,
+  banks: QuizBank[],
+  syllabus: SyllabusPreset | null,
+  metaMap: Record<string, QuestionMeta>
+): StatsBucket[] => {
+  const placements = new Map(buildPaperCandidates(banks, syllabus, metaMap).map(c => [String(c.question.id), c]));
+  const bankIdsByQuestion = new Map<string, string[]>();
+  banks.forEach(bank => bank.questions.forEach(q => {
+    const id = String(q.id);
+    bankIdsByQuestion.set(id, [...(bankIdsByQuestion.get(id) || []), bank.id]);
+  }));
+  const bookTitle = (bookId: string | null) => syllabus?.books.find(b => b.id === bookId)?.title;
+
+  const buckets = new Map<string, StatsBucket>();
+  const add = (key: string, label: string, attempt: AttemptEvent, extra: Partial<StatsBucket> = {}) => {
+    const bucket = buckets.get(key) ?? { key, label, attempts: 0, correct: 0, seconds: 0, questionIds: new Set<string>(), ...extra };
+    bucket.attempts += 1;
+    bucket.correct += attempt.isCorrect ? 1 : 0;
+    bucket.seconds += attempt.seconds;
+    bucket.questionIds.add(attempt.questionId);
+    buckets.set(key, bucket);
+  };
+
+  attempts.forEach(a => {
+    const placement = placements.get(a.questionId);
+    if (dimension === 'book') {
+      const bookId = placement?.bookId ?? null;
+      add(bookId || 'unassigned', bookTitle(bookId) || '未归类', a);
+    } else if (dimension === 'topic') {
+      const bookId = placement?.bookId;
+      const topicId = placement?.topicId;
+      if (!bookId || !topicId || topicId === 'other') return add('unassigned', '未归类', a);
+      const book = syllabus?.books.find(b => b.id === bookId);
+      const topic = book ? findTopicDeep(topicId, book.topics) : undefined;
+      add(`${bookId}:${topicId}`, `${book?.title || ''} · ${topic?.title || topicId}`, a, { bookId, topicId });
+    } else if (dimension === 'tag') {
+      const tags = placement?.tags.length ? placement.tags : [''];
+      tags.forEach(tag => add(tag || 'untagged', tag || '无标签', a));
+    } else {
+      const bankIds = bankIdsByQuestion.get(a.questionId) || [];
+      if (bankIds.length === 0) return add('deleted', '已删除的题库', a);
+      bankIds.forEach(id => add(id, banks.find(b => b.id === id)?.title || id, a));
+    }
+  });
+  return Array.from(buckets.values()).sort((x, y) => y.attempts - x.attempts);
+};
+
+// Attempts and correct answers per week, oldest first, ending with the current week
+const buildWeeklyTrend = (attempts: AttemptEvent[], weeks: number, now: number): WeeklyStats[] => {
+  const starts = Array.from({ length: weeks }, (_, i) => {
+    // Step by calendar days rather than fixed milliseconds so DST changes don't shift weeks
+    const d = new Date(startOfWeek(now));
+    d.setDate(d.getDate() - (weeks - 1 - i) * 7);
+    return d.getTime();
+  });
+  const trend = starts.map(start => ({ weekStart: toLocalDay(start), attempts: 0, correct: 0 }));
+  const index = new Map(starts.map((start, i) => [start, i]));
+  attempts.forEach(a => {
+    const i = index.get(startOfWeek(a.at));
+    if (i === undefined) return;
+    trend[i].attempts += 1;
+    trend[i].correct += a.isCorrect ? 1 : 0;
+  });
+  return trend;
+};
+
+const countAttemptsByDay = (attempts: AttemptEvent[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  attempts.forEach(a => {
+    const day = toLocalDay(a.at);
+    counts[day] = (counts[day] || 0) + 1;
+  });
+  return counts;
+};
+
+const findWeakestTopics = (topicBuckets: StatsBucket[]): StatsBucket[] =>
+  topicBuckets
+    .filter(b => b.topicId && b.attempts >= STATS_WEAK_MIN_ATTEMPTS)
+    .sort((x, y) => accuracyOf(x) - accuracyOf(y) || y.attempts - x.attempts)
+    .slice(0, STATS_WEAK_TOPIC_COUNT);
+
+// --- LLM Call Abstraction ---
+type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+type LLMRequestOptions = {
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+  // Called before each automatic retry of a rate-limited / failed request
+  onRetry?: (attempt: number, delayMs: number, error: LLMError) => void;
+  // Tags the recorded usage entry, and receives the usage of each successful call
+  purpose?: LLMUsagePurpose;
+  onUsage?: (usage: TokenUsage, config: ApiConfig) => void;
+};
+// One incremental piece of a streamed response. Reasoning models send their thinking
+// separately (reasoning_content / Gemini "thought" parts) before the answer text.
+type LLMStreamChunk = { text?: string; reasoning?: string; usage?: TokenUsage };
+
+type LLMErrorCategory = 'config' | 'auth' | 'quota' | 'rate-limit' | 'server' | 'parse' | 'network' | 'aborted' | 'unknown';
+
+class LLMError extends Error {
+  category: LLMErrorCategory;
+  status?: number;
+  retryAfterMs?: number;
+  // Set once withLLMRetry has given up on it, so an enclosing retry doesn't start over
+  retried?: boolean;
+
+  constructor(message: string, category: LLMErrorCategory, extra?: { status?: number; retryAfterMs?: number }) {
+    super(message);
+    this.name = 'LLMError';
+    this.category = category;
+    this.status = extra?.status;
+    this.retryAfterMs = extra?.retryAfterMs;
+  }
+}
+
+const LLM_ERROR_CATEGORY_LABELS: Record<LLMErrorCategory, string> = {
+  config: '配置不完整',
+  auth: '鉴权失败',
+  quota: '余额不足',
+  'rate-limit': '触发限流',
+  server: '服务端错误',
+  parse: '返回格式错误',
+  network: '网络错误',
+  aborted: '已取消',
+  unknown: '未知错误',
+};
+
+const LLM_RETRYABLE_CATEGORIES: LLMErrorCategory[] = ['rate-limit', 'server', 'network'];
+const LLM_MAX_RETRIES = 3;
+const LLM_RETRY_BASE_DELAY_MS = 1000;
+const LLM_RETRY_MAX_DELAY_MS = 30000;
+
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+async function httpErrorToLLMError(res: Response, protocolLabel: string): Promise<LLMError> {
+  const text = await res.text().catch(() => '');
+  const detail = `${protocolLabel}调用失败 (${res.status}): ${text.slice(0, 300)}`;
+  const extra = { status: res.status, retryAfterMs: parseRetryAfter(res.headers.get('Retry-After')) };
+  // Some providers report exhausted credit as 429 with a quota error code
+  if (res.status === 402 || /insufficient[_ ]quota|quota[_ ]exceeded|余额不足/i.test(text)) return new LLMError(detail, 'quota', extra);
+  if (res.status === 401 || res.status === 403) return new LLMError(detail, 'auth', extra);
+  if (res.status === 429) return new LLMError(detail, 'rate-limit', extra);
+  if (res.status >= 500) return new LLMError(detail, 'server', extra);
+  return new LLMError(detail, 'unknown', extra);
+}
+
+function toLLMError(err: any): LLMError {
+  if (err instanceof LLMError) return err;
+  if (err?.name === 'AbortError') return new LLMError('请求已取消', 'aborted');
+  // fetch rejects with a TypeError for DNS/CORS/connection failures
+  if (err instanceof TypeError) return new LLMError(`网络请求失败：${err.message}`, 'network');
+  return new LLMError(err?.message || String(err), 'unknown');
+}
+
+// User-facing toast text for each error category
+function describeLLMError(err: any): string {
+  const e = toLLMError(err);
+  switch (e.category) {
+    case 'auth': return 'API Key 无效或没有访问该模型的权限，请检查配置。';
+    case 'quota': return 'API 余额不足或额度已用完，请充值或更换配置。';
+    case 'rate-limit': return '请求过于频繁，已自动重试仍被限流，请稍后再试。';
+    case 'server': return `模型服务暂时不可用${e.status ? ` (${e.status})` : ''}，已自动重试仍失败。`;
+    case 'network': return '网络连接失败，请检查 Base URL、网络或代理设置。';
+    case 'parse': return `模型返回内容格式有误：${e.message}`;
+    case 'aborted': return '已取消请求。';
+    default: return e.message;
+  }
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new DOMException('Aborted', 'AbortError'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Retries rate-limit / 5xx / network failures with exponential backoff, honouring Retry-After.
+async function withLLMRetry<T>(fn: () => Promise<T>, options?: LLMRequestOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (raw) {
+      const err = toLLMError(raw);
+      if (err.retried || attempt >= LLM_MAX_RETRIES || !LLM_RETRYABLE_CATEGORIES.includes(err.category) || options?.signal?.aborted) {
+        if (attempt > 0) err.retried = true;
+        throw err;
+      }
+      const backoff = LLM_RETRY_BASE_DELAY_MS * 2 ** attempt + Math.random() * 250;
+      const delayMs = Math.min(err.retryAfterMs ?? backoff, LLM_RETRY_MAX_DELAY_MS);
+      console.warn(`LLM request failed (${err.category}), retrying in ${Math.round(delayMs)}ms`, err);
+      options?.onRetry?.(attempt + 1, delayMs, err);
+      await sleep(delayMs, options?.signal);
+    }
+  }
+}
+
+// Local servers (Ollama, llama.cpp, LM Studio...) usually run without authentication
+function isLocalEndpoint(baseUrl: string): boolean {
+  try {
+    const host = new URL(baseUrl).hostname;
+    return host === 'localhost' || host === '127.0.0.1' || host === '0.0.0.0' || host === '[::1]' ||
+      host.endsWith('.local') || /^192\.168\./.test(host) || /^10\./.test(host) ||
+      /^172\.(1[6-9]|2\d|3[01])\./.test(host);
+  } catch {
+    return false;
+  }
+}
+
+function isApiKeyRequired(config: ApiConfig): boolean {
+  return config.protocol !== 'ollama' && !isLocalEndpoint(config.baseUrl);
+}
+
+function isApiConfigReady(config: ApiConfig): boolean {
+  return !!config.baseUrl && !!config.model && (!!config.apiKey || !isApiKeyRequired(config));
+}
+
+function assertApiConfigComplete(config: ApiConfig) {
+  if (!isApiConfigReady(config)) {
+    throw new LLMError('请先在配置中填写完整的 Base URL、模型名称和 API Key（本地模型可不填 API Key）。', 'config');
+  }
+}
+
+function buildOpenAIRequest(config: ApiConfig, messages: ChatMessage[], options: LLMRequestOptions | undefined, stream: boolean) {
+  const path = config.customPath || '/v1/chat/completions';
+  const url = config.baseUrl.replace(/\/+$/, '') + path;
+
+  const body: any = {
+    model: config.model,
+    messages: messages.map(m => ({ role: m.role, content: m.content })),
+  };
+  if (options?.maxTokens) body.max_tokens = options.maxTokens;
+  if (options?.temperature !== undefined) body.temperature = options.temperature;
+  if (stream) {
+    body.stream = true;
+    body.stream_options = { include_usage: true };
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+  const init: RequestInit = {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(body),
+    signal: options?.signal,
+  };
+  return { url, init };
+}
+
+async function fetchWithLLMRetry(url: string, init: RequestInit, protocolLabel: string, options?: LLMRequestOptions): Promise<Response> {
+  return withLLMRetry(async () => {
+    const res = await fetch(url, init);
+    if (!res.ok) throw await httpErrorToLLMError(res, protocolLabel);
+    return res;
+  }, options);
+}
+
+async function fetchOpenAI(config: ApiConfig, messages: ChatMessage[], options: LLMRequestOptions | undefined, stream: boolean): Promise<Response> {
+  const { url, init } = buildOpenAIRequest(config, messages, options, stream);
+  return fetchWithLLMRetry(url, init, 'OpenAI 兼容接口', options);
+}
+
+// --- Anthropic Messages Protocol ---
+const ANTHROPIC_API_VERSION = '2023-06-01';
+// The Messages API requires max_tokens on every request
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 4096;
+
+function buildAnthropicRequest(config: ApiConfig, messages: ChatMessage[], options: LLMRequestOptions | undefined, stream: boolean) {
+  const url = config.baseUrl.replace(/\/+$/, '') + '/v1/messages';
+  const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+
+  // Roles must alternate, so consecutive messages of the same role are merged
+  const turns: { role: 'user' | 'assistant'; content: string }[] = [];
+  messages.filter(m => m.role !== 'system').forEach(m => {
+    const role = m.role as 'user' | 'assistant';
+    const last = turns[turns.length - 1];
+    if (last && last.role === role) last.content += '\n\n' + m.content;
+    else turns.push({ role, content: m.content });
+  });
+
+  const body: any = {
+    model: config.model,
+    max_tokens: options?.maxTokens || ANTHROPIC_DEFAULT_MAX_TOKENS,
+    messages: turns,
+  };
+  if (system) body.system = system;
+  if (options?.temperature !== undefined) body.temperature = options.temperature;
+  if (stream) body.stream = true;
+
+  const init: RequestInit = {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': config.apiKey,
+      'anthropic-version': ANTHROPIC_API_VERSION,
+      // Required for calling the API straight from the browser
+      'anthropic-dangerous-direct-browser-access': 'true',
+    },
+    body: JSON.stringify(body),
+    signal: options?.signal,
+  };
+  return { url, init };
+}
+
+async function fetchAnthropic(config: ApiConfig, messages: ChatMessage[], options: LLMRequestOptions | undefined, stream: boolean): Promise<Response> {
+  const { url, init } = buildAnthropicRequest(config, messages, options, stream);
+  return fetchWithLLMRetry(url, init, 'Anthropic 接口', options);
+}
+
+// --- Ollama Native Protocol ---
+async function fetchOllama(config: ApiConfig, messages: ChatMessage[], options: LLMRequestOptions | undefined, stream: boolean): Promise<Response> {
+  const url = config.baseUrl.replace(/\/+$/, '') + '/api/chat';
+  const body: any = {
+    model: config.model,
+    messages: messages.map(m => ({ role: m.role, content: m.content })),
+    stream,
+  };
+  const modelOptions: any = {};
+  if (options?.maxTokens) modelOptions.num_predict = options.maxTokens;
+  if (options?.temperature !== undefined) modelOptions.temperature = options.temperature;
+  if (Object.keys(modelOptions).length > 0) body.options = modelOptions;
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+  return fetchWithLLMRetry(url, { method: 'POST', headers, body: JSON.stringify(body), signal: options?.signal }, 'Ollama 接口', options);
+}
+
+function buildGeminiBody(messages: ChatMessage[], options?: LLMRequestOptions) {
+  const systemMsg = messages.find(m => m.role === 'system');
+  const otherMsgs = messages.filter(m => m.role !== 'system');
+  const contents = otherMsgs.map(m => ({
+    role: m.role === 'assistant' ? 'model' : 'user',
+    parts: [{ text: m.content }],
+  }));
+
+  const body: any = { contents };
+  if (systemMsg) {
+    body.system_instruction = {
+      parts: [{ text: systemMsg.content }],
+    };
+  }
+  if (options?.maxTokens) body.generationConfig = { maxOutputTokens: options.maxTokens };
+  if (options?.temperature !== undefined) {
+    body.generationConfig = body.generationConfig || {};
+    body.generationConfig.temperature = options.temperature;
+  }
+  return body;
+}
+
+// Calls generateContent / streamGenerateContent, falling back from v1beta to v1 on 404.
+async function fetchGemini(config: ApiConfig, body: any, stream: boolean, options?: LLMRequestOptions): Promise<Response> {
+  const trimmedBase = config.baseUrl.replace(/\/+$/, '');
+  const method = stream ? 'streamGenerateContent?alt=sse&' : 'generateContent?';
+
+  const callGeminiOnce = async (version: 'v1beta' | 'v1') => {
+    const url = `${trimmedBase}/${version}/models/${config.model}:${method}key=${encodeURIComponent(config.apiKey)}`;
     const res = await fetch(url, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${apiKey}`,
-      },
+      headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(body),
+      signal: options?.signal,
     });
+    return res;
+  };
+
+  return withLLMRetry(async () => {
+    let res = await callGeminiOnce('v1beta');
+    if (res.status === 404) {
+      console.warn("Gemini v1beta endpoint not found, retrying with v1...");
+      res = await callGeminiOnce('v1');
+    }
+    if (!res.ok) throw await httpErrorToLLMError(res, 'Gemini 原生接口');
+    return res;
+  }, options);
+}
+
+// Splits a text/event-stream body into the payloads of its `data:` fields.
+async function* readServerSentEvents(res: Response): AsyncGenerator<string> {
+  if (!res.body) throw new Error('浏览器不支持流式读取响应。');
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let dataLines: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = done ? '' : lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line === '') {
+          if (dataLines.length > 0) {
+            const data = dataLines.join('\n');
+            dataLines = [];
+            if (data === '[DONE]') return;
+            yield data;
+          }
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+
+      if (done) {
+        if (dataLines.length > 0 && dataLines.join('\n') !== '[DONE]') yield dataLines.join('\n');
+        return;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Ollama streams newline-delimited JSON objects instead of SSE.
+async function* readJsonLines(res: Response): AsyncGenerator<any> {
+  if (!res.body) throw new Error('浏览器不支持流式读取响应。');
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop() ?? '';
+      for (const line of lines) {
+        const json = line.trim() ? tryJsonParse(line) : null;
+        if (json) yield json;
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
 
-    if (!res.ok) {
-      if (res.status === 402) throw new Error("API 余额不足 (402)。");
-      const text = await res.text();
-      throw new Error(`OpenAI 兼容接口调用失败：${res.status} ${text}`);
+// Queries the server's model list; used by the "test connection" button.
+async function listAvailableModels(config: ApiConfig): Promise<string[]> {
+  if (!config.baseUrl) throw new LLMError('请先填写 Base URL。', 'config');
+  if (!config.apiKey && isApiKeyRequired(config)) throw new LLMError('请先填写 API Key。', 'config');
+  const base = config.baseUrl.replace(/\/+$/, '');
+  const bearer: Record<string, string> = config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+
+  let url: string;
+  let headers: Record<string, string> = {};
+  let pick: (data: any) => string[];
+  if (config.protocol === 'ollama') {
+    url = `${base}/api/tags`;
+    headers = bearer;
+    pick = data => (data?.models || []).map((m: any) => m.name || m.model);
+  } else if (config.protocol === 'gemini-native') {
+    url = `${base}/v1beta/models?key=${encodeURIComponent(config.apiKey)}`;
+    pick = data => (data?.models || []).map((m: any) => String(m.name || '').replace(/^models\//, ''));
+  } else if (config.protocol === 'anthropic') {
+    url = `${base}/v1/models`;
+    headers = {
+      'x-api-key': config.apiKey,
+      'anthropic-version': ANTHROPIC_API_VERSION,
+      'anthropic-dangerous-direct-browser-access': 'true',
+    };
+    pick = data => (data?.data || []).map((m: any) => m.id);
+  } else {
+    // The models endpoint sits next to chat/completions (e.g. /v1/chat/completions -> /v1/models)
+    const chatPath = config.customPath || '/v1/chat/completions';
+    url = base + chatPath.replace(/\/chat\/completions\/?$/, '') + '/models';
+    headers = bearer;
+    pick = data => (data?.data || data?.models || []).map((m: any) => m.id || m.name);
+  }
+
+  let res: Response;
+  try {
+    res = await fetch(url, { headers });
+  } catch (err) {
+    throw toLLMError(err);
+  }
+  if (!res.ok) throw await httpErrorToLLMError(res, '模型列表接口');
+  const models: string[] = pick(await res.json()).filter(Boolean);
+  return Array.from(new Set(models));
+}
+
+// --- Token Usage Accounting ---
+type TokenUsage = { promptTokens: number; completionTokens: number; estimated?: boolean };
+// Token totals keyed by model id; prices are applied at display time so they can be edited later
+type UsageByModel = Record<string, TokenUsage>;
+type LLMUsagePurpose = 'generate' | 'chat' | 'classify' | 'syllabus' | 'grade' | 'verify' | 'rewrite';
+
+type UsageEntry = TokenUsage & {
+  id: string;
+  at: number;
+  day: string; // local YYYY-MM-DD, for daily totals
+  model: string;
+  protocol: ApiProtocol;
+  purpose?: LLMUsagePurpose;
+};
+
+// Price per 1M tokens, in 元
+type ModelPrice = { input: number; output: number };
+
+const toLocalDay = (ms: number) => {
+  const d = new Date(ms);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+// Rough estimate for providers that don't report usage: CJK characters are ~1 token each,
+// everything else ~4 characters per token.
+function estimateTokens(text: string): number {
+  const cjk = (text.match(/[\u3000-\u9fff\uf900-\ufaff\uff00-\uffef]/g) || []).length;
+  return Math.ceil(cjk + (text.length - cjk) / 4);
+}
+
+function addUsage(byModel: UsageByModel | undefined, model: string, usage: TokenUsage): UsageByModel {
+  const prev = byModel?.[model];
+  return {
+    ...byModel,
+    [model]: {
+      promptTokens: (prev?.promptTokens || 0) + usage.promptTokens,
+      completionTokens: (prev?.completionTokens || 0) + usage.completionTokens,
+      estimated: !!(prev?.estimated || usage.estimated),
+    },
+  };
+}
+
+function sumUsage(byModel: UsageByModel | undefined): TokenUsage {
+  return Object.values(byModel || {}).reduce<TokenUsage>((acc, u) => ({
+    promptTokens: acc.promptTokens + u.promptTokens,
+    completionTokens: acc.completionTokens + u.completionTokens,
+    estimated: acc.estimated || u.estimated,
+  }), { promptTokens: 0, completionTokens: 0, estimated: false });
+}
+
+// Cost in 元; models without a configured price count as free and are listed in `unpriced`
+function costOfUsage(byModel: UsageByModel | undefined, prices: Record<string, ModelPrice>): { cost: number; unpriced: string[] } {
+  let cost = 0;
+  const unpriced: string[] = [];
+  Object.entries(byModel || {}).forEach(([model, u]) => {
+    const price = prices[model];
+    if (!price) {
+      unpriced.push(model);
+      return;
     }
+    cost += (u.promptTokens * price.input + u.completionTokens * price.output) / 1_000_000;
+  });
+  return { cost, unpriced };
+}
+
+const formatCost = (cost: number) => `¥${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+
+function recordUsageEntry(config: ApiConfig, usage: TokenUsage, purpose?: LLMUsagePurpose) {
+  const at = Date.now();
+  const entry: UsageEntry = {
+    ...usage,
+    id: `${at}-${Math.random().toString(36).slice(2, 8)}`,
+    at,
+    day: toLocalDay(at),
+    model: config.model,
+    protocol: config.protocol,
+    purpose,
+  };
+  idbPut('usage', entry.id, entry).catch(e => console.warn('Failed to record token usage', e));
+}
+
+function usageByModelFromEntries(entries: UsageEntry[]): UsageByModel {
+  return entries.reduce<UsageByModel>((acc, e) => addUsage(acc, e.model, e), {});
+}
+
+async function loadUsageEntries(): Promise<UsageEntry[]> {
+  try {
+    const entries = await idbGetAllEntries<UsageEntry>('usage');
+    return entries.map(([, entry]) => entry).sort((a, b) => a.at - b.at);
+  } catch (e) {
+    console.warn('Failed to load token usage', e);
+    return [];
+  }
+}
+
+// Fills in an estimate when the provider didn't report usage, then records it.
+function finalizeUsage(config: ApiConfig, messages: ChatMessage[], text: string, reported: TokenUsage | null, options?: LLMRequestOptions): TokenUsage {
+  const usage: TokenUsage = reported && (reported.promptTokens || reported.completionTokens)
+    ? reported
+    : {
+        promptTokens: estimateTokens(messages.map(m => m.content).join('\n')),
+        completionTokens: estimateTokens(text),
+        estimated: true,
+      };
+  recordUsageEntry(config, usage, options?.purpose);
+  options?.onUsage?.(usage, config);
+  return usage;
+}
+
+const usageFromOpenAI = (u: any): TokenUsage | null =>
+  u ? { promptTokens: u.prompt_tokens || 0, completionTokens: u.completion_tokens || 0 } : null;
+
+const usageFromGemini = (m: any): TokenUsage | null =>
+  m ? { promptTokens: m.promptTokenCount || 0, completionTokens: (m.candidatesTokenCount || 0) + (m.thoughtsTokenCount || 0) } : null;
+
+const usageFromOllama = (json: any): TokenUsage | null =>
+  json?.eval_count !== undefined ? { promptTokens: json.prompt_eval_count || 0, completionTokens: json.eval_count || 0 } : null;
+
+async function requestLLM(
+  config: ApiConfig,
+  messages: ChatMessage[],
+  options?: LLMRequestOptions
+): Promise<{ text: string; usage: TokenUsage | null }> {
+  if (config.protocol === 'openai-compatible') {
+    const res = await fetchOpenAI(config, messages, options, false);
 
     const data = await res.json();
     const content =
       data?.choices?.[0]?.message?.content ??
       data?.choices?.[0]?.message?.parts?.map((p: any) => p.text || '').join('') ??
       '';
-    if (!content) throw new Error('模型未返回有效内容。');
-    return content;
+    if (!content) throw new LLMError('模型未返回有效内容。', 'parse');
+    return { text: content, usage: usageFromOpenAI(data?.usage) };
+
+  } else if (config.protocol === 'ollama') {
+    const res = await fetchOllama(config, messages, options, false);
+
+    const data = await res.json();
+    const content = data?.message?.content || '';
+    if (!content) throw new LLMError('模型未返回有效内容。', 'parse');
+    return { text: content, usage: usageFromOllama(data) };
+
+  } else if (config.protocol === 'anthropic') {
+    const res = await fetchAnthropic(config, messages, options, false);
+
+    const data = await res.json();
+    const blocks = Array.isArray(data?.content) ? data.content : [];
+    const text = blocks.filter((b: any) => b.type === 'text').map((b: any) => b.text || '').join('');
+    if (!text) throw new LLMError('Claude 未返回有效内容。', 'parse');
+    const u = data?.usage;
+    return { text, usage: u ? { promptTokens: u.input_tokens || 0, completionTokens: u.output_tokens || 0 } : null };
 
   } else {
     // --- Gemini Native Protocol ---
-    const trimmedBase = baseUrl.replace(/\/+$/, '');
-    const systemMsg = messages.find(m => m.role === 'system');
-    const otherMsgs = messages.filter(m => m.role !== 'system');
-    const contents = otherMsgs.map(m => ({
-      role: m.role === 'assistant' ? 'model' : 'user',
-      parts: [{ text: m.content }],
-    }));
+    const res = await fetchGemini(config, buildGeminiBody(messages, options), false, options);
 
-    const body: any = { contents };
-    if (systemMsg) {
-      body.system_instruction = {
-        parts: [{ text: systemMsg.content }],
-      };
+    const data = await res.json();
+    const parts = data?.candidates?.[0]?.content?.parts || [];
+    const text = parts.map((p: any) => p.text || '').join('');
+    
+    if (!text) throw new LLMError('Gemini 未返回有效内容。', 'parse');
+    return { text, usage: usageFromGemini(data?.usageMetadata) };
+  }
+}
+
+async function callLLM(
+  config: ApiConfig,
+  messages: ChatMessage[],
+  options?: LLMRequestOptions
+): Promise<string> {
+  assertApiConfigComplete(config);
+  // Opening the request retries on its own; this also covers a body that fails to arrive
+  const { text, usage } = await withLLMRetry(() => requestLLM(config, messages, options), options);
+  finalizeUsage(config, messages, text, usage, options);
+  return text;
+}
+
+// Streaming variant of callLLM: yields text and reasoning as they arrive, and the
+// reported token usage (if any) as a final chunk.
+async function* streamLLM(
+  config: ApiConfig,
+  messages: ChatMessage[],
+  options?: LLMRequestOptions
+): AsyncGenerator<LLMStreamChunk> {
+  assertApiConfigComplete(config);
+
+  if (config.protocol === 'openai-compatible') {
+    const res = await fetchOpenAI(config, messages, options, true);
+
+    for await (const data of readServerSentEvents(res)) {
+      const json = tryJsonParse(data);
+      // With stream_options.include_usage the last chunk carries usage and no choices
+      const usage = usageFromOpenAI(json?.usage);
+      if (usage) yield { usage };
+      const delta = json?.choices?.[0]?.delta;
+      if (!delta) continue;
+      const text = typeof delta.content === 'string' ? delta.content : '';
+      const reasoning = delta.reasoning_content || delta.reasoning || '';
+      if (text || reasoning) yield { text, reasoning };
     }
-    if (options?.maxTokens) body.generationConfig = { maxOutputTokens: options.maxTokens };
-    if (options?.temperature !== undefined) {
-      body.generationConfig = body.generationConfig || {};
-      body.generationConfig.temperature = options.temperature;
+
+  } else if (config.protocol === 'ollama') {
+    const res = await fetchOllama(config, messages, options, true);
+
+    for await (const json of readJsonLines(res)) {
+      if (json?.error) throw new LLMError(`Ollama 接口流式输出出错: ${json.error}`, 'server');
+      const text = json?.message?.content || '';
+      const reasoning = json?.message?.thinking || '';
+      if (text || reasoning) yield { text, reasoning };
+      if (json?.done) {
+        const usage = usageFromOllama(json);
+        if (usage) yield { usage };
+        return;
+      }
     }
 
-    const callGeminiOnce = async (version: 'v1beta' | 'v1') => {
-      const url = `${trimmedBase}/${version}/models/${model}:generateContent?key=${encodeURIComponent(apiKey)}`;
-      const res = await fetch(url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body),
+  } else if (config.protocol === 'anthropic') {
+    const res = await fetchAnthropic(config, messages, options, true);
+    let promptTokens = 0;
+    let completionTokens = 0;
+
+    for await (const data of readServerSentEvents(res)) {
+      const json = tryJsonParse(data);
+      if (json?.type === 'error') {
+        const errType = json.error?.type || '';
+        const category: LLMErrorCategory = errType === 'rate_limit_error' ? 'rate-limit' : errType === 'overloaded_error' || errType === 'api_error' ? 'server' : 'unknown';
+        throw new LLMError(`Anthropic 接口流式输出出错: ${json.error?.message || errType}`, category);
+      }
+      if (json?.type === 'message_start') promptTokens = json.message?.usage?.input_tokens || 0;
+      if (json?.type === 'message_delta') completionTokens = json.usage?.output_tokens || completionTokens;
+      if (json?.type !== 'content_block_delta') continue;
+      const delta = json.delta || {};
+      if (delta.type === 'text_delta' && delta.text) yield { text: delta.text };
+      else if (delta.type === 'thinking_delta' && delta.thinking) yield { reasoning: delta.thinking };
+    }
+    if (promptTokens || completionTokens) yield { usage: { promptTokens, completionTokens } };
+
+  } else {
+    // --- Gemini Native Protocol ---
+    const res = await fetchGemini(config, buildGeminiBody(messages, options), true, options);
+    let usage: TokenUsage | null = null;
+
+    for await (const data of readServerSentEvents(res)) {
+      const json = tryJsonParse(data);
+      // usageMetadata is cumulative, the last one wins
+      usage = usageFromGemini(json?.usageMetadata) || usage;
+      const parts = json?.candidates?.[0]?.content?.parts || [];
+      let text = '';
+      let reasoning = '';
+      parts.forEach((p: any) => {
+        if (p.thought) reasoning += p.text || '';
+        else text += p.text || '';
       });
-      return res;
-    };
+      if (text || reasoning) yield { text, reasoning };
+    }
+    if (usage) yield { usage };
+  }
+}
 
-    let res = await callGeminiOnce('v1beta');
-    if (res.status === 404) {
-      console.warn("Gemini v1beta endpoint not found, retrying with v1...");
-      res = await callGeminiOnce('v1');
+// Consumes streamLLM into the full response text, reporting the accumulated text after each chunk.
+// A stream that breaks off with a network / server error is requested again from the start.
+async function streamLLMToText(
+  config: ApiConfig,
+  messages: ChatMessage[],
+  options: LLMRequestOptions | undefined,
+  onProgress: (text: string, reasoning: string) => void
+): Promise<string> {
+  let attempts = 0;
+  const { text, reasoning, usage } = await withLLMRetry(async () => {
+    let text = '';
+    let reasoning = '';
+    let usage: TokenUsage | null = null;
+    // Clear what the broken attempt showed
+    if (attempts++ > 0) onProgress(text, reasoning);
+    try {
+      for await (const chunk of streamLLM(config, messages, options)) {
+        if (chunk.usage) {
+          usage = chunk.usage;
+          continue;
+        }
+        if (chunk.text) text += chunk.text;
+        if (chunk.reasoning) reasoning += chunk.reasoning;
+        onProgress(text, reasoning);
+      }
+    } catch (err) {
+      // Connection drops mid-stream surface as TypeError / AbortError from reader.read()
+      throw toLLMError(err);
     }
+    return { text, reasoning, usage };
+  }, options);
+  if (!text) throw new LLMError('模型未返回有效内容。', 'parse');
+  finalizeUsage(config, messages, text + reasoning, usage, options);
+  return text;
+}
+
+// --- Provider Fallback ---
+// When the active provider is out of credit, rate limited (after its own retries) or down,
+// the request moves on to the next saved preset in the user's fallback chain.
+type LLMProvider = { label: string; config: ApiConfig };
+
+const LLM_FALLBACK_CATEGORIES: LLMErrorCategory[] = ['quota', 'rate-limit', 'server'];
+
+const providerLabel = (config: ApiConfig, name?: string) => (name && name !== config.model ? `${name} (${config.model})` : config.model);
+
+const presetToApiConfig = (preset: ApiConfigHistoryItem): ApiConfig => ({
+  protocol: preset.protocol,
+  baseUrl: preset.baseUrl,
+  model: preset.model,
+  customPath: preset.customPath,
+  apiKey: preset.apiKey || '',
+});
+
+function buildProviderChain(active: ApiConfig, chainIds: string[], presets: ApiConfigHistoryItem[]): LLMProvider[] {
+  const providers: LLMProvider[] = [{ label: providerLabel(active), config: active }];
+  const seen = new Set([`${active.protocol}|${active.baseUrl}|${active.model}|${active.apiKey}`]);
+  chainIds.forEach(id => {
+    const preset = presets.find(p => p.id === id);
+    if (!preset) return;
+    const config = presetToApiConfig(preset);
+    const key = `${config.protocol}|${config.baseUrl}|${config.model}|${config.apiKey}`;
+    if (seen.has(key) || !isApiConfigReady(config)) return;
+    seen.add(key);
+    providers.push({ label: providerLabel(config, preset.name), config });
+  });
+  return providers;
+}
 
-    if (!res.ok) {
-      const text = await res.text();
-      throw new Error(`Gemini 原生接口调用失败 (${res.status}): ${text}`);
+async function runWithProviderFallback<T>(
+  providers: LLMProvider[],
+  run: (config: ApiConfig) => Promise<T>,
+  onFallback?: (from: LLMProvider, to: LLMProvider, error: LLMError) => void
+): Promise<{ result: T; provider: LLMProvider }> {
+  for (let i = 0; ; i++) {
+    const provider = providers[i];
+    try {
+      return { result: await run(provider.config), provider };
+    } catch (raw) {
+      const err = toLLMError(raw);
+      const next = providers[i + 1];
+      if (!next || !LLM_FALLBACK_CATEGORIES.includes(err.category)) throw err;
+      console.warn(`Provider ${provider.label} failed (${err.category}), falling back to ${next.label}`, err);
+      onFallback?.(provider, next, err);
     }
+  }
+}
 
-    const data = await res.json();
-    const parts = data?.candidates?.[0]?.content?.parts || [];
-    const text = parts.map((p: any) => p.text || '').join('');
-    
-    if (!text) throw new Error('Gemini 未返回有效内容。');
-    return text;
+// For runs of many calls (e.g. one per generation batch): each call starts at the provider
+// that last succeeded, so a provider that is down only costs its retries once per run.
+function createStickyProviderFallback(providers: LLMProvider[]) {
+  let start = 0;
+  return async <T,>(
+    run: (config: ApiConfig) => Promise<T>,
+    onFallback?: (from: LLMProvider, to: LLMProvider, error: LLMError) => void
+  ): Promise<{ result: T; provider: LLMProvider }> => {
+    const outcome = await runWithProviderFallback(providers.slice(start), run, onFallback);
+    start = providers.indexOf(outcome.provider);
+    return outcome;
+  };
+}
+
+// Pulls the question stems out of a partially streamed JSON array, for progress display.
+function extractStreamedStems(partialJson: string): string[] {
+  const stems: string[] = [];
+  const re = /"(?:question|stem)"\s*:\s*"((?:[^"\\]|\\.)*)"/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(partialJson)) !== null) {
+    const decoded = tryJsonParse<string>(`"${m[1]}"`);
+    stems.push(decoded ?? m[1]);
   }
+  return stems;
 }
 
 // --- Components ---
@@ -1540,7 +4414,7 @@ const ChatSidebar = ({ isOpen, onClose, messages, onSend, isLoading, theme, chat
                    <div style={{ marginTop: '8px', whiteSpace: 'pre-wrap' }}>{msg.reasoning}</div>
                  </details>
               )}
-              <div style={{
+              {(msg.role === 'user' || msg.content) && <div style={{
                 backgroundColor: msg.role === 'user' ? colors.primary : (theme === 'dark' ? '#334155' : '#f3f4f6'),
                 color: msg.role === 'user' ? 'white' : colors.textMain,
                 padding: '14px 18px', borderRadius: '16px',
@@ -1554,10 +4428,10 @@ const ChatSidebar = ({ isOpen, onClose, messages, onSend, isLoading, theme, chat
                     __html: msg.content.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>').replace(/\n/g, '<br/>').replace(/- (.*)/g, '• $1')
                   }} />
                 )}
-              </div>
+              </div>}
             </div>
           ))}
-          {isLoading && <div style={{ alignSelf: 'flex-start', color: colors.textSub, fontSize: '12px' }}>思考中...</div>}
+          {isLoading && messages[messages.length - 1]?.role !== 'assistant' && <div style={{ alignSelf: 'flex-start', color: colors.textSub, fontSize: '12px' }}>思考中...</div>}
         </div>
         <div style={{ padding: '16px 20px', borderTop: '1px solid ' + colors.border + '', background: colors.surface }}>
           <div style={{ display: 'flex', gap: '12px', alignItems: 'flex-end' }}>
@@ -1610,29 +4484,38 @@ const App = () => {
     };
   });
 
-  const [apiPresets, setApiPresets] = useState<ApiConfigHistoryItem[]>(() => {
-    try {
-      const raw = localStorage.getItem(API_HISTORY_KEY);
-      return raw ? JSON.parse(raw) : [];
-    } catch { return []; }
-  });
+  const [apiPresets, setApiPresets] = useState<ApiConfigHistoryItem[]>([]);
 
   const [editingPresetId, setEditingPresetId] = useState<string | null>(null);
-  const [pendingPresetName, setPendingPresetName] = useState("");
-
-  const [syllabusPresets, setSyllabusPresets] = useState<SyllabusPreset[]>(() => {
+  // Token usage accounting
+  const [usageEntries, setUsageEntries] = useState<UsageEntry[]>([]);
+  const [modelPrices, setModelPrices] = useState<Record<string, ModelPrice>>(() => {
     try {
-      const raw = localStorage.getItem(SYLLABUS_PRESETS_KEY);
-      return raw ? JSON.parse(raw) : [];
-    } catch { return []; }
+      const raw = localStorage.getItem(MODEL_PRICES_KEY);
+      return raw ? JSON.parse(raw) : {};
+    } catch { return {}; }
   });
-  const [selectedSyllabusId, setSelectedSyllabusId] = useState<string | null>(() => {
-    try {
-        const raw = localStorage.getItem(SYLLABUS_PRESETS_KEY);
-        const presets = raw ? JSON.parse(raw) : [];
-        return presets.length > 0 ? presets[0].id : null;
-    } catch { return null; }
+  const [dailyBudget, setDailyBudget] = useState<number>(() => {
+    const n = parseFloat(localStorage.getItem(DAILY_BUDGET_KEY) || '');
+    return Number.isNaN(n) || n < 0 ? 0 : n;
   });
+  const [budgetWarning, setBudgetWarning] = useState<{ spentToday: number; estimate: number; addToBank: boolean; inBank: boolean } | null>(null);
+
+  // Ordered ids of saved API presets to try when the active provider fails
+  const [fallbackChain, setFallbackChain] = useState<string[]>([]);
+  // Paper builder: saved blueprints and the one being edited
+  const [paperTemplates, setPaperTemplates] = useState<PaperTemplate[]>([]);
+  const [paperDraft, setPaperDraft] = useState<PaperTemplate | null>(null);
+  const [paperWeightTotal, setPaperWeightTotal] = useState(20);
+  const [paperWeightType, setPaperWeightType] = useState<PaperSection['questionType']>('single');
+  const [paperResult, setPaperResult] = useState<(PaperAssembly & { bankTitle: string }) | null>(null);
+  // Model ids reported by the server, offered as suggestions for the model field
+  const [availableModels, setAvailableModels] = useState<string[]>([]);
+  const [isListingModels, setIsListingModels] = useState(false);
+  const [pendingPresetName, setPendingPresetName] = useState("");
+
+  const [syllabusPresets, setSyllabusPresets] = useState<SyllabusPreset[]>([]);
+  const [selectedSyllabusId, setSelectedSyllabusId] = useState<string | null>(null);
   const [syllabusRawText, setSyllabusRawText] = useState("");
   const [isProcessingSyllabus, setIsProcessingSyllabus] = useState(false);
   
@@ -1654,7 +4537,14 @@ const App = () => {
 
   const [settings, setSettings] = useState({
     numQuestions: 10,
-    questionMode: 'single-only' as 'single-only' | 'multiple-only' | 'mixed'
+    questionMode: 'single-only' as 'single-only' | 'multiple-only' | 'truefalse-only' | 'blank-only' | 'essay-only' | 'mixed' | 'mixed-truefalse',
+    // Re-solve generated questions without the key and flag disagreements
+    verifyAnswers: false,
+    // API preset used for the re-solve; empty means the generation provider chain
+    verifyPresetId: '',
+    // One level for the whole bank, or a weighted mix
+    difficulty: 'mixed' as QuestionDifficulty | 'mixed',
+    difficultyMix: DEFAULT_DIFFICULTY_MIX
   });
 
   const [batchSize, setBatchSize] = useState<number>(() => {
@@ -1675,13 +4565,7 @@ const App = () => {
     } catch { return 'quality'; }
   });
 
-  const [tagPresets, setTagPresets] = useState<TagPreset[]>(() => {
-    try {
-      const raw = localStorage.getItem(TAG_PRESETS_KEY);
-      const parsed = raw ? JSON.parse(raw) : DEFAULT_TAG_PRESETS;
-      return Array.isArray(parsed) ? parsed : DEFAULT_TAG_PRESETS;
-    } catch { return DEFAULT_TAG_PRESETS; }
-  });
+  const [tagPresets, setTagPresets] = useState<TagPreset[]>(DEFAULT_TAG_PRESETS);
 
   const saveBatchSize = (value: number) => {
     const n = Math.min(Math.max(1, Math.round(value)), 50);
@@ -1696,12 +4580,10 @@ const App = () => {
 
   const saveTagPresets = (next: TagPreset[]) => {
     setTagPresets(next);
-    localStorage.setItem(TAG_PRESETS_KEY, JSON.stringify(next));
   };
 
   const saveApiPresets = (next: ApiConfigHistoryItem[]) => {
     setApiPresets(next);
-    localStorage.setItem(API_HISTORY_KEY, JSON.stringify(next));
   };
 
   const [quizSettings, setQuizSettings] = useState({
@@ -1711,16 +4593,25 @@ const App = () => {
     showExplanationCorrect: true,
     autoNextWrong: false,
     showExplanationWrong: true, 
-    showNavButtons: true
+    showNavButtons: true,
+    scoringScheme: 'strict' as ScoringScheme,
+    // Multiple-choice worth 2 and essays 10 instead of 1 point each
+    weightedPoints: false,
+    examDurationMinutes: 60,
+    // Once answered, an exam question can't be revisited
+    examLockAnswered: true,
+    // Practice only: narrow and order the session by difficulty
+    difficultyFilter: 'all' as QuestionDifficulty | 'all',
+    difficultyOrder: 'none' as DifficultyOrder
   });
   
-  const [screen, setScreen] = useState<'home' | 'quiz' | 'result' | 'mistakes' | 'history'>('home');
+  const [screen, setScreen] = useState<'home' | 'quiz' | 'result' | 'mistakes' | 'history' | 'usage' | 'paper' | 'stats' | 'verify'>('home');
   const [transitionDirection, setTransitionDirection] = useState<'left' | 'right' | 'none'>('none');
   
   // 页面导航函数
   const navigateTo = (newScreen: typeof screen) => {
     // 确定切换方向
-    const screenOrder = ['home', 'history', 'quiz', 'result', 'mistakes'];
+    const screenOrder = ['home', 'history', 'quiz', 'result', 'mistakes', 'usage', 'paper', 'stats', 'verify'];
     const currentIndex = screenOrder.indexOf(screen);
     const newIndex = screenOrder.indexOf(newScreen);
     
@@ -1742,13 +4633,19 @@ const App = () => {
       }, 300);
     }, 10);
   };
-  const [uploadedFiles, setUploadedFiles] = useState<{name: string, content: string}[]>([]);
+  const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [loading, setLoading] = useState(false);
   const [generationStage, setGenerationStage] = useState<GenerationStage>('idle');
   const [currentBatchIndex, setCurrentBatchIndex] = useState(0);
   const [totalBatches, setTotalBatches] = useState(0);
   const [toast, setToast] = useState<{msg: string, type: 'success'|'error'} | null>(null);
   const [isGeneratingInBank, setIsGeneratingInBank] = useState(false);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const [isCancellingGeneration, setIsCancellingGeneration] = useState(false);
+  // Bank built from the batches finished before a cancel, waiting for the user to keep or discard it
+  const [pendingPartialBank, setPendingPartialBank] = useState<QuizBank | null>(null);
+  // Live view of the batch currently streaming from the model
+  const [generationStream, setGenerationStream] = useState<{ receivedChars: number; reasoningChars: number; stems: string[]; completedCount: number } | null>(null);
   const [showAnswerSheetModal, setShowAnswerSheetModal] = useState(false);
 
 
@@ -1874,67 +4771,46 @@ useEffect(() => {
   // 答题记录状态
 
   const [quizData, setQuizData] = useState<QuizQuestion[]>([]);
+  // Per-question points of the running session when it comes from an assembled paper
+  const [quizPointsById, setQuizPointsById] = useState<Record<string, number> | undefined>(undefined);
   const [currentQIndex, setCurrentQIndex] = useState(0);
+  const [sourcePanelQuestionId, setSourcePanelQuestionId] = useState<string | null>(null);
   const [userAnswers, setUserAnswers] = useState<Record<string, StoredQuizAnswer>>({});
   const [tempSelection, setTempSelection] = useState<string[]>([]);
+  const [isGradingEssay, setIsGradingEssay] = useState(false);
   const [quizTime, setQuizTime] = useState(0); // 答题时间（秒）
+  const [quizTitle, setQuizTitle] = useState('');
+  // Mock exam: set while a timed exam is running
+  const [examStartedAt, setExamStartedAt] = useState<number | null>(null);
+  const [examDeadline, setExamDeadline] = useState<number | null>(null);
+  const [questionTimes, setQuestionTimes] = useState<Record<string, number>>({});
+  const [lastExamRecord, setLastExamRecord] = useState<ExamRecord | null>(null);
+  const [examRecords, setExamRecords] = useState<ExamRecord[]>([]);
+  const [reviewCards, setReviewCards] = useState<Record<string, ReviewCard>>({});
+  const [statsAttempts, setStatsAttempts] = useState<AttemptEvent[]>([]);
+  const [statsDimension, setStatsDimension] = useState<StatsDimension>('book');
+  // Kept in step with the attempt log: loaded from it, then updated as answers are recorded
+  const [attemptTally, setAttemptTally] = useState<AttemptTally>({});
+  const examWarnedRef = useRef(false);
+  // Guards against handing in twice while waiting on an essay grade
+  const finishingQuizRef = useRef(false);
+  // Essay grade in flight; dropped when its session closes before the model answers
+  const essayGradingRef = useRef<{ sessionKey: string; questionId: string; controller: AbortController; done: Promise<StoredQuizAnswer | null> } | null>(null);
   
   // --- Persistent State ---
-  // Using normalizeQuizJson to ensure stored mistakes/trash are valid, but if array is valid, keep it.
-  const [mistakes, setMistakes] = useState<MistakeItem[]>(() => {
-    try {
-      const saved = localStorage.getItem(MISTAKE_KEY);
-      if (!saved) return [];
-      const parsed = JSON.parse(saved);
-      return Array.isArray(parsed) ? parsed : [];
-    } catch { return []; }
-  });
-
-  const [mistakeTrash, setMistakeTrash] = useState<TrashItem[]>(() => {
-    try {
-      const saved = localStorage.getItem(MISTAKE_TRASH_KEY);
-      if (!saved) return [];
-      const parsed = JSON.parse(saved);
-      return Array.isArray(parsed) ? parsed : [];
-    } catch { return []; }
-  });
+  // Collections start empty and are filled from IndexedDB once the workspace has loaded.
+  // Writers stay disabled until then so the empty defaults never overwrite stored data.
+  const [storageReady, setStorageReady] = useState(false);
+  const [mistakes, setMistakes] = useState<MistakeItem[]>([]);
+  const [mistakeTrash, setMistakeTrash] = useState<TrashItem[]>([]);
 
   const [mistakeViewMode, setMistakeViewMode] = useState<MistakeViewMode>('mistakes');
 
-  const [history, setHistory] = useState<QuizBank[]>(() => {
-    try {
-      const saved = localStorage.getItem(QUIZ_HISTORY_KEY);
-      if (!saved) return [];
-      const parsed = JSON.parse(saved);
-      return Array.isArray(parsed) ? parsed : [];
-    } catch { return []; }
-  });
-
-  const [favorites, setFavorites] = useState<FavoriteItem[]>(() => {
-    try {
-      const raw = localStorage.getItem(FAVORITES_KEY);
-      if (!raw) return [];
-      const parsed = JSON.parse(raw);
-      return Array.isArray(parsed) ? parsed : [];
-    } catch { return []; }
-  });
-
-  const [questionMetaMap, setQuestionMetaMap] = useState<Record<string, QuestionMeta>>(() => {
-    try {
-      const raw = localStorage.getItem(QUESTION_META_KEY);
-      return raw ? JSON.parse(raw) : {};
-    } catch { return {}; }
-  });
+  const [history, setHistory] = useState<QuizBank[]>([]);
+  const [favorites, setFavorites] = useState<FavoriteItem[]>([]);
+  const [questionMetaMap, setQuestionMetaMap] = useState<Record<string, QuestionMeta>>({});
 
   // Chat Session Management
-  type ChatSession = {
-    id: string;
-    title: string;
-    messages: {role: string, content: string, reasoning?: string}[];
-    createdAt: Date;
-    updatedAt: Date;
-  };
-  
   const [isChatOpen, setIsChatOpen] = useState(false);
   
   // 悬浮助手按钮的位置（以屏幕左上角为基准，单位 px）
@@ -1964,25 +4840,8 @@ useEffect(() => {
     setAssistantPos({ x: Math.max(margin, x), y: Math.max(margin, y) });
   }, []);
   
-  const [chatSessions, setChatSessions] = useState<ChatSession[]>(() => {
-    // Load chat sessions from localStorage
-    const saved = localStorage.getItem('chatSessions');
-    if (saved) {
-      const parsed = JSON.parse(saved);
-      return parsed.map((session: any) => ({
-        ...session,
-        createdAt: new Date(session.createdAt),
-        updatedAt: new Date(session.updatedAt)
-      }));
-    }
-    return [{
-      id: `session-${Date.now()}`,
-      title: '新对话',
-      messages: [],
-      createdAt: new Date(),
-      updatedAt: new Date()
-    }];
-  });
+  // Sessions are loaded from IndexedDB together with the rest of the workspace
+  const [chatSessions, setChatSessions] = useState<ChatSession[]>(() => [createEmptyChatSession()]);
   const [currentSessionId, setCurrentSessionId] = useState<string>(chatSessions.length > 0 ? chatSessions[0].id : `session-${Date.now()}`);
   
   // Get current session
@@ -1990,11 +4849,6 @@ useEffect(() => {
   const chatMessages = currentSession?.messages || [];
   const [chatLoading, setChatLoading] = useState(false);
   
-  // Save chat sessions to localStorage whenever they change
-  useEffect(() => {
-    localStorage.setItem('chatSessions', JSON.stringify(chatSessions));
-  }, [chatSessions]);
-  
   // Update chat messages
   const updateChatMessages = (messages: {role: string, content: string, reasoning?: string}[]) => {
     setChatSessions(prev => prev.map(session => {
@@ -2020,13 +4874,7 @@ useEffect(() => {
   
   // Create new chat session
   const createNewSession = () => {
-    const newSession: ChatSession = {
-      id: `session-${Date.now()}`,
-      title: '新对话',
-      messages: [],
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
+    const newSession = createEmptyChatSession();
     setChatSessions(prev => [newSession, ...prev]);
     setCurrentSessionId(newSession.id);
   };
@@ -2071,6 +4919,16 @@ useEffect(() => {
   const [showStats, setShowStats] = useState(false);
 
     const [editingBankId, setEditingBankId] = useState<string | null>(null);
+    // Bank whose question list is unfolded in the history screen
+    const [expandedBankId, setExpandedBankId] = useState<string | null>(null);
+    const [questionEditor, setQuestionEditor] = useState<{ original: QuizQuestion; draft: QuestionDraft } | null>(null);
+    // Question whose AI rewrite menu is open, and the one waiting on the model
+    const [rewriteMenuId, setRewriteMenuId] = useState<string | null>(null);
+    const [rewritingQuestionId, setRewritingQuestionId] = useState<string | null>(null);
+    const rewriteAbortRef = useRef<AbortController | null>(null);
+    const [revisionViewer, setRevisionViewer] = useState<{ questionId: string; revisions: QuestionRevision[] } | null>(null);
+    const [revisionBatches, setRevisionBatches] = useState<RevisionBatch[]>([]);
+    const [pendingRevertBatchId, setPendingRevertBatchId] = useState<string | null>(null);
     const [editingTitle, setEditingTitle] = useState("");
     const [historyViewMode, setHistoryViewMode] = useState<HistoryViewMode>('byBank');
     
@@ -2105,10 +4963,19 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
   };
 
   const [showClearMistakesDialog, setShowClearMistakesDialog] = useState(false);
+
+  // Workspace backup / restore
+  const [includeApiKeysInBackup, setIncludeApiKeysInBackup] = useState(false);
+  const [pendingArchive, setPendingArchive] = useState<{ fileName: string; archive: WorkspaceArchive } | null>(null);
+  const [isApplyingArchive, setIsApplyingArchive] = useState(false);
+  const [archiveImportResult, setArchiveImportResult] = useState<{ mode: ArchiveImportMode; report: ArchiveImportReport } | null>(null);
   const [showClearTrashDialog, setShowClearTrashDialog] = useState(false);
 
   // New: Persistent Progress State
   const [sessionKey, setSessionKey] = useState("");
+  // Latest quiz position, read by async callbacks that outlive the render they started in
+  const quizPositionRef = useRef({ sessionKey: '', index: 0 });
+  quizPositionRef.current = { sessionKey, index: currentQIndex };
   const [confirmClearProgress, setConfirmClearProgress] = useState(false);
 
   // New: Progress Stats Map for History View
@@ -2120,6 +4987,7 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
     title?: string;
     sessionKey: string;
     questions: QuizQuestion[];
+    pointsById?: Record<string, number>;
     stored?: StoredQuizProgress | null;
   };
   const [resumeDialog, setResumeDialog] = useState<ResumeDialogState | null>(null);
@@ -2328,11 +5196,45 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
   const presetTagInput = useRef<HTMLInputElement>(null);
 
   // --- Effects ---
+  // Load the workspace collections from IndexedDB (runs the legacy localStorage import on first open)
+  useEffect(() => {
+    let cancelled = false;
+    loadWorkspaceFromDb()
+      .then(workspace => {
+        if (cancelled) return;
+        setHistory(workspace.history);
+        setMistakes(workspace.mistakes);
+        setMistakeTrash(workspace.mistakeTrash);
+        setFavorites(workspace.favorites);
+        setQuestionMetaMap(workspace.questionMetaMap);
+        if (workspace.chatSessions.length > 0) {
+          setChatSessions(workspace.chatSessions);
+          setCurrentSessionId(workspace.chatSessions[0].id);
+        }
+        if (workspace.tagPresets) setTagPresets(workspace.tagPresets);
+        setSyllabusPresets(workspace.syllabusPresets);
+        setSelectedSyllabusId(workspace.syllabusPresets.length > 0 ? workspace.syllabusPresets[0].id : null);
+        setApiPresets(workspace.apiPresets);
+        setFallbackChain(workspace.fallbackChain);
+        setPaperTemplates(workspace.paperTemplates);
+        setStorageReady(true);
+        return loadReviewCards();
+      })
+      .then(cards => {
+        if (!cancelled && cards) setReviewCards(cards);
+      })
+      .catch(e => {
+        console.error('Failed to open local database', e);
+        if (!cancelled) showToast('本地数据库打开失败，本次修改将不会被保存');
+      });
+    return () => { cancelled = true; };
+  }, []);
+
   useEffect(() => {
     const savedSettings = localStorage.getItem('quiz_settings_v3');
     if (savedSettings) setSettings(prev => ({ ...prev, ...JSON.parse(savedSettings) }));
     const savedQuizSettings = localStorage.getItem('quiz_advanced_settings');
-    if (savedQuizSettings) setQuizSettings(JSON.parse(savedQuizSettings));
+    if (savedQuizSettings) setQuizSettings(prev => ({ ...prev, ...JSON.parse(savedQuizSettings) }));
     const savedFiles = sessionStorage.getItem('quiz_uploaded_files');
     if (savedFiles) setUploadedFiles(JSON.parse(savedFiles));
   }, []);
@@ -2340,13 +5242,27 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
   useEffect(() => { localStorage.setItem(API_CONFIG_KEY, JSON.stringify(apiConfig)); }, [apiConfig]);
   useEffect(() => { localStorage.setItem('quiz_settings_v3', JSON.stringify(settings)); }, [settings]);
   useEffect(() => { localStorage.setItem('quiz_advanced_settings', JSON.stringify(quizSettings)); }, [quizSettings]);
-  useEffect(() => { localStorage.setItem(MISTAKE_KEY, JSON.stringify(mistakes)); }, [mistakes]);
-  useEffect(() => { localStorage.setItem(MISTAKE_TRASH_KEY, JSON.stringify(mistakeTrash)); }, [mistakeTrash]);
-  useEffect(() => { localStorage.setItem(QUIZ_HISTORY_KEY, JSON.stringify(history)); }, [history]);
-  useEffect(() => { localStorage.setItem(FAVORITES_KEY, JSON.stringify(favorites)); }, [favorites]);
-  useEffect(() => { localStorage.setItem(QUESTION_META_KEY, JSON.stringify(questionMetaMap)); }, [questionMetaMap]);
+  const questionMetaList = useMemo(() => Object.values(questionMetaMap), [questionMetaMap]);
+  useIdbCollectionSync('banks', history, (b: QuizBank) => String(b.id), storageReady);
+  useIdbCollectionSync('mistakes', mistakes, (m: MistakeItem) => String(m.id), storageReady);
+  useIdbCollectionSync('trash', mistakeTrash, (m: TrashItem) => String(m.id), storageReady);
+  useIdbCollectionSync('favorites', favorites, (f: FavoriteItem) => String(f.id), storageReady);
+  useIdbCollectionSync('questionMeta', questionMetaList, (m: QuestionMeta) => String(m.id), storageReady);
+  useIdbCollectionSync('chatSessions', chatSessions, (c: ChatSession) => c.id, storageReady);
+  useEffect(() => { if (storageReady) idbPut('kv', KV_TAG_PRESETS, tagPresets).catch(e => console.warn('Failed to save tag presets', e)); }, [tagPresets, storageReady]);
+  useEffect(() => { if (storageReady) idbPut('kv', KV_SYLLABUS_PRESETS, syllabusPresets).catch(e => console.warn('Failed to save syllabus presets', e)); }, [syllabusPresets, storageReady]);
+  useEffect(() => { if (storageReady) idbPut('kv', KV_API_PRESETS, apiPresets).catch(e => console.warn('Failed to save API presets', e)); }, [apiPresets, storageReady]);
+  useEffect(() => { if (storageReady) idbPut('kv', KV_FALLBACK_CHAIN, fallbackChain).catch(e => console.warn('Failed to save fallback chain', e)); }, [fallbackChain, storageReady]);
+  useEffect(() => { if (storageReady) idbPut('kv', KV_PAPER_TEMPLATES, paperTemplates).catch(e => console.warn('Failed to save paper templates', e)); }, [paperTemplates, storageReady]);
   useEffect(() => { sessionStorage.setItem('quiz_uploaded_files', JSON.stringify(uploadedFiles)); }, [uploadedFiles]);
   useEffect(() => { localStorage.setItem(THEME_KEY, theme); }, [theme]);
+  useEffect(() => { localStorage.setItem(MODEL_PRICES_KEY, JSON.stringify(modelPrices)); }, [modelPrices]);
+  useEffect(() => { localStorage.setItem(DAILY_BUDGET_KEY, String(dailyBudget)); }, [dailyBudget]);
+
+  // Usage entries are written in the background by callLLM; refresh when a view shows them
+  useEffect(() => {
+    if (screen === 'home' || screen === 'usage') loadUsageEntries().then(setUsageEntries);
+  }, [screen, loading]);
   
   // 答题时间计时器
   useEffect(() => {
@@ -2360,13 +5276,60 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
       if (timer) clearInterval(timer);
     };
   }, [screen]);
+
+  // A grade that comes back after the quiz was left has nowhere to go
+  useEffect(() => {
+    if (screen !== 'quiz') cancelEssayGrading();
+  }, [screen]);
+  // Per-question time and the mock-exam countdown, driven by the quizTime tick
+  useEffect(() => {
+    if (screen !== 'quiz' || quizTime === 0) return;
+    const q = quizData[currentQIndex];
+    if (q) setQuestionTimes(prev => ({ ...prev, [q.id]: (prev[q.id] || 0) + 1 }));
+    if (!examDeadline) return;
+    const remainingSeconds = Math.ceil((examDeadline - Date.now()) / 1000);
+    if (remainingSeconds <= 0) {
+      finishQuiz(true);
+    } else if (remainingSeconds <= EXAM_WARNING_SECONDS && !examWarnedRef.current) {
+      examWarnedRef.current = true;
+      showToast('距离考试结束还有 5 分钟，请抓紧作答');
+    }
+  }, [quizTime]);
+
+  useEffect(() => {
+    if (screen === 'result') loadExamRecords().then(setExamRecords);
+  }, [screen]);
+
+  useEffect(() => {
+    if (storageReady) loadAttemptTally().then(setAttemptTally);
+  }, [storageReady]);
+
+  // Reloaded when the banks or metadata change too, e.g. after a workspace import or once storage is ready
+  useEffect(() => {
+    if (screen === 'stats' && storageReady) queryAttempts({}, { banks: history, syllabus: null, metaMap: questionMetaMap }).then(setStatsAttempts);
+  }, [screen, storageReady, history, questionMetaMap]);
+
+  const statsSyllabus: SyllabusPreset | null = useMemo(
+    () => syllabusPresets.find((p: SyllabusPreset) => p.id === selectedSyllabusId) ?? null,
+    [syllabusPresets, selectedSyllabusId]
+  );
+  const statsBuckets: StatsBucket[] = useMemo(
+    () => aggregateAttempts(statsAttempts, statsDimension, history, statsSyllabus, questionMetaMap),
+    [statsAttempts, statsDimension, history, statsSyllabus, questionMetaMap]
+  );
+  const statsWeakestTopics: StatsBucket[] = useMemo(() => {
+    if (!statsSyllabus) return [];
+    return findWeakestTopics(statsDimension === 'topic' ? statsBuckets : aggregateAttempts(statsAttempts, 'topic', history, statsSyllabus, questionMetaMap));
+  }, [statsAttempts, statsDimension, statsBuckets, history, statsSyllabus, questionMetaMap]);
+  const statsTrend: WeeklyStats[] = useMemo(() => buildWeeklyTrend(statsAttempts, STATS_TREND_WEEKS, Date.now()), [statsAttempts]);
+  const statsDayCounts: Record<string, number> = useMemo(() => countAttemptsByDay(statsAttempts), [statsAttempts]);
   useEffect(() => { localStorage.setItem(APP_TITLE_KEY, appTitle); }, [appTitle]);
-  useEffect(() => { localStorage.setItem(SYLLABUS_PRESETS_KEY, JSON.stringify(syllabusPresets)); }, [syllabusPresets]);
 
   // Load progress map when switching to history screen
   useEffect(() => {
     if (screen === 'history') {
-      setProgressMap(loadAllProgress());
+      loadAllProgress().then(setProgressMap);
+      loadRevisionBatches().then(setRevisionBatches);
     }
   }, [screen]);
 
@@ -2385,10 +5348,11 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
           answers: userAnswers,
           answeredCount,
           correctCount,
-          updatedAt: Date.now()
+          updatedAt: Date.now(),
+          ...(examStartedAt && examDeadline ? { examStartedAt, examDeadline } : {})
       };
       saveProgress(sessionKey, progress);
-  }, [screen, sessionKey, quizData, currentQIndex, userAnswers]);
+  }, [screen, sessionKey, quizData, currentQIndex, userAnswers, examStartedAt, examDeadline]);
 
   const toggleTheme = () => setTheme(prev => prev === 'light' ? 'dark' : 'light');
 
@@ -2426,13 +5390,25 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
   };
 
   // --- Unified Quiz Start Logic ---
-  const startQuizWithResume = (opts: {
+  const startQuizWithResume = async (opts: {
     title?: string;
     sessionKey: string;
     questions: QuizQuestion[];
+    pointsById?: Record<string, number>;
   }) => {
-    const ordered = prepareOrderedQuestions(opts.questions);
-    const stored = loadProgress(opts.sessionKey);
+    // Questions whose key is disputed don't count towards an exam until someone checks them
+    const excluded = quizSettings.mode === 'exam' ? opts.questions.filter(isDisputed).length : 0;
+    if (excluded > 0 && excluded === opts.questions.length) return showToast('这些题目的答案都还待核对，暂时不能用于考试');
+    if (excluded > 0) showToast(`已跳过 ${excluded} 道答案待核对的题目`);
+    let ordered = prepareOrderedQuestions(excluded > 0 ? opts.questions.filter(q => !isDisputed(q)) : opts.questions);
+    // A narrowed run keeps its own progress so it can't overwrite the full set's
+    let sessionKey = excluded > 0 ? `${opts.sessionKey}:verified` : opts.sessionKey;
+    if (quizSettings.mode === 'practice' && (quizSettings.difficultyFilter !== 'all' || quizSettings.difficultyOrder !== 'none')) {
+      sessionKey = `${sessionKey}:difficulty:${quizSettings.difficultyFilter}:${quizSettings.difficultyOrder}`;
+      ordered = arrangeByDifficulty(ordered, attemptTally, quizSettings.difficultyFilter, quizSettings.difficultyOrder);
+      if (ordered.length === 0) return showToast(`没有难度为「${DIFFICULTY_LABELS[quizSettings.difficultyFilter as QuestionDifficulty]}」的题目`);
+    }
+    const stored = await loadProgress(sessionKey);
 
     const idsNow = ordered.map(q => String(q.id)).sort();
     const idsStored = stored ? [...stored.questionIds].sort() : [];
@@ -2445,29 +5421,58 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
         setResumeDialog({
             visible: true,
             title: opts.title,
-            sessionKey: opts.sessionKey,
+            sessionKey,
             questions: ordered,
+            pointsById: opts.pointsById,
             stored,
         });
     } else {
-        openQuizSession({ sessionKey: opts.sessionKey, questions: ordered, initialIndex: 0 });
+        openQuizSession({ sessionKey, questions: ordered, initialIndex: 0, title: opts.title, pointsById: opts.pointsById });
     }
   };
 
+  const cancelEssayGrading = () => {
+    essayGradingRef.current?.controller.abort();
+    essayGradingRef.current = null;
+    setIsGradingEssay(false);
+  };
+
   const openQuizSession = (args: {
     sessionKey: string;
     questions: QuizQuestion[];
     initialIndex: number;
     restoredAnswers?: Record<string, StoredQuizAnswer>;
+    title?: string;
+    pointsById?: Record<string, number>;
+    // Clock of a timed exam being resumed
+    restoredExam?: { startedAt: number; deadline: number };
   }) => {
+      cancelEssayGrading();
       setSessionKey(args.sessionKey);
       setQuizData(args.questions);
+      setQuizPointsById(args.pointsById);
       setCurrentQIndex(args.initialIndex);
       setUserAnswers(args.restoredAnswers || {});
       setTempSelection([]);
       navigateTo('quiz');
       setConfirmClearProgress(false);
       setQuizTime(0); // 重置答题时间
+      setQuizTitle(args.title || '');
+      setQuestionTimes({});
+      setLastExamRecord(null);
+      examWarnedRef.current = false;
+      const examMinutes = Number(quizSettings.examDurationMinutes) || 0;
+      if (args.restoredExam) {
+        setExamStartedAt(args.restoredExam.startedAt);
+        setExamDeadline(args.restoredExam.deadline);
+      } else if (quizSettings.mode === 'exam' && examMinutes > 0) {
+        const now = Date.now();
+        setExamStartedAt(now);
+        setExamDeadline(now + examMinutes * 60 * 1000);
+      } else {
+        setExamStartedAt(null);
+        setExamDeadline(null);
+      }
   };
 
   const handleResumeConfirm = () => {
@@ -2476,7 +5481,12 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
               sessionKey: resumeDialog.sessionKey, 
               questions: resumeDialog.questions, 
               initialIndex: Math.min(Math.max(resumeDialog.stored.currentIndex, 0), resumeDialog.questions.length - 1),
-              restoredAnswers: resumeDialog.stored.answers
+              restoredAnswers: resumeDialog.stored.answers,
+              title: resumeDialog.title,
+              pointsById: resumeDialog.pointsById,
+              restoredExam: resumeDialog.stored.examStartedAt && resumeDialog.stored.examDeadline
+                ? { startedAt: resumeDialog.stored.examStartedAt, deadline: resumeDialog.stored.examDeadline }
+                : undefined
           });
       }
       setResumeDialog(null);
@@ -2488,7 +5498,9 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
           openQuizSession({ 
               sessionKey: resumeDialog.sessionKey, 
               questions: resumeDialog.questions, 
-              initialIndex: 0 
+              initialIndex: 0,
+              title: resumeDialog.title,
+              pointsById: resumeDialog.pointsById
           });
       }
       setResumeDialog(null);
@@ -2547,8 +5559,6 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
     const newMistakes = [...mistakes, ...mistakeTrash];
     setMistakes(newMistakes);
     setMistakeTrash([]);
-    localStorage.setItem(MISTAKE_KEY, JSON.stringify(newMistakes));
-    localStorage.setItem(MISTAKE_TRASH_KEY, JSON.stringify([]));
     showToast(`成功恢复 ${mistakeTrash.length} 个错题`, 'success');
   };
 
@@ -2578,8 +5588,8 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
   };
 
   const handleSaveCurrentApiPreset = () => {
-    if (!apiConfig.apiKey) {
-      showToast('错误：API Key 为空，无法保存', 'error');
+    if (!isApiConfigReady(apiConfig)) {
+      showToast('错误：配置不完整（Base URL、模型名称或 API Key 为空），无法保存', 'error');
       return;
     }
     const defaultName = apiConfig.model || `Config ${new Date().toLocaleTimeString()}`;
@@ -2595,7 +5605,6 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
     };
     const updatedPresets = [newPreset, ...apiPresets];
     setApiPresets(updatedPresets);
-    localStorage.setItem(API_HISTORY_KEY, JSON.stringify(updatedPresets));
     showToast(`已保存配置：${defaultName}`, 'success');
   };
 
@@ -2617,6 +5626,29 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
   const handleDeleteApiPreset = (id: string) => {
     const next = apiPresets.filter(h => h.id !== id);
     saveApiPresets(next);
+    setFallbackChain(prev => prev.filter(chainId => chainId !== id));
+  };
+
+  const handleAddToFallbackChain = (id: string) => {
+    setFallbackChain(prev => (prev.includes(id) ? prev : [...prev, id]));
+  };
+
+  const handleMoveFallbackEntry = (index: number, delta: -1 | 1) => {
+    setFallbackChain(prev => {
+      const target = index + delta;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleRemoveFromFallbackChain = (id: string) => {
+    setFallbackChain(prev => prev.filter(chainId => chainId !== id));
+  };
+
+  const notifyProviderFallback = (from: LLMProvider, to: LLMProvider, error: LLMError) => {
+    showToast(`${from.label} ${LLM_ERROR_CATEGORY_LABELS[error.category]}，已切换到 ${to.label}`);
   };
   
   const handleStartRenamePreset = (id: string, currentName: string) => {
@@ -2653,7 +5685,7 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
 
   const handleAutoClassifyUnmatched = async (unmatchedQs: QuizQuestion[]) => {
     const syllabus = syllabusPresets.find(p => p.id === selectedSyllabusId);
-    if (!syllabus || unmatchedQs.length === 0 || !apiConfig.apiKey) {
+    if (!syllabus || unmatchedQs.length === 0 || !isApiConfigReady(apiConfig)) {
         showToast("无法执行：请检查大纲、未分类题目和 API Key", "error");
         return;
     }
@@ -2718,7 +5750,7 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
             }
             `;
 
-            const response = await callLLM(apiConfig, [{ role: 'user', content: prompt }]);
+            const response = await callLLM(apiConfig, [{ role: 'user', content: prompt }], { purpose: 'classify' });
             const mappings = normalizeClassificationJson(response);
 
             // Update Meta Map
@@ -2765,14 +5797,14 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
         }
         showToast(`智能归类完成，成功归类 ${successCount} 题`, 'success');
     } catch (e: any) {
-        showToast(`归类过程中出错: ${e.message}`, 'error');
+        showToast(`归类过程中出错: ${describeLLMError(e)}`, 'error');
     } finally {
         setIsAutoClassifying(false);
     }
   };
 
   const handleGenerateSyllabusPresetFromText = async () => {
-    if (!syllabusRawText.trim() || !apiConfig.apiKey) {
+    if (!syllabusRawText.trim() || !isApiConfigReady(apiConfig)) {
         showToast("请填写 API Key 并输入大纲文本", "error");
         return;
     }
@@ -2811,7 +5843,7 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
         ${syllabusRawText}
         `;
         
-        const response = await callLLM(apiConfig, [{ role: 'user', content: prompt }]);
+        const response = await callLLM(apiConfig, [{ role: 'user', content: prompt }], { purpose: 'syllabus' });
         const newPreset = normalizeSyllabusJson(response);
         
         if (!newPreset) {
@@ -2832,7 +5864,7 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
         showToast("考纲预设生成成功！", "success");
 
     } catch (e: any) {
-        showToast(`生成失败: ${e.message}`, "error");
+        showToast(`生成失败: ${describeLLMError(e)}`, "error");
     } finally {
         setIsProcessingSyllabus(false);
     }
@@ -2952,9 +5984,31 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
     setTimeout(() => setToast(null), 3000);
   };
 
+  const handleListModels = async () => {
+    setIsListingModels(true);
+    try {
+      const models = await listAvailableModels(apiConfig);
+      setAvailableModels(models);
+      if (models.length === 0) {
+        showToast('连接成功，但服务器没有返回任何模型', 'error');
+        return;
+      }
+      if (!models.includes(apiConfig.model)) {
+        setApiConfig(prev => ({ ...prev, model: models[0] }));
+      }
+      showToast(`连接成功，发现 ${models.length} 个模型`, 'success');
+    } catch (err: any) {
+      setAvailableModels([]);
+      showToast(`连接失败：${describeLLMError(err)}`);
+    } finally {
+      setIsListingModels(false);
+    }
+  };
+
   const handlePresetChange = (presetId: string) => {
     const preset = MODEL_PRESETS.find(p => p.id === presetId);
     if (preset) {
+      setAvailableModels([]);
       setApiConfig(prev => ({
         ...prev,
         preset: presetId,
@@ -2970,16 +6024,19 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
     const files = e.target.files;
     if (!files || files.length === 0) return;
     setLoading(true);
-    const newFiles: {name: string, content: string}[] = [];
+    const newFiles: UploadedFile[] = [];
     try {
       for (let i = 0; i < files.length; i++) {
         const file = files[i];
         let text = "";
+        let pageStarts: number[] | undefined;
         if (uploadedFiles.some(f => f.name === file.name) || newFiles.some(f => f.name === file.name)) continue;
         if (file.type === "application/pdf") {
           const arrayBuffer = await file.arrayBuffer();
           const pdf = await window.pdfjsLib.getDocument({ data: arrayBuffer }).promise;
+          pageStarts = [];
           for (let j = 1; j <= pdf.numPages; j++) {
+            pageStarts.push(text.length);
             const page = await pdf.getPage(j);
             const content = await page.getTextContent();
             text += content.items.map((item: any) => item.str).join(" ") + "\n";
@@ -2991,7 +6048,7 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
         } else if (file.type === "application/json") {
            text = await file.text();
         } else { continue; }
-        if (text && text.length > 20) newFiles.push({ name: file.name, content: text });
+        if (text && text.length > 20) newFiles.push({ name: file.name, content: text, pageStarts });
       }
       if (newFiles.length === 0) {
         if (files.length > 0) showToast("未提取到有效文本或文件已存在。", "error");
@@ -3007,32 +6064,654 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
     }
   };
 
-  const handleImportJsonQuiz = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
-    try {
-      const text = await file.text();
-      // Use robust parser
-      const validQuestions = normalizeQuizJson(text);
-      
-      if (!validQuestions || validQuestions.length === 0) throw new Error("无法从返回内容中解析出结构，请查看 Console 的 DEBUG 日志");
-      
-      const newBank: QuizBank = {
-          id: `imported-${Date.now()}`,
-          title: file.name.replace('.json', '') + ' (导入)',
-          createdAt: new Date().toISOString(),
-          sourceFiles: [file.name],
-          questionCount: validQuestions.length,
-          questions: validQuestions
-      };
-      setHistory(prev => [newBank, ...prev]);
-      startQuizWithResume({ sessionKey: buildBankSessionKey(newBank.id), questions: validQuestions, title: newBank.title });
-      showToast(`已成功导入 JSON 题库，共 ${validQuestions.length} 题`, 'success');
-    } catch (err: any) {
-      showToast(err.message, 'error');
-    } finally {
-      e.target.value = '';
-    }
+  const handleImportJsonQuiz = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const text = await file.text();
+      // Use robust parser
+      const validQuestions = normalizeQuizJson(text);
+      
+      if (!validQuestions || validQuestions.length === 0) throw new Error("无法从返回内容中解析出结构，请查看 Console 的 DEBUG 日志");
+      
+      const newBank: QuizBank = {
+          id: `imported-${Date.now()}`,
+          title: file.name.replace('.json', '') + ' (导入)',
+          createdAt: new Date().toISOString(),
+          sourceFiles: [file.name],
+          questionCount: validQuestions.length,
+          questions: validQuestions
+      };
+      setHistory(prev => [newBank, ...prev]);
+      startQuizWithResume({ sessionKey: buildBankSessionKey(newBank.id), questions: validQuestions, title: newBank.title });
+      showToast(`已成功导入 JSON 题库，共 ${validQuestions.length} 题`, 'success');
+    } catch (err: any) {
+      showToast(err.message, 'error');
+    } finally {
+      e.target.value = '';
+    }
+  };
+
+  const handleExportWorkspace = async () => {
+    if (!storageReady) return showToast('本地数据尚未加载完成，请稍后再试');
+    const [progress, logs] = await Promise.all([loadAllProgress(), loadStoredLogs()]);
+    const archive = buildWorkspaceArchive({
+      history,
+      mistakes,
+      trash: mistakeTrash,
+      favorites,
+      questionMeta: questionMetaMap,
+      tagPresets,
+      syllabusPresets,
+      apiPresets,
+      progress,
+      paperTemplates,
+      fallbackChain,
+      ...logs,
+    }, includeApiKeysInBackup);
+    downloadWorkspaceArchive(archive);
+    showToast('工作区备份已导出', 'success');
+  };
+
+  const handleSelectWorkspaceArchive = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      const archive = parseWorkspaceArchive(await file.text());
+      setPendingArchive({ fileName: file.name, archive });
+    } catch (err: any) {
+      showToast(err.message, 'error');
+    } finally {
+      e.target.value = '';
+    }
+  };
+
+  const handleApplyWorkspaceArchive = async (mode: ArchiveImportMode) => {
+    if (!pendingArchive) return;
+    if (!storageReady) return showToast('本地数据尚未加载完成，请稍后再试');
+    setIsApplyingArchive(true);
+    try {
+      const [localProgress, localLogs] = await Promise.all([loadAllProgress(), loadStoredLogs()]);
+      const { collections, report } = mergeWorkspaceArchive({
+        history,
+        mistakes,
+        trash: mistakeTrash,
+        favorites,
+        questionMeta: questionMetaMap,
+        tagPresets,
+        syllabusPresets,
+        apiPresets,
+        progress: localProgress,
+        paperTemplates,
+        fallbackChain,
+        ...localLogs,
+      }, pendingArchive.archive.collections, mode, pendingArchive.archive.includesApiKeys);
+
+      await replaceAllProgress(collections.progress);
+      await replaceStoredLogs(collections);
+      setReviewCards(Object.fromEntries(collections.reviews.map(card => [card.id, card])));
+      setAttemptTally(tallyAttempts(collections.attempts, rewriteResetTimes(collections.revisions)));
+      setRevisionBatches(await loadRevisionBatches());
+      setUsageEntries(await loadUsageEntries());
+      setProgressMap(collections.progress);
+      setHistory(collections.history);
+      setMistakes(collections.mistakes);
+      setMistakeTrash(collections.trash);
+      setFavorites(collections.favorites);
+      setQuestionMetaMap(collections.questionMeta);
+      setTagPresets(collections.tagPresets);
+      setSyllabusPresets(collections.syllabusPresets);
+      if (!collections.syllabusPresets.some(p => p.id === selectedSyllabusId)) {
+        setSelectedSyllabusId(collections.syllabusPresets[0]?.id ?? null);
+      }
+      setApiPresets(collections.apiPresets);
+      setFallbackChain(collections.fallbackChain);
+      setPaperTemplates(collections.paperTemplates);
+
+      setPendingArchive(null);
+      setArchiveImportResult({ mode, report });
+    } catch (err: any) {
+      console.error('Failed to import workspace archive', err);
+      showToast(`导入备份失败：${err?.message || err}`);
+    } finally {
+      setIsApplyingArchive(false);
+    }
+  };
+
+  // --- Paper Builder ---
+  const paperSyllabus: SyllabusPreset | null = syllabusPresets.find((p: SyllabusPreset) => p.id === paperDraft?.syllabusId) ?? null;
+  const paperCandidates: PaperCandidate[] = useMemo(
+    () => (screen === 'paper' ? buildPaperCandidates(history, paperSyllabus, questionMetaMap) : []),
+    [screen, history, paperSyllabus, questionMetaMap]
+  );
+
+  const openPaperBuilder = () => {
+    setPaperDraft(prev => prev ?? (paperTemplates[0] ? { ...paperTemplates[0] } : createPaperTemplate(selectedSyllabusId)));
+    setPaperResult(null);
+    navigateTo('paper');
+  };
+
+  const updatePaperDraft = (patch: Partial<PaperTemplate>) => {
+    setPaperDraft(prev => prev && { ...prev, ...patch });
+  };
+
+  const updatePaperSection = (sectionId: string, patch: Partial<PaperSection>) => {
+    setPaperDraft(prev => prev && { ...prev, sections: prev.sections.map(sec => sec.id === sectionId ? { ...sec, ...patch } : sec) });
+  };
+
+  const handleAddPaperSection = () => {
+    setPaperDraft(prev => prev && { ...prev, sections: [...prev.sections, createPaperSection()] });
+  };
+
+  const handleRemovePaperSection = (sectionId: string) => {
+    setPaperDraft(prev => prev && { ...prev, sections: prev.sections.filter(sec => sec.id !== sectionId) });
+  };
+
+  const handleWeightPaperSections = () => {
+    if (!paperDraft || !paperSyllabus) return showToast('请先为模板选择大纲');
+    const sections = buildWeightedSections(paperSyllabus, paperCandidates, paperWeightTotal, paperWeightType);
+    if (sections.length === 0) return showToast('大纲各书目下没有符合题型的题目');
+    updatePaperDraft({ sections: [...paperDraft.sections, ...sections] });
+  };
+
+  const savePaperTemplate = (template: PaperTemplate): PaperTemplate => {
+    const saved = { ...template, updatedAt: new Date().toISOString() };
+    setPaperTemplates(prev => prev.some(t => t.id === saved.id) ? prev.map(t => t.id === saved.id ? saved : t) : [saved, ...prev]);
+    setPaperDraft(saved);
+    return saved;
+  };
+
+  const handleSavePaperTemplate = () => {
+    if (!paperDraft) return;
+    if (!paperDraft.name.trim()) return showToast('请填写模板名称');
+    savePaperTemplate(paperDraft);
+    showToast('组卷模板已保存', 'success');
+  };
+
+  const handleDeletePaperTemplate = (id: string) => {
+    setPaperTemplates(prev => prev.filter(t => t.id !== id));
+    if (paperDraft?.id === id) setPaperDraft(createPaperTemplate(selectedSyllabusId));
+    showToast('模板已删除', 'success');
+  };
+
+  const handleAssemblePaper = async () => {
+    if (!paperDraft) return;
+    if (paperDraft.sections.length === 0) return showToast('请至少添加一个分区');
+    const template = savePaperTemplate(paperDraft);
+    const sinceMs = Date.now() - Math.max(0, template.avoidRecentDays) * 24 * 3600 * 1000;
+    const recentIds = template.avoidRecentDays > 0
+      ? collectRecentlySeenIds(await loadAllProgress(), await loadExamRecords(), sinceMs)
+      : new Set<string>();
+    const assembly = assemblePaper(template, paperCandidates, paperSyllabus, recentIds);
+    if (assembly.questions.length === 0) {
+      setPaperResult({ ...assembly, bankTitle: '' });
+      return showToast('没有符合条件的题目，请调整分区条件');
+    }
+
+    const bankTitle = `${template.name} (${new Date().toLocaleString('zh-CN', { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' })})`;
+    const bank: QuizBank = {
+      id: Date.now().toString(),
+      title: bankTitle,
+      createdAt: new Date().toISOString(),
+      sourceFiles: [],
+      questionCount: assembly.questions.length,
+      questions: assembly.questions,
+      paperTemplateId: template.id,
+      pointsById: Object.keys(assembly.pointsById).length > 0 ? assembly.pointsById : undefined,
+      note: assembly.shortages.length > 0 ? `组卷时 ${assembly.shortages.length} 个分区题目不足` : undefined,
+    };
+    setHistory(prev => [bank, ...prev]);
+    setPaperResult({ ...assembly, bankTitle });
+    showToast(`已组卷 ${assembly.questions.length} 题并保存到题库`, 'success');
+  };
+
+  // --- Question Editor ---
+  const openQuestionEditor = (q: QuizQuestion) => setQuestionEditor({ original: q, draft: questionToDraft(q) });
+
+  const updateQuestionDraft = (update: (draft: QuestionDraft) => QuestionDraft) => {
+    setQuestionEditor(prev => prev && { ...prev, draft: update(prev.draft) });
+  };
+
+  // Writes the edited question into every bank, favorite, mistake and the running quiz holding a copy of it
+  // Answers given under the old key are dropped from the live quiz and every saved session
+  const clearStoredAnswers = async (questionId: string) => {
+    setUserAnswers(prev => {
+      if (!prev[questionId]) return prev;
+      const next = { ...prev };
+      delete next[questionId];
+      return next;
+    });
+    const all = await loadAllProgress();
+    const updates: StoredQuizProgressMap = {};
+    Object.entries(all).forEach(([key, progress]) => {
+      // The open session is re-saved from userAnswers by the progress effect
+      if ((screen === 'quiz' && key === sessionKey) || !progress.answers?.[questionId]) return;
+      updates[key] = dropStoredAnswer(progress, questionId);
+      saveProgress(key, updates[key]);
+    });
+    if (Object.keys(updates).length > 0) setProgressMap(prev => ({ ...prev, ...updates }));
+  };
+
+  const replaceQuestionEverywhere = (updated: QuizQuestion) => {
+    const same = (q: QuizQuestion) => String(q.id) === String(updated.id);
+    const previous = findQuestionById(String(updated.id)) ?? quizData.find(same);
+    if (previous && answerKeyChanged(previous, updated)) void clearStoredAnswers(String(updated.id));
+    setHistory(prev => prev.map(bank => bank.questions.some(same) ? { ...bank, questions: bank.questions.map(q => same(q) ? updated : q) } : bank));
+    setFavorites(prev => prev.map(f => same(f.question) ? { ...f, question: updated } : f));
+    setMistakes(prev => prev.map(m => same(m.question) ? { ...m, question: updated } : m));
+    setMistakeTrash(prev => prev.map(t => same(t.question) ? { ...t, question: updated } : t));
+    setQuizData(prev => prev.map(q => same(q) ? updated : q));
+  };
+
+  const handleSaveQuestionEdit = () => {
+    if (!questionEditor) return;
+    const errors = validateQuestionDraft(questionEditor.draft);
+    if (errors.length > 0) return showToast(errors[0]);
+    let updated = applyQuestionEdit(questionEditor.original, questionEditor.draft);
+    const revision = createRevision(questionEditor.original, updated, 'edit', 'user');
+    // Fixing the key by hand settles a disputed verification
+    if (isDisputed(updated) && revision && revision.fields.some(f => f === 'answerIds' || f === 'blanks')) {
+      updated = { ...updated, verification: { ...updated.verification!, status: 'resolved', resolvedAt: new Date().toISOString() } };
+    }
+    if (revision) saveRevisions([revision]);
+    replaceQuestionEverywhere(updated);
+    setQuestionEditor(null);
+    showToast('题目已更新', 'success');
+  };
+
+  // --- Question Rewrite ---
+  // bankId picks the bank a similar question is added to; by default the first bank holding the original
+  const handleRewriteQuestion = async (q: QuizQuestion, action: QuestionRewriteAction, bankId?: string) => {
+    setRewriteMenuId(null);
+    if (rewritingQuestionId) return;
+    const same = (item: QuizQuestion) => String(item.id) === String(q.id);
+    const bank = history.find((b: QuizBank) => bankId ? b.id === bankId : b.questions.some(same));
+    if (action === 'similar' && !bank) return showToast('找不到这道题所在的题库');
+    // Replacing an answered question would leave the session grading an answer to a different question.
+    // Answers given while the rewrite runs are dropped by replaceQuestionEverywhere if the key changes.
+    if (action !== 'similar' && screen === 'quiz' && userAnswers[q.id]) return showToast('这道题已作答，请在答题结束后再改写');
+    const abortController = new AbortController();
+    rewriteAbortRef.current = abortController;
+    setRewritingQuestionId(String(q.id));
+    try {
+      const docChunks = documentChunks.filter(c => c.document === q.sourceDocument);
+      const prompt = buildRewritePrompt(q, action, findRewriteContext(q, docChunks));
+      const providers = buildProviderChain(apiConfig, fallbackChain, apiPresets);
+      const { result: raw } = await runWithProviderFallback(providers, config => callLLM(config, [{ role: 'user', content: prompt }], { purpose: 'rewrite', signal: abortController.signal }), notifyProviderFallback);
+      const generated = normalizeQuizJson(raw)?.[0];
+      if (!generated) throw new LLMError('改写结果无法解析，请重试', 'parse');
+      const result = applyQuestionRewrite(q, generated, action, docChunks);
+      if ('error' in result) throw new LLMError(result.error, 'parse');
+      const rewritten = result.question;
+      if (action === 'similar') {
+        setHistory(prev => prev.map(b => {
+          if (b.id !== bank!.id) return b;
+          const at = b.questions.findIndex(same);
+          const questions = [...b.questions.slice(0, at + 1), rewritten, ...b.questions.slice(at + 1)];
+          return { ...b, questions, questionCount: questions.length };
+        }));
+        showToast(`已在「${bank!.title}」中添加一道相似题`, 'success');
+      } else {
+        const revision = createRevision(q, rewritten, 'rewrite', 'ai');
+        if (revision) saveRevisions([revision]);
+        replaceQuestionEverywhere(rewritten);
+        // Accuracy on the old version says nothing about the new one
+        setAttemptTally(prev => {
+          const next = { ...prev };
+          delete next[String(q.id)];
+          return next;
+        });
+        showToast(`${QUESTION_REWRITE_LABELS[action]}完成`, 'success');
+      }
+    } catch (err: any) {
+      if (abortController.signal.aborted) return showToast('已取消改写', 'success');
+      console.error('Question rewrite failed', err);
+      showToast(`${QUESTION_REWRITE_LABELS[action]}失败：${describeLLMError(err)}`);
+    } finally {
+      if (rewriteAbortRef.current === abortController) rewriteAbortRef.current = null;
+      setRewritingQuestionId(null);
+    }
+  };
+
+  const renderRewriteMenu = (q: QuizQuestion, bankId?: string, compact?: boolean) => {
+    const id = String(q.id);
+    const busy = rewritingQuestionId === id;
+    const actions = QUESTION_REWRITE_ACTIONS.filter(action => isRewriteApplicable(q, action));
+    // Inside the scrolling bank list the menu unfolds in place instead of floating over the edge
+    return (
+      <span style={{ position: 'relative', display: 'inline-flex', flexDirection: compact ? 'column' : 'row', alignItems: 'flex-end' }}>
+        <button
+          onClick={() => busy ? rewriteAbortRef.current?.abort() : setRewriteMenuId(rewriteMenuId === id ? null : id)}
+          disabled={!!rewritingQuestionId && !busy}
+          title={busy ? '取消改写' : 'AI 改写'}
+          style={compact
+            ? { padding: '2px 8px', borderRadius: '4px', border: '1px solid ' + colors.border, background: colors.surface, color: colors.textSub, cursor: rewritingQuestionId && !busy ? 'wait' : 'pointer', fontSize: '12px' }
+            : { border: 'none', background: 'transparent', cursor: rewritingQuestionId && !busy ? 'wait' : 'pointer', fontSize: busy ? '13px' : '18px', color: colors.textSub, padding: '4px' }}
+        >
+          {busy ? '改写中…（取消）' : (compact ? 'AI 改写' : '✨')}
+        </button>
+        {rewriteMenuId === id && (
+          <div style={{ position: compact ? 'static' : 'absolute', top: '100%', right: 0, marginTop: '4px', zIndex: 50, minWidth: '120px', background: colors.surface, border: '1px solid ' + colors.border, borderRadius: '8px', boxShadow: '0 8px 20px rgba(0,0,0,0.15)', padding: '4px', animation: 'fadeIn 0.15s' }}>
+            {actions.map(action => (
+              <button key={action} onClick={() => handleRewriteQuestion(q, action, bankId)} style={{ display: 'block', width: '100%', textAlign: 'left', padding: '8px 10px', border: 'none', borderRadius: '6px', background: 'transparent', color: colors.textMain, cursor: 'pointer', fontSize: '13px', whiteSpace: 'nowrap' }}>
+                {QUESTION_REWRITE_LABELS[action]}
+              </button>
+            ))}
+          </div>
+        )}
+      </span>
+    );
+  };
+
+  // --- Answer Verification Queue ---
+  const disputedQuestions: { question: QuizQuestion; bankTitle: string }[] = useMemo(() => {
+    const seen = new Set<string>();
+    const list: { question: QuizQuestion; bankTitle: string }[] = [];
+    history.forEach((bank: QuizBank) => bank.questions.forEach(q => {
+      if (!isDisputed(q) || seen.has(String(q.id))) return;
+      seen.add(String(q.id));
+      list.push({ question: q, bankTitle: bank.title });
+    }));
+    return list;
+  }, [history]);
+
+  const handleKeepGeneratedAnswer = (q: QuizQuestion) => {
+    const updated: QuizQuestion = { ...q, verification: { ...q.verification!, status: 'resolved', resolvedAt: new Date().toISOString() } };
+    const revision = createRevision(q, updated, 'confirm', 'user');
+    if (revision) saveRevisions([revision]);
+    replaceQuestionEverywhere(updated);
+    showToast('已确认原答案', 'success');
+  };
+
+  const handleAdoptVerifierAnswer = (q: QuizQuestion) => {
+    const updated = adoptVerifierAnswer(q);
+    const revision = createRevision(q, updated, 'verify', 'ai');
+    if (revision) saveRevisions([revision]);
+    replaceQuestionEverywhere(updated);
+    showToast('已改用复核答案', 'success');
+  };
+
+  const renderVerifyQueue = () => {
+    const boxStyle = { flex: 1, padding: '10px 12px', borderRadius: '8px', fontSize: '13px', lineHeight: 1.6, whiteSpace: 'pre-wrap' as const };
+    return (
+      <div style={{ maxWidth: '800px', margin: '40px auto', padding: '20px' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '30px' }}>
+          <h1 style={{ margin: 0, color: colors.textMain }}>待核对（{disputedQuestions.length}）</h1>
+          <button onClick={() => navigateTo('home')} style={{ background: theme === 'dark' ? '#334155' : '#e5e7eb', border: 'none', color: colors.textMain, padding: '8px 16px', borderRadius: '8px', cursor: 'pointer' }}>返回</button>
+        </div>
+        <p style={{ fontSize: '13px', color: colors.textSub, marginTop: 0 }}>以下题目的答案与模型独立复核的结果不一致。核对前它们不会出现在考试模式中。</p>
+        {disputedQuestions.length === 0 ? (
+          <div style={{ textAlign: 'center', padding: '40px', color: colors.textSub }}>没有待核对的题目。</div>
+        ) : disputedQuestions.map(({ question: q, bankTitle }) => {
+          const v = q.verification!;
+          return (
+            <div key={q.id} style={{ background: colors.surface, padding: '20px', borderRadius: '12px', border: '1px solid ' + colors.border, marginBottom: '16px' }}>
+              <div style={{ fontSize: '12px', color: colors.textSub, marginBottom: '6px' }}>{QUESTION_TYPE_LABELS[q.type] || '单选'}题 · {bankTitle}</div>
+              <h3 style={{ marginTop: 0, color: colors.textMain, fontSize: '16px', lineHeight: 1.6 }}>{q.stem}</h3>
+              {q.options.length > 0 && (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', marginBottom: '12px' }}>
+                  {q.options.map((opt, idx) => (
+                    <div key={opt.id} style={{ display: 'flex', gap: '8px', fontSize: '14px', color: colors.textMain }}>
+                      <span style={{ fontWeight: 'bold', minWidth: '20px' }}>{optionBadge(q, idx)}.</span>
+                      <span style={{ flex: 1 }}>{opt.text}</span>
+                      {q.answerIds.includes(opt.id) && <span style={{ fontSize: '12px', color: colors.successText }}>原答案</span>}
+                      {v.verifierAnswer.includes(opt.id) && <span style={{ fontSize: '12px', color: '#f59e0b' }}>复核答案</span>}
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div style={{ display: 'flex', gap: '10px', marginBottom: '12px', flexWrap: 'wrap' }}>
+                <div style={{ ...boxStyle, background: colors.successBg, color: colors.successText }}>
+                  <b>原答案：{formatCorrectAnswer(q)}</b>
+                  {v.generatorRationale && <div>{v.generatorRationale}</div>}
+                </div>
+                <div style={{ ...boxStyle, background: theme === 'dark' ? '#78350f' : '#fef3c7', color: theme === 'dark' ? '#fde68a' : '#92400e' }}>
+                  <b>复核答案：{formatVerifierAnswer(q)}</b>
+                  {v.verifierRationale && <div>{v.verifierRationale}</div>}
+                  <div style={{ fontSize: '11px', opacity: 0.8, marginTop: '4px' }}>复核模型：{v.verifier}</div>
+                </div>
+              </div>
+              <div style={{ display: 'flex', gap: '8px', justifyContent: 'flex-end', flexWrap: 'wrap' }}>
+                <button onClick={() => openQuestionEditor(q)} style={{ padding: '6px 12px', borderRadius: '6px', border: '1px solid ' + colors.border, background: colors.surface, color: colors.textSub, cursor: 'pointer', fontSize: '13px' }}>手动修改</button>
+                <button onClick={() => handleKeepGeneratedAnswer(q)} style={{ padding: '6px 12px', borderRadius: '6px', border: '1px solid ' + colors.primary, background: 'transparent', color: colors.primary, cursor: 'pointer', fontSize: '13px' }}>原答案正确</button>
+                <button onClick={() => handleAdoptVerifierAnswer(q)} style={{ padding: '6px 12px', borderRadius: '6px', border: 'none', background: colors.primary, color: 'white', cursor: 'pointer', fontSize: '13px' }}>采用复核答案</button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  // --- Revision History ---
+  const findQuestionById = (id: string): QuizQuestion | undefined => {
+    const same = (q: QuizQuestion) => String(q.id) === id;
+    for (const bank of history) {
+      const found = bank.questions.find(same);
+      if (found) return found;
+    }
+    return favorites.find(f => same(f.question))?.question ?? mistakes.find(m => same(m.question))?.question;
+  };
+
+  const openRevisionViewer = async (questionId: string) => {
+    const all = await loadRevisions();
+    setRevisionViewer({ questionId, revisions: collectQuestionRevisions(all, questionId) });
+  };
+
+  const handleRevertQuestion = (revision: QuestionRevision) => {
+    if (!revisionViewer) return;
+    const current = findQuestionById(revisionViewer.questionId);
+    if (!current) return showToast('找不到这道题，所在题库可能已被删除');
+    // The content goes back; the id stays so favorites, mistakes and progress keep pointing at it
+    const target: QuizQuestion = { ...revision.before, id: current.id };
+    const revert = createRevision(current, target, 'revert', 'user');
+    if (!revert) return showToast('题目已经是这个版本', 'success');
+    saveRevisions([revert]);
+    replaceQuestionEverywhere(target);
+    setRevisionViewer(prev => prev && { ...prev, revisions: [revert, ...prev.revisions] });
+    showToast('已恢复到这次修改之前的版本', 'success');
+  };
+
+  // Moves favorites, mistakes, metadata, review cards and saved sessions from the batch's ids
+  // back to the restored questions; where the original already has its own entry, that one wins
+  const repointQuestionRefs = async (idMap: Record<string, string>, originals: Map<string, QuizQuestion>) => {
+    if (Object.keys(idMap).length === 0) return;
+    const repointItems = <T extends { id: string; question: QuizQuestion },>(items: T[]): T[] => {
+      const taken = new Set(items.filter(item => !idMap[item.id]).map(item => item.id));
+      return items.flatMap(item => {
+        const to = idMap[item.id];
+        if (!to) return [item];
+        if (taken.has(to)) return [];
+        taken.add(to);
+        return [{ ...item, id: to, question: originals.get(to) ?? { ...item.question, id: to } }];
+      });
+    };
+    setFavorites(prev => repointItems(prev));
+    setMistakes(prev => repointItems(prev));
+    setMistakeTrash(prev => repointItems(prev));
+    setQuestionMetaMap(prev => {
+      const next = { ...prev };
+      Object.entries(idMap).forEach(([from, to]) => {
+        if (!next[from]) return;
+        if (!next[to]) next[to] = { ...next[from], id: to };
+        delete next[from];
+      });
+      return next;
+    });
+
+    const cards: Record<string, ReviewCard> = { ...reviewCards };
+    Object.entries(idMap).forEach(([from, to]) => {
+      const card = cards[from];
+      if (!card) return;
+      delete cards[from];
+      idbDelete('reviews', from).catch(e => console.warn('Failed to delete review card', e));
+      if (!cards[to]) {
+        cards[to] = { ...card, id: to };
+        saveReviewCard(cards[to]);
+      }
+    });
+    setReviewCards(cards);
+
+    const all = await loadAllProgress();
+    const updates: StoredQuizProgressMap = {};
+    Object.entries(all).forEach(([key, progress]) => {
+      if (!progress.questionIds.some(id => idMap[id])) return;
+      updates[key] = repointProgress(progress, idMap);
+      saveProgress(key, updates[key]);
+    });
+    if (Object.keys(updates).length > 0) setProgressMap(prev => ({ ...prev, ...updates }));
+  };
+
+  const handleRevertBatch = async (batch: RevisionBatch) => {
+    const idMap = batchIdMap(await loadRevisions(), batch.id);
+    const originals = new Map(batch.removedBanks.flatMap(b => b.questions).map(q => [String(q.id), q] as [string, QuizQuestion]));
+    setHistory(prev => {
+      const kept = prev.filter(b => !batch.createdBankIds.includes(b.id));
+      const restored = batch.removedBanks.filter(b => !kept.some(k => k.id === b.id));
+      return [...restored, ...kept];
+    });
+    const reverted: RevisionBatch = { ...batch, revertedAt: new Date().toISOString() };
+    saveRevisionBatch(reverted);
+    setRevisionBatches(prev => prev.map(b => b.id === batch.id ? reverted : b));
+    setPendingRevertBatchId(null);
+    await repointQuestionRefs(idMap, originals);
+    showToast(`已撤销「${batch.label}」`, 'success');
+  };
+
+  const renderRevisionViewer = () => {
+    if (!revisionViewer) return null;
+    const { revisions } = revisionViewer;
+    const valueStyle = { flex: 1, padding: '6px 8px', borderRadius: '6px', fontSize: '12px', whiteSpace: 'pre-wrap' as const, lineHeight: 1.5, wordBreak: 'break-word' as const };
+
+    return (
+      <div style={{ position: 'fixed', inset: 0, zIndex: 10000, display: 'flex', alignItems: 'center', justifyContent: 'center', backgroundColor: 'rgba(0,0,0,0.5)' }}>
+        <div style={{ width: '92%', maxWidth: '720px', maxHeight: '88vh', overflowY: 'auto', backgroundColor: colors.surface, padding: '24px', borderRadius: '16px', boxShadow: '0 10px 25px rgba(0,0,0,0.2)', animation: 'fade-in-up 0.4s cubic-bezier(0.4, 0, 0.2, 1) forwards' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '16px' }}>
+            <h3 style={{ margin: 0, fontSize: '18px', fontWeight: 'bold', color: colors.textMain }}>修改记录</h3>
+            <button onClick={() => setRevisionViewer(null)} style={{ padding: '6px 14px', borderRadius: '8px', border: '1px solid ' + colors.border, background: 'transparent', color: colors.textMain, cursor: 'pointer' }}>关闭</button>
+          </div>
+          {revisions.length === 0 ? (
+            <div style={{ fontSize: '14px', color: colors.textSub, textAlign: 'center', padding: '20px' }}>这道题还没有被修改过。</div>
+          ) : revisions.map(rev => (
+            <div key={rev.id} style={{ border: '1px solid ' + colors.border, borderRadius: '12px', padding: '14px', marginBottom: '12px' }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '10px', marginBottom: '10px' }}>
+                <div style={{ fontSize: '13px', color: colors.textSub }}>
+                  {new Date(rev.at).toLocaleString()} · {REVISION_SOURCE_LABELS[rev.source]}（{rev.actor === 'ai' ? 'AI' : '手动'}）
+                  <span style={{ color: colors.textMain }}> · 改动：{rev.fields.map(f => REVISION_FIELD_LABELS[f] || f).join('、')}</span>
+                </div>
+                <button onClick={() => handleRevertQuestion(rev)} style={{ flexShrink: 0, padding: '4px 10px', borderRadius: '6px', border: '1px solid ' + colors.primary, background: 'transparent', color: colors.primary, cursor: 'pointer', fontSize: '12px' }}>恢复到修改前</button>
+              </div>
+              {rev.fields.map(field => (
+                <div key={field} style={{ marginBottom: '8px' }}>
+                  <div style={{ fontSize: '12px', fontWeight: 'bold', color: colors.textMain, marginBottom: '4px' }}>{REVISION_FIELD_LABELS[field] || field}</div>
+                  <div style={{ display: 'flex', gap: '8px', alignItems: 'stretch' }}>
+                    <div style={{ ...valueStyle, background: colors.errorBg, color: colors.errorText, textDecoration: 'line-through' }}>{formatRevisionValue(rev.before, field)}</div>
+                    <div style={{ ...valueStyle, background: colors.successBg, color: colors.successText }}>{formatRevisionValue(rev.after, field)}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderQuestionEditor = () => {
+    if (!questionEditor) return null;
+    const { draft } = questionEditor;
+    const errors = validateQuestionDraft(draft);
+    const isChoice = CHOICE_TYPES.includes(draft.type);
+    const inputStyle = { width: '100%', boxSizing: 'border-box' as const, padding: '8px 10px', borderRadius: '8px', border: '1px solid ' + colors.border, background: colors.inputBg, color: colors.textMain, fontSize: '14px', fontFamily: 'inherit' };
+    const labelStyle = { fontSize: '13px', fontWeight: 'bold' as const, color: colors.textMain, display: 'block', margin: '14px 0 6px' };
+
+    const toggleAnswer = (id: string) => updateQuestionDraft(d => ({
+      ...d,
+      answerIds: d.type === 'multiple'
+        ? (d.answerIds.includes(id) ? d.answerIds.filter(a => a !== id) : [...d.answerIds, id])
+        : [id],
+    }));
+
+    return (
+      <div style={{ position: 'fixed', inset: 0, zIndex: 10000, display: 'flex', alignItems: 'center', justifyContent: 'center', backgroundColor: 'rgba(0,0,0,0.5)' }}>
+        <div style={{ width: '92%', maxWidth: '640px', maxHeight: '88vh', overflowY: 'auto', backgroundColor: colors.surface, padding: '24px', borderRadius: '16px', boxShadow: '0 10px 25px rgba(0,0,0,0.2)', animation: 'fade-in-up 0.4s cubic-bezier(0.4, 0, 0.2, 1) forwards' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <h3 style={{ margin: 0, fontSize: '18px', fontWeight: 'bold', color: colors.textMain, display: 'flex', alignItems: 'center', gap: '10px' }}>
+              编辑题目
+              <button onClick={() => { const id = String(questionEditor.original.id); setQuestionEditor(null); openRevisionViewer(id); }} style={{ padding: 0, border: 'none', background: 'transparent', color: colors.primary, cursor: 'pointer', fontSize: '13px', fontWeight: 'normal' }}>修改记录</button>
+            </h3>
+            <select value={draft.type} disabled={!isChoice} onChange={(e) => updateQuestionDraft(d => changeDraftType(d, e.target.value as QuestionType))} style={{ ...inputStyle, width: 'auto' }}>
+              {(isChoice ? CHOICE_TYPES : [draft.type]).map(t => <option key={t} value={t}>{QUESTION_TYPE_LABELS[t]}题</option>)}
+            </select>
+          </div>
+
+          <label style={labelStyle}>题干</label>
+          <textarea value={draft.stem} rows={3} onChange={(e) => { const stem = e.target.value; updateQuestionDraft(d => ({ ...d, stem })); }} style={{ ...inputStyle, resize: 'vertical' }} />
+
+          {isChoice && (
+            <>
+              <label style={labelStyle}>选项（勾选正确答案）</label>
+              {draft.options.map((opt, idx) => (
+                <div key={opt.id} style={{ marginBottom: '10px' }}>
+                  <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+                    <input type={draft.type === 'multiple' ? 'checkbox' : 'radio'} name="question-editor-answer" checked={draft.answerIds.includes(opt.id)} onChange={() => toggleAnswer(opt.id)} style={{ cursor: 'pointer' }} />
+                    <span style={{ fontWeight: 'bold', minWidth: '18px', color: colors.textMain }}>{draft.type === 'truefalse' ? (opt.id === 'T' ? '✓' : '✗') : indexToLetter(idx)}</span>
+                    <input value={opt.text} disabled={draft.type === 'truefalse'} onChange={(e) => { const text = e.target.value; updateQuestionDraft(d => ({ ...d, options: d.options.map(o => o.id === opt.id ? { ...o, text } : o) })); }} style={inputStyle} />
+                    {draft.type !== 'truefalse' && (
+                      <button onClick={() => updateQuestionDraft(d => ({ ...d, options: d.options.filter(o => o.id !== opt.id), answerIds: d.answerIds.filter(a => a !== opt.id) }))} title="删除选项" style={{ border: 'none', background: 'transparent', color: '#ef4444', cursor: 'pointer', fontSize: '16px' }}>×</button>
+                    )}
+                  </div>
+                  <input value={draft.optionAnalyses[opt.id] || ''} placeholder="该选项的解析（可选）" onChange={(e) => { const text = e.target.value; updateQuestionDraft(d => ({ ...d, optionAnalyses: { ...d.optionAnalyses, [opt.id]: text } })); }} style={{ ...inputStyle, marginTop: '4px', marginLeft: '48px', width: 'calc(100% - 48px)', fontSize: '12px' }} />
+                </div>
+              ))}
+              {draft.type !== 'truefalse' && (
+                <button onClick={() => updateQuestionDraft(d => ({ ...d, options: [...d.options, { id: nextOptionId(d.options), text: '' }] }))} style={{ padding: '6px 12px', borderRadius: '8px', border: '1px dashed ' + colors.border, background: 'transparent', color: colors.textSub, cursor: 'pointer', fontSize: '13px' }}>+ 添加选项</button>
+              )}
+            </>
+          )}
+
+          {draft.type === 'blank' && (
+            <>
+              <label style={labelStyle}>各空答案（同义答案用 | 分隔）</label>
+              {draft.blanksText.map((text, idx) => (
+                <div key={idx} style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '8px' }}>
+                  <span style={{ fontSize: '13px', color: colors.textSub, minWidth: '42px' }}>第 {idx + 1} 空</span>
+                  <input value={text} onChange={(e) => { const value = e.target.value; updateQuestionDraft(d => ({ ...d, blanksText: d.blanksText.map((t, i) => i === idx ? value : t) })); }} style={inputStyle} />
+                  <button onClick={() => updateQuestionDraft(d => ({ ...d, blanksText: d.blanksText.filter((_, i) => i !== idx) }))} title="删除此空" style={{ border: 'none', background: 'transparent', color: '#ef4444', cursor: 'pointer', fontSize: '16px' }}>×</button>
+                </div>
+              ))}
+              <button onClick={() => updateQuestionDraft(d => ({ ...d, blanksText: [...d.blanksText, ''] }))} style={{ padding: '6px 12px', borderRadius: '8px', border: '1px dashed ' + colors.border, background: 'transparent', color: colors.textSub, cursor: 'pointer', fontSize: '13px' }}>+ 添加空</button>
+              <div style={{ fontSize: '12px', color: colors.textSub, marginTop: '6px' }}>题干中用 ____ 标出每个空，顺序与上面的答案一致</div>
+            </>
+          )}
+
+          {draft.type === 'essay' && (
+            <>
+              <label style={labelStyle}>参考答案</label>
+              <textarea value={draft.referenceAnswer} rows={4} onChange={(e) => { const referenceAnswer = e.target.value; updateQuestionDraft(d => ({ ...d, referenceAnswer })); }} style={{ ...inputStyle, resize: 'vertical' }} />
+            </>
+          )}
+
+          <label style={labelStyle}>核心概念</label>
+          <textarea value={draft.coreConcept} rows={2} onChange={(e) => { const coreConcept = e.target.value; updateQuestionDraft(d => ({ ...d, coreConcept })); }} style={{ ...inputStyle, resize: 'vertical' }} />
+
+          <label style={labelStyle}>拓展案例（每行一个）</label>
+          <textarea value={draft.extendedCasesText} rows={3} onChange={(e) => { const extendedCasesText = e.target.value; updateQuestionDraft(d => ({ ...d, extendedCasesText })); }} style={{ ...inputStyle, resize: 'vertical' }} />
+
+          {errors.length > 0 && (
+            <ul style={{ margin: '14px 0 0', paddingLeft: '20px', fontSize: '13px', color: '#ef4444' }}>
+              {errors.map(err => <li key={err}>{err}</li>)}
+            </ul>
+          )}
+          <p style={{ fontSize: '12px', color: colors.textSub, margin: '14px 0 0' }}>保存后会同步更新所有题库、收藏和错题本中的这道题。</p>
+
+          <div style={{ display: 'flex', gap: '10px', justifyContent: 'flex-end', marginTop: '16px' }}>
+            <button onClick={() => setQuestionEditor(null)} style={{ padding: '8px 16px', borderRadius: '8px', border: '1px solid ' + colors.border, background: 'transparent', color: colors.textMain, cursor: 'pointer' }}>取消</button>
+            <button onClick={handleSaveQuestionEdit} disabled={errors.length > 0} style={{ padding: '8px 16px', borderRadius: '8px', background: errors.length > 0 ? colors.disabled : colors.primary, color: 'white', border: 'none', cursor: errors.length > 0 ? 'not-allowed' : 'pointer' }}>保存</button>
+          </div>
+        </div>
+      </div>
+    );
   };
 
   const handleRemoveFile = (index: number) => {
@@ -3042,53 +6721,132 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
   };
 
   // --- Batch Generation Logic ---
-  const generateQuiz = async (addToBank: boolean = false) => {
-    if (!apiConfig.apiKey) return showToast("请输入 API Key");
+  const documentChunks = useMemo(() => chunkDocuments(uploadedFiles), [uploadedFiles]);
+  const generationPlan: ChunkBatch[] = useMemo(
+    () => planChunkBatches(documentChunks, settings.numQuestions, Math.max(1, Math.min(batchSize, settings.numQuestions))),
+    [documentChunks, settings.numQuestions, batchSize]
+  );
+
+  // Rough upper bound for one generateQuiz run, used by the soft budget check
+  const estimateGenerationCost = () => {
+    const price = modelPrices[apiConfig.model];
+    if (!price) return 0;
+    const outputTokens = speedMode === 'fast' ? 2048 : 4096;
+    // ~1500 tokens of instructions on top of the material in every batch
+    return generationPlan.reduce((sum, batch) => {
+      const contentTokens = estimateTokens(batch.chunks.map(c => c.text).join(''));
+      return sum + ((contentTokens + 1500) * price.input + outputTokens * price.output) / 1_000_000;
+    }, 0);
+  };
+
+  // inBank: started from the bank screen, which shows its own progress card
+  const generateQuiz = async (addToBank: boolean = false, skipBudgetCheck: boolean = false, inBank: boolean = false) => {
+    if (!isApiConfigReady(apiConfig)) return showToast(isApiKeyRequired(apiConfig) ? "请输入 API Key" : "请填写 Base URL 和模型名称");
     if (uploadedFiles.length === 0) return showToast("请先上传文件");
 
+    if (!skipBudgetCheck && dailyBudget > 0) {
+      const entries = await loadUsageEntries();
+      const today = toLocalDay(Date.now());
+      const spentToday = costOfUsage(usageByModelFromEntries(entries.filter(e => e.day === today)), modelPrices).cost;
+      const estimate = estimateGenerationCost();
+      if (spentToday + estimate >= dailyBudget) {
+        setBudgetWarning({ spentToday, estimate, addToBank, inBank });
+        setIsGeneratingInBank(false);
+        return;
+      }
+    }
+
+    setIsGeneratingInBank(inBank);
     setLoading(true);
     setGenerationStage('parsing');
     setCurrentBatchIndex(0);
     setTotalBatches(0);
 
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
+    const allQuestions: QuizQuestion[] = [];
+    let batches = 0;
+    let completedBatches = 0;
+    const providers = buildProviderChain(apiConfig, fallbackChain, apiPresets);
+    const generationFallback = createStickyProviderFallback(providers);
+    const usedProviders: string[] = [];
+    let bankUsage: UsageByModel | undefined;
+
+    // Tags questions with the generation context and wraps them into a bank
+    const buildGeneratedBank = (questions: QuizQuestion[], partial?: QuizBank['partial']): QuizBank => {
+      const genSyllabus = syllabusPresets.find(p => p.id === genSyllabusId);
+      const genBook = genSyllabus?.books.find(b => b.id === genBookId);
+      const genTopic = genBook?.topics.find(t => t.id === genTopicId);
+
+      const enhancedQuestions = questions.map(q => ({
+        ...q,
+        bookTitle: genBook ? genBook.title : q.bookTitle,
+        chapterTitle: genTopic ? genTopic.title : q.chapterTitle,
+        assignedBookId: genBook ? genBook.id : q.assignedBookId,
+        assignedTopicId: genTopic ? genTopic.id : q.assignedTopicId,
+      }));
+
+      // const finalQuiz = shuffleArray(enhancedQuestions); // DISABLED SHUFFLE
+      const finalQuiz = enhancedQuestions;
+
+      let bankTitle = `第 ${history.length + 1} 套题`;
+      if (genSyllabus && genBook) {
+          const parts = [genSyllabus.name, genBook.title, genTopic?.title].filter(Boolean);
+          bankTitle = `${parts.join(' - ')} (${new Date().toLocaleTimeString('zh-CN', {hour:'2-digit', minute:'2-digit'})})`;
+      }
+
+      return {
+        id: Date.now().toString(),
+        title: partial ? `${bankTitle}（部分）` : bankTitle,
+        createdAt: new Date().toISOString(),
+        sourceFiles: uploadedFiles.map(f => f.name),
+        questionCount: finalQuiz.length,
+        questions: finalQuiz,
+        providers: usedProviders.length > 0 ? [...usedProviders] : undefined,
+        usage: bankUsage,
+        ...(partial ? {
+          partial,
+          note: `生成已取消，完成 ${partial.completedBatches}/${partial.totalBatches} 批`
+        } : {})
+      };
+    };
+
     try {
-      let combinedContent = "";
       const fileNames = uploadedFiles.map(f => f.name).join('、');
-      uploadedFiles.forEach((file, idx) => {
-          combinedContent += `\n\n--- Document ${idx + 1}: ${file.name} ---\n${file.content}`;
-      });
-      const MAX_CHARS = 30000; 
-      if (combinedContent.length > MAX_CHARS) {
-          combinedContent = combinedContent.slice(0, MAX_CHARS) + "\n...(content truncated due to length limit)...";
-      }
+      const plan = generationPlan;
+      if (plan.length === 0) throw new Error("未能从上传的文件中切分出有效内容");
 
       setGenerationStage('callingModel');
 
       const totalCount = settings.numQuestions;
-      const safeBatchSize = Math.max(1, Math.min(batchSize, totalCount));
-      const batches = Math.ceil(totalCount / safeBatchSize);
+      batches = plan.length;
       setTotalBatches(batches);
 
-      const allQuestions: QuizQuestion[] = [];
       const existingSet = new Set<string>();
       history.forEach(bank => bank.questions.forEach(q => existingSet.add(normalizeQuestionText(q.stem))));
       
       const llmMaxTokens = speedMode === 'fast' ? 2048 : 4096;
+      const MAX_JSON_REASKS = 2;
 
       for (let i = 0; i < batches; i++) {
         const batchIndex = i + 1;
         setCurrentBatchIndex(batchIndex);
 
-        const remaining = totalCount - allQuestions.length;
-        const batchCount = remaining > safeBatchSize ? safeBatchSize : remaining;
+        const batch = plan[i];
+        const batchCount = batch.count;
+        const batchContent = batch.chunks.map(c => {
+          const pages = formatPageRange(c);
+          return `\n\n--- Chunk ${c.index}: ${c.document}${pages ? ` (${pages})` : ''} ---\n${c.text}`;
+        }).join('');
 
         let systemPrompt = `你是一名专业出题老师。
         请根据提供的复习资料，生成 ${batchCount} 道客观题。请严格按照下面的 JSON 结构输出，不要输出 Markdown：
         [
           {
             "id": "唯一ID字符串",
-            "type": "single" 或 "multiple",
+            "type": "single"、"multiple"、"truefalse"、"blank" 或 "essay",
             "question": "题干(简体中文)",
+            "difficulty": "basic"、"advanced" 或 "challenge",
             "options": ["A选项内容", "B选项内容", "C选项内容", "D选项内容"],
             "correctOptions": ["B", "C"],
             
@@ -3104,7 +6862,10 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
                "2025年真实案例2：名称+背景+设计点"
             ],
             
-            "sourceDocument": "来源文件名(必须是提供的文件之一)"
+            "sourceDocument": "来源文件名(必须是提供的文件之一)",
+            "sourceChunk": 出题依据的片段编号(数字),
+            "sourcePage": 出处页码(数字，PDF 资料必填),
+            "sourceExcerpt": "从资料中逐字复制的、能支撑正确答案的原文句子"
           }
         ]
         
@@ -3119,9 +6880,13 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
         let typeInstruction = '';
         if (settings.questionMode === 'single-only') typeInstruction = '本次所有题目必须是单选题（type 固定为 "single"，correctOptions 只包含一个字母）。';
         else if (settings.questionMode === 'multiple-only') typeInstruction = '本次所有题目必须是多选题（type 固定为 "multiple"，每题 correctOptions 至少包含 2 个正确选项）。';
+        else if (settings.questionMode === 'truefalse-only') typeInstruction = '本次所有题目必须是判断题（type 固定为 "truefalse"，options 固定为 ["正确", "错误"]，correctOptions 为 ["正确"] 或 ["错误"]）。题干应为一个可判断对错的陈述句，正确与错误的题目数量大致相当。';
+        else if (settings.questionMode === 'blank-only') typeInstruction = '本次所有题目必须是填空题（type 固定为 "blank"）。题干中用 "____" 标出每个空，不需要 options 和 correctOptions，改为提供 "blanks": [["标准答案", "可接受的同义或等价写法"], ...]，按空在题干中出现的顺序排列，每个空的答案应为简短的术语、人名、年份或数字。';
+        else if (settings.questionMode === 'essay-only') typeInstruction = '本次所有题目必须是简答题或论述题（type 固定为 "essay"）。不需要 options 和 correctOptions，改为提供 "referenceAnswer": "完整的参考答案"，以及 "rubric": [{"point": "得分要点", "score": 分值}, ...]，每题 3-6 个要点，总分 10 分。';
+        else if (settings.questionMode === 'mixed-truefalse') typeInstruction = '本次题目为单选、多选和判断题混合，大约 50% 单选、25% 多选、25% 判断。判断题 type 为 "truefalse"，options 固定为 ["正确", "错误"]，correctOptions 为 ["正确"] 或 ["错误"]。';
         else typeInstruction = '本次题目为单选题和多选题混合，大约 70% 单选、30% 多选。';
 
-        let userContent = `Context:\n${combinedContent}`;
+        let userContent = `Context:\n${batchContent}`;
         
         // NEW: Context Instruction
         const genSyllabus = syllabusPresets.find(p => p.id === genSyllabusId);
@@ -3138,6 +6903,10 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
         }
         
         userContent += `\n\n**TASK (Batch ${batchIndex}/${batches})**:\nGenerate exactly ${batchCount} NEW questions.\n${typeInstruction}`;
+        const difficultyMix = settings.difficulty === 'mixed'
+          ? settings.difficultyMix
+          : { basic: 0, advanced: 0, challenge: 0, [settings.difficulty]: 1 };
+        userContent += `\n${buildDifficultyInstruction(difficultyMix, batchCount)}`;
         userContent += `\n\n本次出题所依据的学习资料文件包括：${fileNames}`;
         userContent += `\n\n请尽量覆盖资料中的不同知识点，避免与之前的题目重复。`;
         
@@ -3149,7 +6918,10 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
         1. "sourceDocument": 必须从上述文件名列表中选择一个最主要的来源，原样拷贝字符串。
         2. "coreConcept": 核心概念界定。
         3. "optionAnalyses": 逐项分析。
-        4. "extendedCases": 必须包含 2024-2025 年前沿案例。`;
+        4. "extendedCases": 必须包含 2024-2025 年前沿案例。
+        5. "sourceChunk": 填写 Context 中 "--- Chunk N ---" 的编号 N，即本题主要依据的片段。
+        6. "sourcePage": 资料中的 "〔第 N 页〕" 标记表示其后内容所在页码，填写支撑答案的原文所在页码 N。
+        7. "sourceExcerpt": 必须从资料中原样复制 1-3 句能证明正确答案的原文，不得改写、概括或翻译。`;
 
         let messages: ChatMessage[] = [];
         if (apiConfig.model.includes("reasoner")) {
@@ -3161,25 +6933,60 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
            ];
         }
 
-        const rawText = await callLLM(apiConfig, messages, { maxTokens: llmMaxTokens });
-        
+        const completedCount = allQuestions.length;
+        const requestOptions: LLMRequestOptions = {
+          maxTokens: llmMaxTokens,
+          signal: abortController.signal,
+          purpose: 'generate',
+          onUsage: (usage, config) => { bankUsage = addUsage(bankUsage, config.model, usage); },
+          onRetry: (attempt, delayMs, error) => {
+            showToast(`第 ${batchIndex} 批请求失败（${LLM_ERROR_CATEGORY_LABELS[error.category]}），${Math.ceil(delayMs / 1000)} 秒后第 ${attempt} 次重试...`);
+          }
+        };
+
         let batchQuestions: QuizQuestion[] = [];
-        try {
-           // Use robust parser instead of manual/flimsy JSON.parse
-           const validArr = normalizeQuizJson(rawText);
-
-           if (!validArr || validArr.length === 0) {
-               console.warn("Parsed JSON has no valid questions array. Raw:", rawText);
-               throw new Error("无法从返回内容中解析出结构，请查看 Console 的 DEBUG 日志");
-           }
-
-           batchQuestions = validArr;
-        } catch (parseErr: any) {
-           console.error(`Batch ${batchIndex} Parse Error`, parseErr);
-           throw new Error(`Batch ${batchIndex} generation failed: ${parseErr.message}`);
+        // If the output can't be parsed, show the model its answer and ask again for valid JSON
+        for (let parseAttempt = 0; ; parseAttempt++) {
+          let lastPreviewAt = 0;
+          setGenerationStream({ receivedChars: 0, reasoningChars: 0, stems: [], completedCount });
+          const { result: rawText, provider } = await generationFallback(config => streamLLMToText(config, messages, requestOptions, (text, reasoning) => {
+            const now = Date.now();
+            if (now - lastPreviewAt < 300) return;
+            lastPreviewAt = now;
+            setGenerationStream({ receivedChars: text.length, reasoningChars: reasoning.length, stems: extractStreamedStems(text), completedCount });
+          }), notifyProviderFallback);
+          if (!usedProviders.includes(provider.label)) usedProviders.push(provider.label);
+
+          // Use robust parser instead of manual/flimsy JSON.parse
+          const validArr = normalizeQuizJson(rawText);
+          if (validArr && validArr.length > 0) {
+            batchQuestions = validArr;
+            break;
+          }
+
+          console.warn(`Batch ${batchIndex} returned no valid questions (attempt ${parseAttempt + 1}). Raw:`, rawText);
+          if (parseAttempt >= MAX_JSON_REASKS) {
+            throw new LLMError(`第 ${batchIndex} 批在 ${MAX_JSON_REASKS + 1} 次尝试后仍无法解析出题目 JSON，请查看 Console 的 DEBUG 日志`, 'parse');
+          }
+          messages = [
+            ...messages,
+            { role: "assistant", content: rawText },
+            { role: "user", content: "上面的输出无法解析为题目 JSON。请严格按照最初要求的 JSON 数组结构重新输出全部题目，只输出 JSON，不要包含 Markdown 代码块或任何解释文字。" }
+          ];
         }
 
-        batchQuestions.forEach((q) => {
+        batchQuestions.forEach((raw) => {
+          const located = raw.sourceExcerpt ? locateExcerpt(batch.chunks, raw.sourceExcerpt) : null;
+          const sourceChunk = located
+            ? { document: located.chunk.document, chunkIndex: located.chunk.index, pageStart: located.chunk.pageStart, pageEnd: located.chunk.pageEnd }
+            : resolveSourceChunk(raw, batch);
+          const q = {
+            ...raw,
+            sourceChunk,
+            sourceDocument: located ? located.chunk.document : (raw.sourceDocument || sourceChunk.document),
+            sourcePage: located?.page ?? raw.sourcePage,
+            sourceExcerptVerified: raw.sourceExcerpt ? !!located : undefined,
+          };
           const key = normalizeQuestionText(q.stem);
           if (!existingSet.has(key)) {
             existingSet.add(key);
@@ -3187,60 +6994,110 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
           }
         });
 
+        completedBatches = batchIndex;
+        setGenerationStream(prev => prev && { ...prev, stems: [], completedCount: allQuestions.length });
         if (allQuestions.length >= totalCount) break;
       }
 
+      if (settings.verifyAnswers) {
+        setGenerationStage('verifying');
+        const verifierPreset = apiPresets.find((p: ApiConfigHistoryItem) => p.id === settings.verifyPresetId);
+        const verifierProviders = verifierPreset && isApiConfigReady(presetToApiConfig(verifierPreset))
+          ? buildProviderChain(presetToApiConfig(verifierPreset), fallbackChain, apiPresets)
+          : providers;
+        const verifierFallback = createStickyProviderFallback(verifierProviders);
+        const targets = allQuestions.map((q, i) => ({ q, i })).filter(({ q }) => VERIFIABLE_TYPES.includes(q.type));
+        setTotalBatches(targets.length);
+        let failed = 0;
+        for (let n = 0; n < targets.length; n++) {
+          setCurrentBatchIndex(n + 1);
+          const { q, i } = targets[n];
+          try {
+            const { result: raw, provider } = await verifierFallback(config => callLLM(config, [{ role: 'user', content: buildVerificationPrompt(q) }], {
+              signal: abortController.signal,
+              purpose: 'verify',
+              temperature: 0,
+              onUsage: (usage, usedConfig) => { bankUsage = addUsage(bankUsage, usedConfig.model, usage); },
+            }), notifyProviderFallback);
+            const solution = parseVerificationResponse(raw, q);
+            if (!solution) throw new LLMError('复核结果无法解析', 'parse');
+            allQuestions[i] = applyVerification(q, solution, provider.label);
+          } catch (err: any) {
+            if (abortController.signal.aborted) throw err;
+            // A failed check only loses the check; the question itself is kept
+            console.warn(`Verification of question ${n + 1} failed`, err);
+            failed++;
+          }
+        }
+        if (failed > 0) showToast(`有 ${failed} 道题的答案复核失败，已跳过`);
+      }
+
       setGenerationStage('postProcessing');
 
       if (allQuestions.length === 0) throw new Error("生成的题目与题库完全重复或生成失败！");
 
-      // NEW: Enhance Questions with ID tags and construct title
-      const genSyllabus = syllabusPresets.find(p => p.id === genSyllabusId);
-      const genBook = genSyllabus?.books.find(b => b.id === genBookId);
-      const genTopic = genBook?.topics.find(t => t.id === genTopicId);
-
-      const enhancedQuestions = allQuestions.map(q => ({
-        ...q,
-        bookTitle: genBook ? genBook.title : q.bookTitle,
-        chapterTitle: genTopic ? genTopic.title : q.chapterTitle,
-        assignedBookId: genBook ? genBook.id : q.assignedBookId,
-        assignedTopicId: genTopic ? genTopic.id : q.assignedTopicId,
-      }));
-
-      // const finalQuiz = shuffleArray(enhancedQuestions); // DISABLED SHUFFLE
-      const finalQuiz = enhancedQuestions;
-      
-      let bankTitle = `第 ${history.length + 1} 套题`;
-      if (genSyllabus && genBook) {
-          const parts = [genSyllabus.name, genBook.title, genTopic?.title].filter(Boolean);
-          bankTitle = `${parts.join(' - ')} (${new Date().toLocaleTimeString('zh-CN', {hour:'2-digit', minute:'2-digit'})})`;
-      }
-
-      const newBank: QuizBank = {
-        id: Date.now().toString(),
-        title: bankTitle,
-        createdAt: new Date().toISOString(),
-        sourceFiles: uploadedFiles.map(f => f.name),
-        questionCount: finalQuiz.length,
-        questions: finalQuiz
-      };
+      const newBank = buildGeneratedBank(allQuestions);
 
       setHistory(prev => [newBank, ...prev]);
       setChatMessages([]); 
-      showToast("题目生成成功，已添加到题库列表", "success");
+      const disputedCount = allQuestions.filter(isDisputed).length;
+      showToast(disputedCount > 0 ? `题目生成成功，其中 ${disputedCount} 道题的答案与复核结果不一致，已加入待核对` : "题目生成成功，已添加到题库列表", "success");
 
     } catch (err: any) {
-      showToast(err.message);
+      if (abortController.signal.aborted) {
+        if (allQuestions.length > 0) {
+          setPendingPartialBank(buildGeneratedBank([...allQuestions], { completedBatches, totalBatches: batches }));
+        } else {
+          showToast("已取消生成", "success");
+        }
+      } else {
+        console.error('Quiz generation failed', err);
+        showToast(describeLLMError(err));
+      }
     } finally {
+      if (generationAbortRef.current === abortController) generationAbortRef.current = null;
+      setIsCancellingGeneration(false);
       setLoading(false);
       setGenerationStage('idle');
       setCurrentBatchIndex(0);
       setTotalBatches(0);
+      setGenerationStream(null);
       // 如果是后台生成题库，关闭生成进度弹窗
       setIsGeneratingInBank(false);
     }
   };
 
+  const handleConfirmOverBudget = async () => {
+    if (!budgetWarning) return;
+    const { addToBank, inBank } = budgetWarning;
+    setBudgetWarning(null);
+    await generateQuiz(addToBank, true, inBank);
+  };
+
+  const updateModelPrice = (model: string, field: keyof ModelPrice, value: string) => {
+    const n = parseFloat(value);
+    setModelPrices(prev => {
+      const current = prev[model] || { input: 0, output: 0 };
+      return { ...prev, [model]: { ...current, [field]: Number.isNaN(n) || n < 0 ? 0 : n } };
+    });
+  };
+
+  const handleCancelGeneration = () => {
+    if (!generationAbortRef.current) {
+      setIsGeneratingInBank(false);
+      return;
+    }
+    setIsCancellingGeneration(true);
+    generationAbortRef.current.abort();
+  };
+
+  const handleSavePartialBank = () => {
+    if (!pendingPartialBank) return;
+    setHistory(prev => [pendingPartialBank, ...prev]);
+    showToast(`已保存 ${pendingPartialBank.questionCount} 道已生成的题目`, "success");
+    setPendingPartialBank(null);
+  };
+
   const handleSelectOption = (letter: string) => {
     if (quizSettings.mode === 'review') return;
     const currentQ = quizData[currentQIndex];
@@ -3258,20 +7115,103 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
   const submitAnswer = (selected: string[]) => {
     if (quizSettings.mode === 'review') return;
     const currentQ = quizData[currentQIndex];
-    if (selected.length === 0) return showToast("请至少选择一个选项", "error");
+    if (currentQ.type === 'blank') {
+      if ((currentQ.blanks || []).some((_, i) => !(selected[i] || '').trim())) return showToast("请填写所有空", "error");
+    } else if (selected.length === 0) return showToast("请至少选择一个选项", "error");
+
+    if (currentQ.type === 'essay') {
+      if (!(selected[0] || '').trim()) return showToast("请先写下你的答案", "error");
+      void submitEssayAnswer(currentQ, selected[0]);
+      return;
+    }
 
     const isCorrect = checkAnswerIsCorrect(currentQ, selected);
+    const score = scoreChoiceAnswer(currentQ, selected, quizSettings.scoringScheme, quizSettings.weightedPoints, quizPointsById);
     // Updated structure for storing answers
-    setUserAnswers(prev => ({ ...prev, [currentQ.id]: { answerIds: selected, isCorrect, selected } }));
+    commitAnswer(currentQ, selected, { answerIds: selected, isCorrect, selected, score, maxScore: questionPoints(currentQ, quizSettings.weightedPoints, quizPointsById) });
+  };
+
+  // Resolves with the committed answer, or null when grading failed or its session was closed
+  const submitEssayAnswer = (currentQ: QuizQuestion, text: string): Promise<StoredQuizAnswer | null> => {
+    const startedIn = { sessionKey, index: currentQIndex };
+    const seconds = questionTimes[currentQ.id] || 0;
+    const controller = new AbortController();
+    const isCurrent = () => essayGradingRef.current?.controller === controller;
+    essayGradingRef.current?.controller.abort();
+    const pending = { sessionKey, questionId: String(currentQ.id), controller, done: Promise.resolve<StoredQuizAnswer | null>(null) };
+    essayGradingRef.current = pending;
+    setIsGradingEssay(true);
+    pending.done = (async () => {
+      try {
+        const maxScore = essayMaxScore(currentQ);
+        const providers = buildProviderChain(apiConfig, fallbackChain, apiPresets);
+        const { result: raw } = await runWithProviderFallback(providers, config => callLLM(config, [{ role: 'user', content: buildEssayGradingPrompt(currentQ, text) }], { purpose: 'grade', temperature: 0, signal: controller.signal }), notifyProviderFallback);
+        if (!isCurrent() || quizPositionRef.current.sessionKey !== startedIn.sessionKey) return null;
+        const grading = normalizeEssayGrading(raw, maxScore);
+        if (!grading) throw new LLMError('评分结果无法解析，请重试', 'parse');
+        const isCorrect = grading.score / grading.maxScore >= ESSAY_PASS_RATIO;
+        const points = questionPoints(currentQ, quizSettings.weightedPoints, quizPointsById);
+        const score = roundPoints(grading.score / grading.maxScore * points);
+        const answer: StoredQuizAnswer = { answerIds: [text], isCorrect, selected: [text], grading, score, maxScore: points };
+        // Only move on if the user is still looking at the graded question
+        commitAnswer(currentQ, [text], answer, quizPositionRef.current.index === startedIn.index, seconds);
+        return answer;
+      } catch (err: any) {
+        if (!isCurrent()) return null;
+        console.error('Essay grading failed', err);
+        showToast(`AI 评分失败：${describeLLMError(err)}`);
+        return null;
+      } finally {
+        if (isCurrent()) {
+          essayGradingRef.current = null;
+          setIsGradingEssay(false);
+        }
+      }
+    })();
+    return pending.done;
+  };
+
+  // Stores an answer, files it into the mistake book when wrong and moves on per the quiz settings
+  const commitAnswer = (currentQ: QuizQuestion, selected: string[], answer: StoredQuizAnswer, advance = true, seconds = questionTimes[currentQ.id] || 0) => {
+    const isCorrect = answer.isCorrect;
+    setUserAnswers(prev => ({ ...prev, [currentQ.id]: answer }));
     setTempSelection([]);
 
     if (!isCorrect) {
       setMistakes(prev => prev.find(m => m.id === currentQ.id) ? prev : [
-        { id: currentQ.id as string, question: currentQ, userAnswer: selected, addedAt: new Date().toISOString() },
+        { id: currentQ.id as string, question: currentQ, userAnswer: selected, partial: isPartialAnswer(answer) || undefined, addedAt: new Date().toISOString() },
         ...prev
       ]);
     }
 
+    setAttemptTally(prev => {
+      const entry = prev[String(currentQ.id)] ?? { attempts: 0, correct: 0 };
+      return { ...prev, [String(currentQ.id)]: { attempts: entry.attempts + 1, correct: entry.correct + (isCorrect ? 1 : 0) } };
+    });
+
+    recordAttempt({
+      questionId: String(currentQ.id),
+      sessionKey,
+      questionType: currentQ.type || 'single',
+      selected,
+      isCorrect,
+      score: answer.score,
+      maxScore: answer.maxScore,
+      seconds,
+      at: Date.now(),
+      mode: quizSettings.mode,
+    });
+
+    const card = scheduleReview(reviewCards[currentQ.id], String(currentQ.id), answerQuality(answer), Date.now());
+    setReviewCards(prev => ({ ...prev, [card.id]: card }));
+    saveReviewCard(card);
+    if (card.streak >= REVIEW_GRADUATE_STREAK && mistakes.some(m => m.id === card.id)) {
+      setMistakes(prev => prev.filter(m => m.id !== card.id));
+      // Don't give away correctness in the middle of an exam
+      if (quizSettings.mode !== 'exam') showToast(`已连续答对 ${card.streak} 次，此题已移出错题本`, 'success');
+    }
+
+    if (!advance) return;
     if (quizSettings.mode === 'exam') {
       setTimeout(() => { if (currentQIndex < quizData.length - 1) { setCurrentQIndex(prev => prev + 1); setTempSelection([]); } }, 300); 
     } else if (quizSettings.mode === 'practice') {
@@ -3282,19 +7222,28 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
     }
   };
 
+  const reviewQueue: ReviewQueueItem[] = useMemo(
+    () => buildReviewQueue(reviewCards, mistakes, favorites, history, toLocalDay(Date.now())),
+    [reviewCards, mistakes, favorites, history]
+  );
+
+  const handleStartDailyReview = () => {
+    if (reviewQueue.length === 0) return showToast("今天没有需要复习的题目", "success");
+    startQuizWithResume({ sessionKey: `review-${toLocalDay(Date.now())}`, questions: reviewQueue.map(item => item.question), title: '今日复习' });
+  };
+
   const handleRetakeMistakes = () => {
     if (mistakes.length === 0) return showToast("没有错题可复习！", "success");
     startQuizWithResume({ sessionKey: 'mistakes-session', questions: prepareOrderedQuestions(mistakes.map(m => m.question)), title: '错题复习' });
   };
 
   const loadHistoryQuiz = (bank: QuizBank) => {
-    startQuizWithResume({ sessionKey: buildBankSessionKey(bank.id), questions: prepareOrderedQuestions([...bank.questions]), title: bank.title });
+    startQuizWithResume({ sessionKey: buildBankSessionKey(bank.id), questions: prepareOrderedQuestions([...bank.questions]), title: bank.title, pointsById: bank.pointsById });
   };
 
   const handleDeleteHistoryBank = (id: string) => {
     const nextHistory = history.filter(h => h.id !== id);
     setHistory(nextHistory);
-    localStorage.setItem(QUIZ_HISTORY_KEY, JSON.stringify(nextHistory));
     showToast("题库已删除", "success");
     if(pendingDeleteBankId === id) setPendingDeleteBankId(null);
   };
@@ -3321,6 +7270,8 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
     const uniqueQuestions = mergedQuestions.map((question, questionIndex) => {
       // 为当前题目生成新ID
       const newQuestionId = `merged_${Date.now()}_${questionIndex}`;
+      // True/false options keep their fixed T/F ids
+      if (question.type === 'truefalse') return { ...question, id: newQuestionId };
       
       // 为每个选项生成新ID
       const newOptions = question.options.map((option, optionIndex) => ({
@@ -3374,6 +7325,20 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
     setTimeout(() => {
       const updatedHistory = history.filter(bank => !selectedBankIds.includes(bank.id));
       setHistory([newBank, ...updatedHistory]);
+
+      // Merging rewrites every question id, so keep what's needed to undo it
+      const batch: RevisionBatch = {
+        id: `batch-${Date.now()}`,
+        at: new Date().toISOString(),
+        label: `合并 ${selectedBanks.length} 个题库`,
+        source: 'merge',
+        removedBanks: selectedBanks,
+        createdBankIds: [newBank.id],
+        createdBanks: [newBank],
+      };
+      saveRevisionBatch(batch);
+      saveRevisions(uniqueQuestions.flatMap((q, i) => createRevision(mergedQuestions[i], q, 'merge', 'user', batch.id) ?? []));
+      setRevisionBatches(prev => [batch, ...prev]);
       
       // 更新任务状态
       setTaskQueue(prev => prev.map(task => 
@@ -3402,7 +7367,7 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
 
     try {
       // 调用generateQuiz生成题目
-      await generateQuiz(true); // 传入addToBank参数
+      await generateQuiz(true, false, true); // 传入addToBank参数
     } catch (error) {
       showToast((error as Error).message || '题目生成失败');
       setIsGeneratingInBank(false);
@@ -3424,7 +7389,51 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
     startQuizWithResume({ sessionKey: `tag:${tagName}`, questions, title: tagName });
   };
 
-  const finishQuiz = () => navigateTo('result');
+  const finishQuiz = async (timedOut: boolean = false) => {
+    if (finishingQuizRef.current) return;
+    finishingQuizRef.current = true;
+    // Said once here: the timer keeps calling in while an essay grade is awaited
+    if (timedOut) showToast('考试时间到，已自动交卷');
+    try {
+      // An essay submitted before handing in still counts once its grade arrives
+      let answers = userAnswers;
+      const grading = essayGradingRef.current;
+      if (grading && grading.sessionKey === sessionKey) {
+        const answer = await grading.done;
+        if (quizPositionRef.current.sessionKey !== sessionKey) return;
+        if (answer) answers = { ...answers, [grading.questionId]: answer };
+      }
+      if (examStartedAt) {
+        const record = buildExamRecord({
+          sessionKey,
+          title: quizTitle || '模拟考试',
+          startedAt: examStartedAt,
+          durationSeconds: examDeadline ? Math.round((examDeadline - examStartedAt) / 1000) : (Number(quizSettings.examDurationMinutes) || 0) * 60,
+          timedOut,
+          scoringScheme: quizSettings.scoringScheme,
+          weightedPoints: quizSettings.weightedPoints,
+          pointsById: quizPointsById,
+          questions: quizData,
+          answers,
+          questionTimes,
+        });
+        saveExamRecord(record);
+        setLastExamRecord(record);
+        setExamStartedAt(null);
+        setExamDeadline(null);
+      }
+      navigateTo('result');
+    } finally {
+      finishingQuizRef.current = false;
+    }
+  };
+
+  // In a locked exam, answered questions can't be revisited
+  const canVisitQuestion = (index: number): boolean => {
+    if (!examStartedAt || !quizSettings.examLockAnswered || index === currentQIndex) return true;
+    const q = quizData[index];
+    return !!q && !userAnswers[q.id];
+  };
 
   const handleChatSend = async (userMsg: string) => {
     updateChatMessages([...chatMessages, { role: "user", content: userMsg }]);
@@ -3433,7 +7442,7 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
       const currentQ = screen === 'quiz' ? quizData[currentQIndex] : null;
       let contextSystem = "You are a helpful AI Tutor. Explain things clearly in Chinese.";
       if (currentQ) {
-        contextSystem += ` User is asking about: Q: ${currentQ.stem} Type: ${currentQ.type} Options: ${currentQ.options.map(o=>o.id+'.'+o.text).join(', ')} Correct Answer: ${currentQ.answerIds.join(', ')} Explanation: ${currentQ.analysis || currentQ.coreConcept}`;
+        contextSystem += ` User is asking about: Q: ${currentQ.stem} Type: ${currentQ.type} Options: ${currentQ.options.map(o=>o.id+'.'+o.text).join(', ')} Correct Answer: ${formatCorrectAnswer(currentQ)} Explanation: ${currentQ.analysis || currentQ.coreConcept}`;
       }
       let messages: ChatMessage[] = [];
       if (apiConfig.model.includes("reasoner")) {
@@ -3442,10 +7451,20 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
       } else {
         messages = [{ role: "system", content: contextSystem }, ...chatMessages.map(m => ({role: m.role as any, content: m.content})), { role: "user", content: userMsg }];
       }
-      const content = await callLLM(apiConfig, messages);
-      updateChatMessages([...chatMessages, { role: "user", content: userMsg }, { role: "assistant", content }]);
+      const baseMessages = [...chatMessages, { role: "user", content: userMsg }];
+      const providers = buildProviderChain(apiConfig, fallbackChain, apiPresets);
+      const sessionId = currentSessionId;
+      const chatOptions: LLMRequestOptions = {
+        purpose: 'chat',
+        onUsage: (usage, config) => setChatSessions(prev => prev.map(session =>
+          session.id === sessionId ? { ...session, usage: addUsage(session.usage, config.model, usage) } : session
+        ))
+      };
+      await runWithProviderFallback(providers, config => streamLLMToText(config, messages, chatOptions, (content, reasoning) => {
+        updateChatMessages([...baseMessages, { role: "assistant", content, reasoning: reasoning || undefined }]);
+      }), notifyProviderFallback);
     } catch (err: any) {
-      updateChatMessages([...chatMessages, { role: "user", content: userMsg }, { role: "assistant", content: `出错: ${err.message}` }]);
+      updateChatMessages([...chatMessages, { role: "user", content: userMsg }, { role: "assistant", content: `出错: ${describeLLMError(err)}` }]);
     } finally {
       setChatLoading(false);
     }
@@ -3457,7 +7476,7 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
   };
 
   const renderStepIcon = (step: GenerationStage, current: GenerationStage) => {
-    const stages = ['idle', 'parsing', 'callingModel', 'postProcessing'];
+    const stages = ['idle', 'parsing', 'callingModel', 'verifying', 'postProcessing'];
     const stepIdx = stages.indexOf(step);
     const currentIdx = stages.indexOf(current);
     if (currentIdx > stepIdx) return <div style={{ width: '20px', height: '20px', borderRadius: '50%', background: '#10b981', display: 'flex', alignItems: 'center', justifyContent: 'center' }}><span style={{ color: 'white', fontSize: '12px', fontWeight: 'bold' }}>✔</span></div>;
@@ -3511,6 +7530,22 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
         )}
       </div>
 
+      <div style={{ marginBottom: '15px' }}>
+        <button onClick={handleStartDailyReview} className="floating-btn ios26-card" style={{ width: '100%', padding: '20px 22px', border: 'none', background: theme === 'dark' ? '#064e3b' : '#d1fae5', color: theme === 'dark' ? '#a7f3d0' : '#065f46', cursor: 'pointer', textAlign: 'left', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <div>
+            <div style={{ fontSize: '24px', fontWeight: 'bold' }}>{reviewQueue.length}</div>
+            <div style={{ fontSize: '14px' }}>今日复习</div>
+          </div>
+          <div style={{ fontSize: '12px', textAlign: 'right', lineHeight: 1.6 }}>
+            {(Object.keys(REVIEW_REASON_LABELS) as ReviewReason[]).map(reason => {
+              const count = reviewQueue.filter(item => item.reason === reason).length;
+              return count > 0 ? <div key={reason}>{REVIEW_REASON_LABELS[reason]} {count}</div> : null;
+            })}
+            {reviewQueue.length === 0 && <div>今天的复习已完成</div>}
+          </div>
+        </button>
+      </div>
+
       <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '15px', marginBottom: '15px' }}>
         <button onClick={() => navigateTo('mistakes')} className="floating-btn ios26-card" style={{ padding: '20px', border: 'none', background: theme === 'dark' ? '#7f1d1d' : '#fee2e2', color: theme === 'dark' ? '#fecaca' : '#991b1b', cursor: 'pointer', textAlign: 'left' }}>
           <div style={{ fontSize: '24px', fontWeight: 'bold' }}>{mistakes.length}</div>
@@ -3529,6 +7564,30 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
         </button>
       </div>
 
+      <div style={{ marginBottom: '20px' }}>
+        <button onClick={() => navigateTo('usage')} className="floating-btn ios26-card" style={{ width: '100%', padding: '16px 22px', border: 'none', background: colors.surface, color: colors.textMain, cursor: 'pointer', textAlign: 'left', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <span style={{ fontSize: '14px' }}>模型用量与费用</span>
+          <span style={{ fontSize: '14px', color: colors.textSub }}>
+            今日 {formatCost(costOfUsage(usageByModelFromEntries(usageEntries.filter(e => e.day === toLocalDay(Date.now()))), modelPrices).cost)}
+            {dailyBudget > 0 && ` / 预算 ${formatCost(dailyBudget)}`}
+          </span>
+        </button>
+        {disputedQuestions.length > 0 && (
+          <button onClick={() => navigateTo('verify')} className="floating-btn ios26-card" style={{ width: '100%', marginTop: '12px', padding: '16px 22px', border: 'none', background: theme === 'dark' ? '#78350f' : '#fef3c7', color: theme === 'dark' ? '#fde68a' : '#92400e', cursor: 'pointer', textAlign: 'left', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <span style={{ fontSize: '14px' }}>答案待核对</span>
+            <span style={{ fontSize: '14px', fontWeight: 'bold' }}>{disputedQuestions.length} 题</span>
+          </button>
+        )}
+        <button onClick={() => navigateTo('stats')} className="floating-btn ios26-card" style={{ width: '100%', marginTop: '12px', padding: '16px 22px', border: 'none', background: colors.surface, color: colors.textMain, cursor: 'pointer', textAlign: 'left', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <span style={{ fontSize: '14px' }}>学习统计</span>
+          <span style={{ fontSize: '14px', color: colors.textSub }}>按书目、章节、标签查看正确率与薄弱点</span>
+        </button>
+        <button onClick={openPaperBuilder} className="floating-btn ios26-card" style={{ width: '100%', marginTop: '12px', padding: '16px 22px', border: 'none', background: colors.surface, color: colors.textMain, cursor: 'pointer', textAlign: 'left', display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <span style={{ fontSize: '14px' }}>按蓝图组卷</span>
+          <span style={{ fontSize: '14px', color: colors.textSub }}>{paperTemplates.length > 0 ? `${paperTemplates.length} 个模板` : '从历史题库抽题组成模拟卷'}</span>
+        </button>
+      </div>
+
       <div style={{ background: theme === 'dark' ? '#1e293b' : '#ffffff', padding: '20px', borderRadius: '24px', border: '2px solid ' + (theme === 'dark' ? '#4b5563' : '#d1d5db') + '', boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)', marginBottom: '40px', display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
          <div>
             <h3 style={{ margin: '0 0 5px 0', fontSize: '16px', fontWeight: 'bold', color: colors.textMain, display: 'flex', alignItems: 'center', gap: '4px' }}><svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="17 8 12 3 7 8"></polyline><line x1="12" y1="3" x2="12" y2="15"></line></svg> 导入现成题库 (JSON)</h3>
@@ -3540,6 +7599,22 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
          </div>
       </div>
 
+      <div style={{ background: theme === 'dark' ? '#1e293b' : '#ffffff', padding: '20px', borderRadius: '24px', border: '2px solid ' + (theme === 'dark' ? '#4b5563' : '#d1d5db') + '', boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)', marginBottom: '40px' }}>
+         <h3 style={{ margin: '0 0 5px 0', fontSize: '16px', fontWeight: 'bold', color: colors.textMain }}>工作区备份与恢复</h3>
+         <p style={{ margin: '0 0 14px 0', fontSize: '12px', color: colors.textSub }}>将题库、错题、收藏、标签、大纲、API 配置和答题进度打包成一个文件，可在其他浏览器中恢复</p>
+         <div style={{ display: 'flex', alignItems: 'center', gap: '10px', flexWrap: 'wrap' }}>
+            <button onClick={handleExportWorkspace} className="ios26-btn" style={{ padding: '10px 18px', background: colors.primary, color: 'white', border: 'none', cursor: 'pointer', fontSize: '14px', fontWeight: '600' }}>导出备份</button>
+            <div style={{ position: 'relative', overflow: 'hidden', display: 'inline-block' }}>
+               <button className="ios26-btn" style={{ padding: '10px 18px', background: colors.surface, color: colors.textMain, border: '1px solid ' + colors.border, cursor: 'pointer', fontSize: '14px', fontWeight: '600' }}>导入备份...</button>
+               <input type="file" accept=".json" onChange={handleSelectWorkspaceArchive} style={{ position: 'absolute', left: 0, top: 0, opacity: 0, width: '100%', height: '100%', cursor: 'pointer' }} />
+            </div>
+            <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', color: colors.textSub, cursor: 'pointer' }}>
+               <input type="checkbox" checked={includeApiKeysInBackup} onChange={e => setIncludeApiKeysInBackup(e.target.checked)} />
+               导出时包含 API Key
+            </label>
+         </div>
+      </div>
+
       <div style={{ background: theme === 'dark' ? '#1e293b' : '#ffffff', padding: '20px', borderRadius: '24px', border: '2px solid ' + (theme === 'dark' ? '#4b5563' : '#d1d5db') + '', boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)', marginBottom: '40px' }}>
         <h3 style={{ marginTop: 0, marginBottom: '20px', color: colors.textMain, fontSize: '18px', fontWeight: '700', display: 'flex', alignItems: 'center', gap: '8px' }}>
   <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -3605,6 +7680,32 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
                 ))}
              </div>
           )}
+          {apiPresets.length > 0 && (
+             <div style={{ marginTop: '14px' }}>
+                <div style={{ fontSize: '13px', color: colors.textSub, marginBottom: '6px' }}>备用模型链：当前配置余额不足、被限流或服务异常时，按顺序自动切换</div>
+                {fallbackChain.map((id, idx) => {
+                   const preset = apiPresets.find(p => p.id === id);
+                   if (!preset) return null;
+                   return (
+                     <div key={id} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', color: colors.textMain, marginBottom: '4px' }}>
+                        <span style={{ color: colors.textSub }}>{idx + 1}.</span>
+                        <span style={{ flex: 1 }}>{preset.name} <span style={{ color: colors.textSub }}>({preset.model})</span></span>
+                        <button onClick={() => handleMoveFallbackEntry(idx, -1)} disabled={idx === 0} style={{ border: 'none', background: 'transparent', color: colors.primary, cursor: 'pointer' }} title="上移">↑</button>
+                        <button onClick={() => handleMoveFallbackEntry(idx, 1)} disabled={idx === fallbackChain.length - 1} style={{ border: 'none', background: 'transparent', color: colors.primary, cursor: 'pointer' }} title="下移">↓</button>
+                        <button onClick={() => handleRemoveFromFallbackChain(id)} style={{ border: 'none', background: 'transparent', color: '#ef4444', cursor: 'pointer' }} title="移除">×</button>
+                     </div>
+                   );
+                })}
+                <select
+                  value=""
+                  onChange={(e) => { if (e.target.value) handleAddToFallbackChain(e.target.value); }}
+                  style={{ width: '100%', padding: '8px 12px', borderRadius: '12px', border: '1px solid ' + colors.border, background: colors.surface, color: colors.textMain, fontSize: '13px' }}
+                >
+                  <option value="" disabled>+ 添加备用配置</option>
+                  {apiPresets.filter(p => !fallbackChain.includes(p.id)).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                </select>
+             </div>
+          )}
         </div>
 
         <div style={{ marginBottom: '20px' }}>
@@ -3618,18 +7719,29 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
           <select value={apiConfig.protocol} onChange={(e) => setApiConfig({...apiConfig, protocol: e.target.value as any})} style={{ width: '100%', padding: '12px 16px', borderRadius: '16px', border: '1px solid ' + colors.border + '', background: colors.surface, color: colors.textMain, backdropFilter: 'blur(10px)' }}>
             <option value="openai-compatible">OpenAI 兼容接口</option>
             <option value="gemini-native">Google Gemini 原生接口</option>
+            <option value="anthropic">Anthropic Messages 接口</option>
+            <option value="ollama">Ollama 原生接口</option>
           </select>
         </div>
         <div style={{ display: 'flex', gap: '16px', marginBottom: '20px' }}>
           <div style={{ flex: 1 }}>
              <label style={{ display: 'block', fontSize: '13px', fontWeight: '600', marginBottom: '8px', color: colors.textSub }}>Base URL</label>
-             <input type="text" value={apiConfig.baseUrl} placeholder={apiConfig.protocol === 'gemini-native' ? "https://generativelanguage.googleapis.com" : "https://api.example.com"} onChange={(e) => setApiConfig({...apiConfig, baseUrl: e.target.value})} style={{ width: '100%', padding: '12px 16px', borderRadius: '16px', border: '1px solid ' + colors.border + '', background: colors.inputBg, color: colors.textMain, backdropFilter: 'blur(10px)' }} />
+             <input type="text" value={apiConfig.baseUrl} placeholder={apiConfig.protocol === 'gemini-native' ? "https://generativelanguage.googleapis.com" : apiConfig.protocol === 'anthropic' ? "https://api.anthropic.com" : apiConfig.protocol === 'ollama' ? "http://localhost:11434" : "https://api.example.com"} onChange={(e) => setApiConfig({...apiConfig, baseUrl: e.target.value})} style={{ width: '100%', padding: '12px 16px', borderRadius: '16px', border: '1px solid ' + colors.border + '', background: colors.inputBg, color: colors.textMain, backdropFilter: 'blur(10px)' }} />
           </div>
           <div style={{ flex: 1 }}>
              <label style={{ display: 'block', fontSize: '13px', fontWeight: '600', marginBottom: '8px', color: colors.textSub }}>模型名称</label>
-             <input type="text" value={apiConfig.model} placeholder={apiConfig.protocol === 'gemini-native' ? "Google AI Studio 模型 ID" : "模型名称 (如 gpt-4o)"} onChange={(e) => setApiConfig({...apiConfig, model: e.target.value})} style={{ width: '100%', padding: '12px 16px', borderRadius: '16px', border: '1px solid ' + colors.border + '', background: colors.inputBg, color: colors.textMain, backdropFilter: 'blur(10px)' }} />
+             <input type="text" list="available-model-options" value={apiConfig.model} placeholder={apiConfig.protocol === 'gemini-native' ? "Google AI Studio 模型 ID" : apiConfig.protocol === 'anthropic' ? "Claude 模型 ID" : "模型名称 (如 gpt-4o)"} onChange={(e) => setApiConfig({...apiConfig, model: e.target.value})} style={{ width: '100%', padding: '12px 16px', borderRadius: '16px', border: '1px solid ' + colors.border + '', background: colors.inputBg, color: colors.textMain, backdropFilter: 'blur(10px)' }} />
+             <datalist id="available-model-options">
+               {availableModels.map(m => <option key={m} value={m} />)}
+             </datalist>
           </div>
         </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '10px', marginTop: '-8px', marginBottom: '20px', flexWrap: 'wrap' }}>
+          <button onClick={handleListModels} disabled={isListingModels} style={{ padding: '8px 14px', borderRadius: '12px', border: '1px solid ' + colors.border, background: colors.surface, color: colors.textMain, cursor: isListingModels ? 'not-allowed' : 'pointer', fontSize: '13px' }}>
+            {isListingModels ? '连接中...' : '测试连接 / 获取模型列表'}
+          </button>
+          {availableModels.length > 0 && <span style={{ fontSize: '12px', color: colors.textSub }}>可在模型名称中选择 {availableModels.length} 个模型</span>}
+        </div>
         {apiConfig.protocol === 'openai-compatible' && (
           <div style={{ marginBottom: '20px' }}>
             <label style={{ display: 'block', fontSize: '13px', fontWeight: '600', marginBottom: '8px', color: colors.textSub }}>自定义接口路径</label>
@@ -3637,8 +7749,8 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
           </div>
         )}
         <div style={{ marginBottom: '20px' }}>
-          <label style={{ display: 'block', fontSize: '13px', fontWeight: '600', marginBottom: '8px', color: colors.textSub }}>API Key</label>
-          <input type="password" value={apiConfig.apiKey} onChange={(e) => setApiConfig({...apiConfig, apiKey: e.target.value})} placeholder="sk-..." style={{ width: '100%', padding: '12px 16px', borderRadius: '16px', border: '1px solid ' + colors.border + '', background: colors.inputBg, color: colors.textMain, backdropFilter: 'blur(10px)' }} />
+          <label style={{ display: 'block', fontSize: '13px', fontWeight: '600', marginBottom: '8px', color: colors.textSub }}>API Key{!isApiKeyRequired(apiConfig) && <span style={{ fontWeight: 'normal' }}>（本地模型可留空）</span>}</label>
+          <input type="password" value={apiConfig.apiKey} onChange={(e) => setApiConfig({...apiConfig, apiKey: e.target.value})} placeholder={apiConfig.protocol === 'anthropic' ? "sk-ant-..." : "sk-..."} style={{ width: '100%', padding: '12px 16px', borderRadius: '16px', border: '1px solid ' + colors.border + '', background: colors.inputBg, color: colors.textMain, backdropFilter: 'blur(10px)' }} />
         </div>
 
         {/* NEW: Syllabus Context Selection */}
@@ -3793,7 +7905,11 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
               <select value={settings.questionMode} onChange={(e) => setSettings({...settings, questionMode: e.target.value as any})} style={{ width: '100%', padding: '10px', borderRadius: '8px', border: '1px solid ' + colors.border + '', background: colors.inputBg, color: colors.textMain }}>
                 <option value="single-only">仅单选题</option>
                 <option value="multiple-only">仅多选题</option>
+                <option value="truefalse-only">仅判断题</option>
+                <option value="blank-only">仅填空题</option>
+                <option value="essay-only">仅简答 / 论述题</option>
                 <option value="mixed">混合模式</option>
+                <option value="mixed-truefalse">混合模式（含判断题）</option>
               </select>
            </div>
            <div style={{ flex: 1 }}>
@@ -3801,12 +7917,45 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
               <input type="number" min="5" max="200" step="5" value={settings.numQuestions} onChange={(e) => setSettings({...settings, numQuestions: parseInt(e.target.value)})} style={{ width: '100%', padding: '9px', borderRadius: '8px', border: '1px solid ' + colors.border + '', background: colors.inputBg, color: colors.textMain }} />
            </div>
         </div>
+        <div style={{ marginBottom: '15px' }}>
+          <label style={{ display: 'block', fontSize: '12px', fontWeight: '600', marginBottom: '5px', color: colors.textSub }}>题目难度</label>
+          <select value={settings.difficulty} onChange={(e) => setSettings({...settings, difficulty: e.target.value as QuestionDifficulty | 'mixed'})} style={{ width: '100%', padding: '10px', borderRadius: '8px', border: '1px solid ' + colors.border + '', background: colors.inputBg, color: colors.textMain }}>
+            {DIFFICULTY_LEVELS.map(level => <option key={level} value={level}>仅{DIFFICULTY_LABELS[level]}题</option>)}
+            <option value="mixed">按比例混合</option>
+          </select>
+          {settings.difficulty === 'mixed' && (
+            <div style={{ display: 'flex', gap: '10px', marginTop: '8px' }}>
+              {DIFFICULTY_LEVELS.map(level => (
+                <label key={level} style={{ flex: 1, display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', color: colors.textMain }}>
+                  {DIFFICULTY_LABELS[level]}
+                  <input type="number" min={0} max={100} step={5} value={settings.difficultyMix[level]} onChange={(e) => setSettings({...settings, difficultyMix: { ...settings.difficultyMix, [level]: Math.max(0, parseInt(e.target.value) || 0) }})} style={{ width: '100%', padding: '6px 8px', borderRadius: '8px', border: '1px solid ' + colors.border + '', background: colors.inputBg, color: colors.textMain }} />
+                  %
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
         <div style={{ marginBottom: '25px' }}>
           <label style={{ display: 'block', fontSize: '12px', fontWeight: '600', marginBottom: '5px', color: colors.textSub }}>每批生成题量 (建议 8-15)</label>
           <input type="number" min="5" max="30" step="1" value={batchSize} onChange={(e) => saveBatchSize(parseInt(e.target.value))} style={{ width: '100%', padding: '9px', borderRadius: '8px', border: '1px solid ' + colors.border + '', background: colors.inputBg, color: colors.textMain }} />
-          <p style={{ fontSize: '12px', color: colors.textSub, marginTop: '5px' }}>建议单批 8–15 题。当前总题量 {settings.numQuestions} 题，大约分为 {Math.ceil(settings.numQuestions / batchSize)} 批调用。</p>
+          <p style={{ fontSize: '12px', color: colors.textSub, marginTop: '5px' }}>建议单批 8–15 题。当前总题量 {settings.numQuestions} 题，{documentChunks.length > 0
+            ? `资料切分为 ${documentChunks.length} 个片段，按篇幅分配到 ${generationPlan.length} 批调用。`
+            : `大约分为 ${Math.ceil(settings.numQuestions / batchSize)} 批调用。`}</p>
+        </div>
+        <div style={{ marginBottom: '25px' }}>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '14px', color: colors.textMain, cursor: 'pointer' }}>
+            <input type="checkbox" checked={settings.verifyAnswers} onChange={(e) => setSettings({...settings, verifyAnswers: e.target.checked})} />
+            生成后独立复核答案
+          </label>
+          {settings.verifyAnswers && (
+            <select value={settings.verifyPresetId} onChange={(e) => setSettings({...settings, verifyPresetId: e.target.value})} style={{ width: '100%', marginTop: '8px', padding: '9px', borderRadius: '8px', border: '1px solid ' + colors.border + '', background: colors.inputBg, color: colors.textMain }}>
+              <option value="">使用出题模型复核</option>
+              {apiPresets.map((p: ApiConfigHistoryItem) => <option key={p.id} value={p.id}>{p.name}（{p.model}）</option>)}
+            </select>
+          )}
+          <p style={{ fontSize: '12px', color: colors.textSub, marginTop: '5px' }}>让模型在看不到答案的情况下重新作答选择、判断和填空题，结论不一致的题目会标记为待核对，并且不会出现在考试模式中。会额外消耗一些 tokens。</p>
         </div>
-        <button onClick={async () => { setIsGeneratingInBank(true); await generateQuiz(true); }} disabled={loading || uploadedFiles.length === 0} style={{ width: '100%', padding: '12px', borderRadius: '8px', fontWeight: '600', fontSize: '16px', border: 'none', boxShadow: '0 2px 4px rgba(0,0,0,0.1)', transition: 'background 0.3s', cursor: (loading || uploadedFiles.length === 0) ? 'not-allowed' : 'pointer', backgroundColor: (loading || uploadedFiles.length === 0) ? colors.disabled : colors.primary, color: (loading || uploadedFiles.length === 0) ? colors.textSub : 'white' }}>{loading ? "生成中..." : "✨ 生成试卷"}</button>
+        <button onClick={() => generateQuiz(true, false, true)} disabled={loading || uploadedFiles.length === 0} style={{ width: '100%', padding: '12px', borderRadius: '8px', fontWeight: '600', fontSize: '16px', border: 'none', boxShadow: '0 2px 4px rgba(0,0,0,0.1)', transition: 'background 0.3s', cursor: (loading || uploadedFiles.length === 0) ? 'not-allowed' : 'pointer', backgroundColor: (loading || uploadedFiles.length === 0) ? colors.disabled : colors.primary, color: (loading || uploadedFiles.length === 0) ? colors.textSub : 'white' }}>{loading ? "生成中..." : "✨ 生成试卷"}</button>
       </div>
 
       <div style={{ background: theme === 'dark' ? '#1e293b' : '#ffffff', padding: '20px', borderRadius: '24px', border: '2px solid ' + (theme === 'dark' ? '#4b5563' : '#d1d5db') + '', boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)', marginBottom: '40px' }}>
@@ -3874,12 +8023,45 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
         <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '16px', opacity: quizSettings.mode === 'review' ? 0.4 : 1, pointerEvents: quizSettings.mode === 'review' ? 'none' : 'auto' }}>
           <label style={{ display: 'flex', alignItems: 'center', gap: '10px', fontSize: '14px', color: colors.textMain, cursor: 'pointer' }}><input type="checkbox" checked={quizSettings.confirmSubmit} onChange={(e) => setQuizSettings({...quizSettings, confirmSubmit: e.target.checked})} style={{ width: '16px', height: '16px' }} /> 需确认提交</label>
           <label style={{ display: 'flex', alignItems: 'center', gap: '10px', fontSize: '14px', color: colors.textMain, cursor: 'pointer' }}><input type="checkbox" checked={quizSettings.showNavButtons} onChange={(e) => setQuizSettings({...quizSettings, showNavButtons: e.target.checked})} style={{ width: '16px', height: '16px' }} /> 显示翻页按钮</label>
+          <label style={{ gridColumn: '1 / -1', display: 'flex', alignItems: 'center', gap: '10px', fontSize: '14px', color: colors.textMain }}>
+            多选题计分
+            <select value={quizSettings.scoringScheme} onChange={(e) => setQuizSettings({...quizSettings, scoringScheme: e.target.value as ScoringScheme})} style={{ flex: 1, padding: '8px', borderRadius: '8px', border: '1px solid ' + colors.border + '', background: colors.inputBg, color: colors.textMain }}>
+              {(Object.keys(SCORING_SCHEME_LABELS) as ScoringScheme[]).map(scheme => <option key={scheme} value={scheme}>{SCORING_SCHEME_LABELS[scheme]}</option>)}
+            </select>
+          </label>
+          <label style={{ gridColumn: '1 / -1', display: 'flex', alignItems: 'center', gap: '10px', fontSize: '14px', color: colors.textMain, cursor: 'pointer' }}><input type="checkbox" checked={quizSettings.weightedPoints} onChange={(e) => setQuizSettings({...quizSettings, weightedPoints: e.target.checked})} style={{ width: '16px', height: '16px' }} /> 按题型加权（多选 2 分、简答 10 分，其余 1 分）</label>
+          {quizSettings.mode === 'exam' && (
+            <>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '10px', fontSize: '14px', color: colors.textMain }}>
+                考试时长
+                <input type="number" min={0} max={600} value={quizSettings.examDurationMinutes} onChange={(e) => setQuizSettings({...quizSettings, examDurationMinutes: Math.max(0, parseInt(e.target.value) || 0)})} style={{ width: '70px', padding: '6px 8px', borderRadius: '8px', border: '1px solid ' + colors.border + '', background: colors.inputBg, color: colors.textMain }} />
+                分钟
+              </label>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '10px', fontSize: '14px', color: colors.textMain, cursor: 'pointer' }}><input type="checkbox" checked={quizSettings.examLockAnswered} onChange={(e) => setQuizSettings({...quizSettings, examLockAnswered: e.target.checked})} style={{ width: '16px', height: '16px' }} /> 作答后不可返回</label>
+              <p style={{ gridColumn: '1 / -1', margin: 0, fontSize: '12px', color: colors.textSub }}>{quizSettings.examDurationMinutes > 0 ? `限时 ${quizSettings.examDurationMinutes} 分钟，剩 5 分钟时提醒，到时自动交卷。` : '时长为 0 时不限时。'}</p>
+            </>
+          )}
           {quizSettings.mode === 'practice' && (
             <>
               <label style={{ display: 'flex', alignItems: 'center', gap: '10px', fontSize: '14px', color: colors.textMain, cursor: 'pointer' }}><input type="checkbox" checked={quizSettings.autoNextCorrect} onChange={(e) => setQuizSettings({...quizSettings, autoNextCorrect: e.target.checked})} style={{ width: '16px', height: '16px' }} /> 答对自动下一题</label>
               <label style={{ display: 'flex', alignItems: 'center', gap: '10px', fontSize: '14px', color: colors.textMain, cursor: 'pointer' }}><input type="checkbox" checked={quizSettings.showExplanationCorrect} onChange={(e) => setQuizSettings({...quizSettings, showExplanationCorrect: e.target.checked})} style={{ width: '16px', height: '16px' }} /> 答对显示解析</label>
               <label style={{ display: 'flex', alignItems: 'center', gap: '10px', fontSize: '14px', color: colors.textMain, cursor: 'pointer' }}><input type="checkbox" checked={quizSettings.autoNextWrong} onChange={(e) => setQuizSettings({...quizSettings, autoNextWrong: e.target.checked})} style={{ width: '16px', height: '16px' }} /> 答错自动下一题</label>
               <label style={{ display: 'flex', alignItems: 'center', gap: '10px', fontSize: '14px', color: colors.textMain, cursor: 'pointer' }}><input type="checkbox" checked={quizSettings.showExplanationWrong} onChange={(e) => setQuizSettings({...quizSettings, showExplanationWrong: e.target.checked})} style={{ width: '16px', height: '16px' }} /> ❌ 答错显示解析</label>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '10px', fontSize: '14px', color: colors.textMain }}>
+                难度
+                <select value={quizSettings.difficultyFilter} onChange={(e) => setQuizSettings({...quizSettings, difficultyFilter: e.target.value as QuestionDifficulty | 'all'})} style={{ flex: 1, padding: '8px', borderRadius: '8px', border: '1px solid ' + colors.border + '', background: colors.inputBg, color: colors.textMain }}>
+                  <option value="all">全部</option>
+                  {DIFFICULTY_LEVELS.map(level => <option key={level} value={level}>仅{DIFFICULTY_LABELS[level]}</option>)}
+                </select>
+              </label>
+              <label style={{ display: 'flex', alignItems: 'center', gap: '10px', fontSize: '14px', color: colors.textMain }}>
+                排序
+                <select value={quizSettings.difficultyOrder} onChange={(e) => setQuizSettings({...quizSettings, difficultyOrder: e.target.value as DifficultyOrder})} style={{ flex: 1, padding: '8px', borderRadius: '8px', border: '1px solid ' + colors.border + '', background: colors.inputBg, color: colors.textMain }}>
+                  <option value="none">原顺序</option>
+                  <option value="asc">由易到难</option>
+                  <option value="desc">由难到易</option>
+                </select>
+              </label>
             </>
           )}
         </div>
@@ -3887,6 +8069,41 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
     </div>
   );
 
+  const renderSourcePanel = (question: QuizQuestion) => {
+    const page = question.sourcePage;
+    const pageText = page && question.sourceDocument ? getUploadedPageText(uploadedFiles, question.sourceDocument, page) : null;
+    return (
+      <div style={{ animation: 'fadeIn 0.3s', background: colors.surface, border: '1px solid ' + colors.border, padding: '20px', borderRadius: '8px', marginBottom: '20px' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px', gap: '10px', flexWrap: 'wrap' }}>
+          <h4 style={{ margin: 0, color: colors.textMain }}>📖 出处</h4>
+          <span style={{ fontSize: '12px', color: colors.textSub }}>
+            {question.sourceDocument || '未知文件'}
+            {page ? ` · 第 ${page} 页` : ''}
+            {question.sourceChunk ? ` · 片段 ${question.sourceChunk.chunkIndex}` : ''}
+          </span>
+        </div>
+        {question.sourceExcerpt ? (
+          <blockquote style={{ margin: 0, padding: '10px 14px', borderLeft: '4px solid ' + (question.sourceExcerptVerified ? '#22c55e' : '#f59e0b'), background: theme === 'dark' ? '#0f172a' : '#f8fafc', color: colors.textMain, fontSize: '14px', lineHeight: '1.7', whiteSpace: 'pre-wrap' }}>
+            {question.sourceExcerpt}
+          </blockquote>
+        ) : (
+          <div style={{ fontSize: '13px', color: colors.textSub }}>模型未提供原文摘录。</div>
+        )}
+        {question.sourceExcerpt && question.sourceExcerptVerified !== undefined && (
+          <div style={{ fontSize: '12px', marginTop: '8px', color: question.sourceExcerptVerified ? '#22c55e' : '#f59e0b' }}>
+            {question.sourceExcerptVerified ? '✓ 已在原文中找到这段摘录' : '⚠ 未能在原文中逐字找到这段摘录，请对照教材核实'}
+          </div>
+        )}
+        {pageText && (
+          <details style={{ marginTop: '12px' }}>
+            <summary style={{ cursor: 'pointer', fontSize: '13px', color: colors.primary }}>展开原文第 {page} 页</summary>
+            <div style={{ marginTop: '8px', maxHeight: '260px', overflowY: 'auto', padding: '10px', borderRadius: '6px', background: theme === 'dark' ? '#0f172a' : '#f8fafc', color: colors.textSub, fontSize: '13px', lineHeight: '1.7', whiteSpace: 'pre-wrap' }}>{pageText}</div>
+          </details>
+        )}
+      </div>
+    );
+  };
+
   const renderQuiz = () => {
     const question = quizData[currentQIndex];
     if (!question) return null;
@@ -3898,12 +8115,19 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
     const isPractice = quizSettings.mode === 'practice';
     const isReview = quizSettings.mode === 'review';
     const isLastQuestion = currentQIndex === quizData.length - 1;
+    const canGoBack = currentQIndex > 0 && canVisitQuestion(currentQIndex - 1);
+    const examRemaining = examDeadline ? Math.max(0, Math.ceil((examDeadline - Date.now()) / 1000)) : null;
     const isMultiple = question.type === 'multiple';
+    const isTrueFalse = question.type === 'truefalse';
+    const isBlank = question.type === 'blank';
+    const isEssay = question.type === 'essay';
     const showFeedback = (isPractice && isAnswered) || isReview;
     const showExplanation = isReview || (showFeedback && ((userAnswer?.isCorrect && quizSettings.showExplanationCorrect) || (!userAnswer?.isCorrect && quizSettings.showExplanationWrong)));
     const suggestedQuestions = showExplanation ? buildSuggestedTutorQuestions(question) : [];
     
     const isFav = isQuestionFavorited(question);
+    const measuredLevel = empiricalDifficulty(attemptTally[String(question.id)]);
+    const level = measuredLevel ?? question.difficulty;
     const meta = questionMetaMap[question.id] || { id: question.id };
     
     const selectedSyllabus = syllabusPresets.find(p => p.id === selectedSyllabusId);
@@ -3972,12 +8196,14 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
               return (
                 <button
                   key={q.id}
+                  disabled={!canVisitQuestion(index)}
                   onClick={() => {
                     setCurrentQIndex(index);
                     setTempSelection([]);
                     setShowAnswerSheetModal(false);
                   }}
                   style={{
+                    opacity: canVisitQuestion(index) ? 1 : 0.5,
                     width: '40px',
                     height: '40px',
                     borderRadius: '8px',
@@ -4110,6 +8336,10 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
             setJumpError(`请输入 1 到 ${total} 之间的整数`);
             return;
         }
+        if (!canVisitQuestion(value - 1)) {
+            setJumpError('考试中已作答的题目不能返回修改');
+            return;
+        }
         setJumpError('');
         setCurrentQIndex(value - 1);
         setJumpInput('');
@@ -4132,7 +8362,7 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
                      <button onClick={() => setConfirmClearProgress(false)} style={{ fontSize: '12px', padding: '2px 6px', background: colors.disabled, color: colors.textMain, border: 'none', borderRadius: '4px', cursor: 'pointer' }}>否</button>
                  </div>
              )}
-             <button onClick={() => navigateTo('result')} style={{ color: colors.primary, background: 'none', border: 'none', cursor: 'pointer', fontWeight: '600' }}>{isReview ? "结束背题" : (isPractice ? "结束练习" : "交卷")}</button>
+             <button onClick={() => finishQuiz()} style={{ color: colors.primary, background: 'none', border: 'none', cursor: 'pointer', fontWeight: '600' }}>{isReview ? "结束背题" : (isPractice ? "结束练习" : "交卷")}</button>
           </div>
         </div>
         <div style={{ height: '6px', background: theme === 'dark' ? '#334155' : '#e2e8f0', borderRadius: '3px', marginBottom: '30px' }}>
@@ -4142,9 +8372,15 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
         {/* 答题时间和答题卡按钮 */}
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
           {/* 答题时间显示 - 移到左上角 */}
+          {examRemaining !== null ? (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '8px 16px', borderRadius: '20px', background: (examRemaining <= EXAM_WARNING_SECONDS ? '#ef4444' : colors.primary) + '15', border: '1px solid ' + (examRemaining <= EXAM_WARNING_SECONDS ? '#ef4444' : colors.primary) }}>
+              <span style={{ fontSize: '14px', color: examRemaining <= EXAM_WARNING_SECONDS ? '#ef4444' : colors.primary, fontWeight: 'bold', display: 'flex', alignItems: 'center', gap: '4px' }}><svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"></circle><polyline points="12 6 12 12 16 14"></polyline></svg> 剩余时间: {formatTime(examRemaining)}</span>
+            </div>
+          ) : (
           <div style={{ display: 'flex', alignItems: 'center', gap: '8px', padding: '8px 16px', borderRadius: '20px', background: colors.primary + '15', border: '1px solid ' + colors.primary + '' }}>
             <span style={{ fontSize: '14px', color: colors.primary, fontWeight: 'bold', display: 'flex', alignItems: 'center', gap: '4px' }}><svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"></circle><polyline points="12 6 12 12 16 14"></polyline></svg> 答题时间: {formatTime(quizTime)}</span>
           </div>
+          )}
           
           {/* 答题卡按钮 */}
           <button
@@ -4181,18 +8417,24 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
           
           <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: '10px' }}>
             <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
-              <span style={{ padding: '4px 8px', borderRadius: '4px', fontSize: '12px', fontWeight: 'bold', background: isMultiple ? (theme === 'dark' ? '#78350f' : '#fef3c7') : (theme === 'dark' ? '#1e3a8a' : '#dbeafe'), color: isMultiple ? '#fbbf24' : '#60a5fa' }}>{isMultiple ? '多选题' : '单选题'}</span>
-              {question.sourceDocument && <span style={{ padding: '4px 8px', borderRadius: '4px', fontSize: '12px', background: theme === 'dark' ? '#334155' : '#f1f5f9', color: colors.textSub }}>📑 {question.sourceDocument}</span>}
+              <span style={{ padding: '4px 8px', borderRadius: '4px', fontSize: '12px', fontWeight: 'bold', background: isMultiple ? (theme === 'dark' ? '#78350f' : '#fef3c7') : (theme === 'dark' ? '#1e3a8a' : '#dbeafe'), color: isMultiple ? '#fbbf24' : '#60a5fa' }}>{QUESTION_TYPE_LABELS[question.type] || '单选'}题 · {questionPoints(question, quizSettings.weightedPoints, quizPointsById)} 分</span>
+              {level && <span title={measuredLevel ? '根据答题正确率估算' : '出题时设定的难度'} style={{ padding: '4px 8px', borderRadius: '4px', fontSize: '12px', background: theme === 'dark' ? '#334155' : '#f1f5f9', color: colors.textSub }}>{DIFFICULTY_LABELS[level]}{measuredLevel ? '（实测）' : ''}</span>}
+              {question.sourceDocument && <span style={{ padding: '4px 8px', borderRadius: '4px', fontSize: '12px', background: theme === 'dark' ? '#334155' : '#f1f5f9', color: colors.textSub }}>📑 {question.sourceDocument}{question.sourcePage ? ` · 第 ${question.sourcePage} 页` : (question.sourceChunk && formatPageRange(question.sourceChunk) ? ` · ${formatPageRange(question.sourceChunk)}` : '')}</span>}
+              {isDisputed(question) && quizSettings.mode !== 'exam' && <span title="复核模型给出了不同的答案" style={{ padding: '4px 8px', borderRadius: '4px', fontSize: '12px', background: theme === 'dark' ? '#78350f' : '#fef3c7', color: theme === 'dark' ? '#fde68a' : '#92400e' }}>⚠ 答案待核对</span>}
+            </div>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+              {quizSettings.mode !== 'exam' && renderRewriteMenu(question)}
+              {quizSettings.mode !== 'exam' && <button onClick={() => openQuestionEditor(question)} title="编辑题目" style={{ border: 'none', background: 'transparent', cursor: 'pointer', fontSize: '18px', color: colors.textSub, padding: '4px' }}>✎</button>}
+              <button onClick={() => toggleFavorite(question)} style={{ border: 'none', background: 'transparent', cursor: 'pointer', fontSize: '24px', color: isFav ? '#eab308' : colors.textSub, display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '4px' }}>                {isFav ? (                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">                        <path d="M20.84 4.61a5.5 5.5 0 0 0-7.78 0L12 5.67l-1.06-1.06a5.5 5.5 0 0 0-7.78 7.78l1.06 1.06L12 21.23l7.78-7.78 1.06-1.06a5.5 5.5 0 0 0 0-7.78z" fill="currentColor"/>                    </svg>                ) : (                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">                        <path d="M20.84 4.61a5.5 5.5 0 0 0-7.78 0L12 5.67l-1.06-1.06a5.5 5.5 0 0 0-7.78 7.78l1.06 1.06L12 21.23l7.78-7.78 1.06-1.06a5.5 5.5 0 0 0 0-7.78z"/>                    </svg>                )}            </button>
             </div>
-            <button onClick={() => toggleFavorite(question)} style={{ border: 'none', background: 'transparent', cursor: 'pointer', fontSize: '24px', color: isFav ? '#eab308' : colors.textSub, display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '4px' }}>                {isFav ? (                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">                        <path d="M20.84 4.61a5.5 5.5 0 0 0-7.78 0L12 5.67l-1.06-1.06a5.5 5.5 0 0 0-7.78 7.78l1.06 1.06L12 21.23l7.78-7.78 1.06-1.06a5.5 5.5 0 0 0 0-7.78z" fill="currentColor"/>                    </svg>                ) : (                    <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">                        <path d="M20.84 4.61a5.5 5.5 0 0 0-7.78 0L12 5.67l-1.06-1.06a5.5 5.5 0 0 0-7.78 7.78l1.06 1.06L12 21.23l7.78-7.78 1.06-1.06a5.5 5.5 0 0 0 0-7.78z"/>                    </svg>                )}            </button>
           </div>
           
           <h2 style={{ marginTop: 0, fontSize: '20px', lineHeight: '1.6', color: colors.textMain }}>{question.stem}</h2>
           
           {/* 选项列表 */}
-          <div style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+          <div style={{ display: 'flex', flexDirection: isTrueFalse ? 'row' : 'column', gap: '16px' }}>
               {question.options.map((opt, idx) => {
-                const letter = indexToLetter(idx); // Use visual index for consistency if ID logic differs
+                const letter = optionBadge(question, idx); // Use visual index for consistency if ID logic differs
                 let bgColor = theme === 'dark' ? '#334155' : '#e2e8f0';
                 let textColor = colors.textMain;
                 let borderColor = 'transparent';
@@ -4223,7 +8465,7 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
                 }
 
                 return (
-                  <button key={opt.id} onClick={() => handleSelectOption(opt.id)} disabled={isAnswered || isReview} style={{ display: 'flex', alignItems: 'center', gap: '15px', padding: '20px', background: bgColor, color: textColor, border: '2px solid ' + borderColor + '', borderRadius: '16px', cursor: (isAnswered || isReview) ? 'default' : 'pointer', fontSize: '16px', textAlign: 'left', transition: 'all 0.3s ease, transform 0.3s ease', opacity: isReview && !isCorrectOption ? 0.6 : 1, transform: 'translateY(0)', boxShadow: '0 2px 8px rgba(0,0,0,0.08)' }} className="quiz-option hover:translate-y-[-2px]">
+                  <button key={opt.id} onClick={() => handleSelectOption(opt.id)} disabled={isAnswered || isReview} style={{ display: 'flex', alignItems: 'center', justifyContent: isTrueFalse ? 'center' : undefined, flex: isTrueFalse ? 1 : undefined, gap: '15px', padding: '20px', background: bgColor, color: textColor, border: '2px solid ' + borderColor + '', borderRadius: '16px', cursor: (isAnswered || isReview) ? 'default' : 'pointer', fontSize: '16px', textAlign: 'left', transition: 'all 0.3s ease, transform 0.3s ease', opacity: isReview && !isCorrectOption ? 0.6 : 1, transform: 'translateY(0)', boxShadow: '0 2px 8px rgba(0,0,0,0.08)' }} className="quiz-option hover:translate-y-[-2px]">
                     <span style={{ width: '32px', height: '32px', borderRadius: '8px', background: badgeBg, color: badgeColor, display: 'flex', alignItems: 'center', justifyContent: 'center', fontWeight: 'bold', fontSize: '14px', flexShrink: 0, boxShadow: '0 1px 3px rgba(0,0,0,0.1)' }} dangerouslySetInnerHTML={{ __html: badge }}></span>
                     <span>{opt.text}</span>
                   </button>
@@ -4231,11 +8473,81 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
               })}
             </div>
             
+            {/* 填空题输入框 */}
+            {isBlank && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+                {(question.blanks || []).map((accepted, i) => {
+                  const given = isAnswered ? (userAnswer.answerIds || [])[i] || '' : tempSelection[i] || '';
+                  const verdict = showFeedback && !isReview ? gradeBlankAnswers(question, userAnswer?.answerIds || [])[i] : undefined;
+                  return (
+                    <div key={i} style={{ display: 'flex', alignItems: 'center', gap: '12px', flexWrap: 'wrap' }}>
+                      <span style={{ fontSize: '14px', fontWeight: 'bold', color: colors.textSub, minWidth: '40px' }}>空 {i + 1}</span>
+                      <input
+                        value={isReview ? accepted[0] : given}
+                        disabled={isAnswered || isReview}
+                        onChange={(e) => {
+                          const value = e.target.value;
+                          setTempSelection(prev => {
+                            const next = (question.blanks || []).map((_, k) => prev[k] || '');
+                            next[i] = value;
+                            return next;
+                          });
+                        }}
+                        onKeyDown={(e) => { if (e.key === 'Enter' && !isAnswered) submitAnswer(tempSelection); }}
+                        placeholder="输入答案"
+                        style={{ flex: 1, minWidth: '160px', padding: '12px 14px', borderRadius: '12px', fontSize: '16px', background: colors.inputBg, color: colors.textMain, border: '2px solid ' + (verdict === undefined ? colors.border : verdict ? colors.successBorder : colors.errorBorder) }}
+                      />
+                      {verdict === false && <span style={{ fontSize: '13px', color: colors.successText }}>正确答案：{accepted.join(' / ')}</span>}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {/* 本题得分 */}
+            {isAnswered && !isEssay && !isReview && showFeedback && userAnswer.score !== undefined && (
+              <div style={{ marginTop: '16px', fontSize: '14px', fontWeight: 'bold', color: userAnswer.isCorrect ? colors.successText : isPartialAnswer(userAnswer) ? '#d97706' : colors.errorText }}>
+                {userAnswer.isCorrect ? '回答正确' : isPartialAnswer(userAnswer) ? '部分正确' : '回答错误'} · 得 {userAnswer.score} / {userAnswer.maxScore} 分
+              </div>
+            )}
+
+            {/* 简答题作答与评分 */}
+            {isEssay && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '12px' }}>
+                <textarea
+                  value={isAnswered ? (userAnswer.answerIds || [])[0] || '' : tempSelection[0] || ''}
+                  disabled={isAnswered || isReview || isGradingEssay}
+                  onChange={(e) => setTempSelection([e.target.value])}
+                  placeholder={isReview ? '背题模式下直接查看参考答案' : '在此作答，提交后由 AI 按评分要点打分'}
+                  rows={8}
+                  style={{ width: '100%', boxSizing: 'border-box', padding: '14px', borderRadius: '12px', fontSize: '15px', lineHeight: '1.7', background: colors.inputBg, color: colors.textMain, border: '2px solid ' + colors.border, resize: 'vertical' }}
+                />
+                {isAnswered && userAnswer.grading && (
+                  <div style={{ padding: '16px', borderRadius: '12px', background: userAnswer.isCorrect ? colors.successBg : colors.errorBg, border: '1px solid ' + (userAnswer.isCorrect ? colors.successBorder : colors.errorBorder) }}>
+                    <div style={{ fontSize: '18px', fontWeight: 'bold', color: userAnswer.isCorrect ? colors.successText : colors.errorText, marginBottom: '8px' }}>
+                      得分 {userAnswer.grading.score} / {userAnswer.grading.maxScore}
+                    </div>
+                    {userAnswer.grading.covered.length > 0 && (
+                      <div style={{ fontSize: '14px', color: colors.textMain, marginBottom: '6px' }}>
+                        {userAnswer.grading.covered.map((p: string, i: number) => <div key={i}>✓ {p}</div>)}
+                      </div>
+                    )}
+                    {userAnswer.grading.missed.length > 0 && (
+                      <div style={{ fontSize: '14px', color: colors.errorText, marginBottom: '6px' }}>
+                        {userAnswer.grading.missed.map((p: string, i: number) => <div key={i}>✗ {p}</div>)}
+                      </div>
+                    )}
+                    {userAnswer.grading.feedback && <div style={{ fontSize: '13px', color: colors.textSub }}>{userAnswer.grading.feedback}</div>}
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* 导航按钮 - 题目选项下方 */}
             {(quizSettings.showNavButtons || isReview) && (
               <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '30px' }}>
                 {/* 上一题按钮 */}
-                <button disabled={currentQIndex === 0} onClick={() => { setCurrentQIndex(prev => prev - 1); setTempSelection([]); }} style={{ padding: '12px 20px', border: 'none', background: currentQIndex === 0 ? '#cbd5e1' : '#eab308', color: currentQIndex === 0 ? '#94a3b8' : '#111827', cursor: currentQIndex === 0 ? 'not-allowed' : 'pointer', fontSize: '14px', fontWeight: 'bold', display: 'flex', alignItems: 'center', gap: '6px', borderRadius: '16px', transition: 'all 0.3s ease, transform 0.2s ease', boxShadow: '0 2px 8px rgba(0,0,0,0.15)' }}>
+                <button disabled={!canGoBack} onClick={() => { setCurrentQIndex(prev => prev - 1); setTempSelection([]); }} style={{ padding: '12px 20px', border: 'none', background: !canGoBack ? '#cbd5e1' : '#eab308', color: !canGoBack ? '#94a3b8' : '#111827', cursor: !canGoBack ? 'not-allowed' : 'pointer', fontSize: '14px', fontWeight: 'bold', display: 'flex', alignItems: 'center', gap: '6px', borderRadius: '16px', transition: 'all 0.3s ease, transform 0.2s ease', boxShadow: '0 2px 8px rgba(0,0,0,0.15)' }}>
                   <span>←</span> 上一题
                 </button>
                 
@@ -4246,17 +8558,20 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
                 </button>
               </div>
             )}
-          {!isReview && !isAnswered && ((isMultiple || quizSettings.confirmSubmit) && tempSelection.length > 0 && (
-            <button onClick={() => submitAnswer(tempSelection)} style={{ width: '100%', marginTop: '20px', padding: '14px', background: colors.primary, color: 'white', border: 'none', borderRadius: '10px', fontSize: '16px', fontWeight: 'bold', cursor: 'pointer' }}>{isMultiple ? `确认提交 (已选 ${tempSelection.length} 项)` : "确认提交"}</button>
+          {!isReview && !isAnswered && ((isMultiple || isBlank || isEssay || quizSettings.confirmSubmit) && tempSelection.length > 0 && (
+            <button onClick={() => submitAnswer(tempSelection)} disabled={isGradingEssay} style={{ width: '100%', marginTop: '20px', padding: '14px', background: isGradingEssay ? colors.disabled : colors.primary, color: 'white', border: 'none', borderRadius: '10px', fontSize: '16px', fontWeight: 'bold', cursor: isGradingEssay ? 'wait' : 'pointer' }}>{isEssay ? (isGradingEssay ? "AI 评分中..." : "提交并评分") : isMultiple ? `确认提交 (已选 ${tempSelection.length} 项)` : "确认提交"}</button>
           ))}
         </div>
 
         {showExplanation && (
           <div style={{ animation: 'fadeIn 0.5s', background: theme === 'dark' ? '#1e3a8a' : '#eff6ff', borderLeft: '5px solid ' + colors.primary + '', padding: '20px', borderRadius: '8px', marginBottom: '20px' }}>
-            <h4 style={{ margin: '0 0 10px 0', color: colors.primary }}>💡 正确答案: {question.answerIds.map(id => {
-              const idx = question.options.findIndex(opt => opt.id === id);
-              return idx >= 0 ? indexToLetter(idx) : id;
-            }).join('、')}</h4>
+            <h4 style={{ margin: '0 0 10px 0', color: colors.primary, whiteSpace: 'pre-wrap' }}>💡 {isEssay ? '参考答案' : '正确答案'}: {formatCorrectAnswer(question)}</h4>
+            {isEssay && question.rubric && (
+              <div style={{ marginBottom: '12px', fontSize: '14px', color: colors.textMain }}>
+                <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>评分要点</div>
+                {question.rubric.map((r, i) => <div key={i}>{i + 1}. {r.point}（{r.score} 分）</div>)}
+              </div>
+            )}
             {renderFormattedExplanation(question, theme)}
             <div style={{ marginTop: '15px', display: 'flex', flexDirection: 'column', alignItems: 'flex-end', gap: '10px' }}>
                <button onClick={() => setIsChatOpen(true)} style={{ background: colors.surface, color: colors.primary, border: '1px solid ' + colors.primary + '', padding: '8px 16px', borderRadius: '20px', cursor: 'pointer', fontWeight: '600', display: 'inline-flex', alignItems: 'center', gap: '6px' }}>
@@ -4273,6 +8588,11 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
     <line x1="7.5" y1="7.5" x2="7.5" y2="7.5"/>
   </svg> 问问 AI
 </button>
+               {(question.sourceExcerpt || question.sourcePage) && (
+                 <button onClick={() => setSourcePanelQuestionId(prev => prev === question.id ? null : question.id)} style={{ background: colors.surface, color: colors.textMain, border: '1px solid ' + colors.border, padding: '8px 16px', borderRadius: '20px', cursor: 'pointer', fontWeight: '600' }}>
+                   📖 {sourcePanelQuestionId === question.id ? '收起出处' : '查看出处'}
+                 </button>
+               )}
                {suggestedQuestions.length > 0 && (
                  <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px', justifyContent: 'flex-end' }}>
                    {suggestedQuestions.map((sq, i) => (
@@ -4286,6 +8606,8 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
           </div>
         )}
 
+        {showExplanation && sourcePanelQuestionId === question.id && renderSourcePanel(question)}
+
         {selectedSyllabus && (
             <div style={{ marginBottom: '20px', padding: '12px', background: theme === 'dark' ? '#1e293b' : '#f8fafc', borderRadius: '8px', fontSize: '12px', display: 'flex', flexWrap: 'wrap', gap: '8px', alignItems: 'center', border: '1px dashed ' + colors.border + '' }}>
                <span style={{ color: colors.textSub, fontWeight: 'bold', display: 'flex', alignItems: 'center', gap: '4px' }}>
@@ -4426,6 +8748,469 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
     );
   };
 
+  const handlePracticeWeakTopic = (bucket: StatsBucket) => {
+    const syllabus = syllabusPresets.find((p: SyllabusPreset) => p.id === selectedSyllabusId);
+    if (!syllabus || !bucket.bookId || !bucket.topicId) return;
+    const filter: PaperSection = { id: 'weak-topic', title: '', questionType: 'any', count: 0, bookId: bucket.bookId, topicId: bucket.topicId };
+    const questions = buildPaperCandidates(history, syllabus, questionMetaMap)
+      .filter(c => sectionMatches(c, filter, syllabus))
+      .map(c => c.question);
+    if (questions.length === 0) return showToast('该章节下已没有题目');
+    startQuizWithResume({ sessionKey: buildTopicSessionKey(syllabus.id, bucket.bookId, bucket.topicId), questions, title: bucket.label });
+  };
+
+  const renderStats = () => {
+    const syllabus = statsSyllabus;
+    const buckets = statsBuckets;
+    const weakest = statsWeakestTopics;
+    const now = Date.now();
+    const trend = statsTrend;
+    const dayCounts = statsDayCounts;
+    const totalCorrect = statsAttempts.filter((a: AttemptEvent) => a.isCorrect).length;
+    const totalSeconds = statsAttempts.reduce((sum: number, a: AttemptEvent) => sum + a.seconds, 0);
+    const percent = (b: { attempts: number; correct: number }) => `${Math.round(accuracyOf(b) * 100)}%`;
+
+    const cardStyle = { background: colors.surface, padding: '20px', borderRadius: '12px', border: '1px solid ' + colors.border, marginBottom: '20px' };
+    const cellStyle = { padding: '6px 8px', borderTop: '1px solid ' + colors.border, textAlign: 'right' as const };
+    const tileStyle = { flex: 1, padding: '16px', borderRadius: '12px', background: theme === 'dark' ? '#1e3a8a' : '#dbeafe', color: theme === 'dark' ? '#bfdbfe' : '#1e40af' };
+
+    // Weekly volume as bars, accuracy as a line over the weeks that had attempts
+    const chartW = 600, chartH = 160, padX = 30, padY = 20;
+    const slot = (chartW - padX * 2) / trend.length;
+    const maxAttempts = Math.max(1, ...trend.map(w => w.attempts));
+    const accuracyPoints = trend
+      .map((w, i) => w.attempts > 0 ? `${padX + slot * (i + 0.5)},${padY + (1 - accuracyOf(w)) * (chartH - padY * 2)}` : null)
+      .filter(Boolean)
+      .join(' ');
+
+    // Heatmap: one column per week, Monday on top
+    const heatStart = new Date(startOfWeek(now));
+    heatStart.setDate(heatStart.getDate() - (STATS_HEATMAP_WEEKS - 1) * 7);
+    const heatDay = (offset: number) => {
+      const d = new Date(heatStart);
+      d.setDate(d.getDate() + offset);
+      return d;
+    };
+    const heatColor = (count: number) => {
+      if (count === 0) return theme === 'dark' ? '#1f2937' : '#ebedf0';
+      const levels = theme === 'dark' ? ['#0e4429', '#006d32', '#26a641', '#39d353'] : ['#9be9a8', '#40c463', '#30a14e', '#216e39'];
+      return levels[count < 5 ? 0 : count < 15 ? 1 : count < 30 ? 2 : 3];
+    };
+
+    return (
+      <div style={{ maxWidth: '900px', margin: '40px auto', padding: '20px' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '30px' }}>
+          <h1 style={{ margin: 0, color: colors.textMain }}>学习统计</h1>
+          <button onClick={() => navigateTo('home')} style={{ background: theme === 'dark' ? '#334155' : '#e5e7eb', border: 'none', color: colors.textMain, padding: '8px 16px', borderRadius: '8px', cursor: 'pointer' }}>返回</button>
+        </div>
+
+        <div style={{ display: 'flex', gap: '15px', marginBottom: '20px' }}>
+          <div style={tileStyle}>
+            <div style={{ fontSize: '13px' }}>累计作答</div>
+            <div style={{ fontSize: '24px', fontWeight: 'bold', margin: '4px 0' }}>{statsAttempts.length}</div>
+            <div style={{ fontSize: '12px' }}>{new Set(statsAttempts.map((a: AttemptEvent) => a.questionId)).size} 道不同的题</div>
+          </div>
+          <div style={tileStyle}>
+            <div style={{ fontSize: '13px' }}>总正确率</div>
+            <div style={{ fontSize: '24px', fontWeight: 'bold', margin: '4px 0' }}>{percent({ attempts: statsAttempts.length, correct: totalCorrect })}</div>
+            <div style={{ fontSize: '12px' }}>答对 {totalCorrect} 次</div>
+          </div>
+          <div style={tileStyle}>
+            <div style={{ fontSize: '13px' }}>累计用时</div>
+            <div style={{ fontSize: '24px', fontWeight: 'bold', margin: '4px 0' }}>{Math.round(totalSeconds / 60)} 分钟</div>
+            <div style={{ fontSize: '12px' }}>平均每题 {statsAttempts.length > 0 ? Math.round(totalSeconds / statsAttempts.length) : 0} 秒</div>
+          </div>
+        </div>
+
+        {statsAttempts.length === 0 ? (
+          <div style={{ ...cardStyle, textAlign: 'center', color: colors.textSub }}>还没有作答记录，做几道题后再来看看。</div>
+        ) : (
+          <>
+            <div style={cardStyle}>
+              <h3 style={{ marginTop: 0, color: colors.textMain }}>近 {STATS_TREND_WEEKS} 周趋势</h3>
+              <svg viewBox={`0 0 ${chartW} ${chartH + 20}`} style={{ width: '100%', height: 'auto' }}>
+                {[0, 0.5, 1].map(r => (
+                  <g key={r}>
+                    <line x1={padX} x2={chartW - padX} y1={padY + (1 - r) * (chartH - padY * 2)} y2={padY + (1 - r) * (chartH - padY * 2)} stroke={colors.border} strokeDasharray="3 3" />
+                    <text x={chartW - padX + 4} y={padY + (1 - r) * (chartH - padY * 2) + 4} fontSize="10" fill={colors.textSub}>{r * 100}%</text>
+                  </g>
+                ))}
+                {trend.map((w, i) => {
+                  const h = (w.attempts / maxAttempts) * (chartH - padY * 2);
+                  return (
+                    <g key={w.weekStart}>
+                      <rect x={padX + slot * i + slot * 0.2} y={chartH - padY - h} width={slot * 0.6} height={h} rx={2} fill={theme === 'dark' ? '#1e40af' : '#bfdbfe'}>
+                        <title>{`${w.weekStart} 起：作答 ${w.attempts} 次，正确率 ${percent(w)}`}</title>
+                      </rect>
+                      {i % 2 === 0 && <text x={padX + slot * (i + 0.5)} y={chartH + 10} fontSize="10" textAnchor="middle" fill={colors.textSub}>{w.weekStart.slice(5)}</text>}
+                    </g>
+                  );
+                })}
+                {accuracyPoints && <polyline points={accuracyPoints} fill="none" stroke={colors.primary} strokeWidth={2} />}
+              </svg>
+              <div style={{ fontSize: '12px', color: colors.textSub }}>柱形为每周作答量（最多 {maxAttempts} 次），折线为正确率</div>
+            </div>
+
+            <div style={cardStyle}>
+              <h3 style={{ marginTop: 0, color: colors.textMain }}>每日活跃</h3>
+              <div style={{ display: 'flex', gap: '3px', overflowX: 'auto' }}>
+                {Array.from({ length: STATS_HEATMAP_WEEKS }, (_, week) => (
+                  <div key={week} style={{ display: 'flex', flexDirection: 'column', gap: '3px' }}>
+                    {Array.from({ length: 7 }, (_, weekday) => {
+                      const date = heatDay(week * 7 + weekday);
+                      if (date.getTime() > now) return <div key={weekday} style={{ width: '12px', height: '12px' }} />;
+                      const day = toLocalDay(date.getTime());
+                      const count = dayCounts[day] || 0;
+                      return <div key={weekday} title={`${day}：${count} 题`} style={{ width: '12px', height: '12px', borderRadius: '2px', background: heatColor(count) }} />;
+                    })}
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div style={cardStyle}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px', flexWrap: 'wrap', gap: '10px' }}>
+                <div style={{ display: 'flex', background: theme === 'dark' ? '#1e293b' : '#f3f4f6', borderRadius: '8px', padding: '3px' }}>
+                  {(Object.keys(STATS_DIMENSION_LABELS) as StatsDimension[]).map(dim => (
+                    <button key={dim} onClick={() => setStatsDimension(dim)} style={{ padding: '6px 14px', borderRadius: '6px', border: 'none', background: statsDimension === dim ? colors.primary : 'transparent', color: statsDimension === dim ? 'white' : colors.textSub, cursor: 'pointer', fontSize: '13px' }}>按{STATS_DIMENSION_LABELS[dim]}</button>
+                  ))}
+                </div>
+                {(statsDimension === 'book' || statsDimension === 'topic') && (
+                  <select value={selectedSyllabusId || ''} onChange={(e) => setSelectedSyllabusId(e.target.value || null)} style={{ padding: '6px 10px', borderRadius: '8px', border: '1px solid ' + colors.border, background: colors.inputBg, color: colors.textMain, fontSize: '13px' }}>
+                    <option value="">未选择大纲</option>
+                    {syllabusPresets.map((p: SyllabusPreset) => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                )}
+              </div>
+              <table style={{ width: '100%', fontSize: '13px', color: colors.textMain, borderCollapse: 'collapse' }}>
+                <thead>
+                  <tr style={{ color: colors.textSub }}>
+                    <th style={{ textAlign: 'left', padding: '6px 8px' }}>{STATS_DIMENSION_LABELS[statsDimension]}</th>
+                    <th style={{ textAlign: 'right', padding: '6px 8px' }}>作答</th>
+                    <th style={{ textAlign: 'right', padding: '6px 8px' }}>题目</th>
+                    <th style={{ textAlign: 'right', padding: '6px 8px', width: '160px' }}>正确率</th>
+                    <th style={{ textAlign: 'right', padding: '6px 8px' }}>平均用时</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {buckets.map(b => (
+                    <tr key={b.key}>
+                      <td style={{ ...cellStyle, textAlign: 'left' }}>{b.label}</td>
+                      <td style={cellStyle}>{b.attempts}</td>
+                      <td style={cellStyle}>{b.questionIds.size}</td>
+                      <td style={cellStyle}>
+                        <div style={{ display: 'flex', alignItems: 'center', gap: '6px', justifyContent: 'flex-end' }}>
+                          <div style={{ width: '90px', height: '6px', borderRadius: '3px', background: colors.border, overflow: 'hidden' }}>
+                            <div style={{ width: percent(b), height: '100%', background: accuracyOf(b) < REVIEW_WEAK_ACCURACY ? '#ef4444' : '#22c55e' }} />
+                          </div>
+                          {percent(b)}
+                        </div>
+                      </td>
+                      <td style={cellStyle}>{Math.round(b.seconds / b.attempts)} 秒</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div style={cardStyle}>
+              <h3 style={{ marginTop: 0, color: colors.textMain }}>最薄弱的 {STATS_WEAK_TOPIC_COUNT} 个章节</h3>
+              {!syllabus ? (
+                <div style={{ fontSize: '13px', color: colors.textSub }}>选择大纲后可按章节找出薄弱点。</div>
+              ) : weakest.length === 0 ? (
+                <div style={{ fontSize: '13px', color: colors.textSub }}>还没有作答满 {STATS_WEAK_MIN_ATTEMPTS} 次的章节。</div>
+              ) : weakest.map((b, i) => (
+                <div key={b.key} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '10px 0', borderTop: i > 0 ? '1px dashed ' + colors.border : 'none' }}>
+                  <div style={{ fontSize: '14px', color: colors.textMain }}>
+                    {i + 1}. {b.label}
+                    <span style={{ marginLeft: '8px', fontSize: '12px', color: colors.textSub }}>正确率 {percent(b)} · 作答 {b.attempts} 次</span>
+                  </div>
+                  <button onClick={() => handlePracticeWeakTopic(b)} style={{ fontSize: '12px', padding: '4px 12px', borderRadius: '6px', background: colors.surface, border: '1px solid ' + colors.primary, color: colors.primary, cursor: 'pointer' }}>专项练习</button>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const renderPaper = () => {
+    const cardStyle = { background: colors.surface, padding: '20px', borderRadius: '12px', border: '1px solid ' + colors.border, marginBottom: '20px' };
+    const inputStyle = { padding: '8px 10px', borderRadius: '8px', border: '1px solid ' + colors.border, background: colors.inputBg, color: colors.textMain, fontSize: '13px' };
+    const labelStyle = { fontSize: '12px', color: colors.textSub, display: 'block', marginBottom: '4px' };
+    const tagNames = Array.from(new Set([...tagPresets.map((p: TagPreset) => p.name), ...Object.keys(tagGroups)]));
+    const typeOptions = [['any', '不限题型'], ...Object.entries(QUESTION_TYPE_LABELS)] as [PaperSection['questionType'], string][];
+    const totalWanted = paperDraft ? paperDraft.sections.reduce((sum, sec) => sum + Math.max(0, sec.count), 0) : 0;
+
+    return (
+      <div style={{ maxWidth: '900px', margin: '40px auto', padding: '20px' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '30px' }}>
+          <h1 style={{ margin: 0, color: colors.textMain }}>按蓝图组卷</h1>
+          <button onClick={() => navigateTo('home')} style={{ background: theme === 'dark' ? '#334155' : '#e5e7eb', border: 'none', color: colors.textMain, padding: '8px 16px', borderRadius: '8px', cursor: 'pointer' }}>返回</button>
+        </div>
+
+        <div style={cardStyle}>
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
+            <h3 style={{ margin: 0, color: colors.textMain }}>组卷模板</h3>
+            <button onClick={() => { setPaperDraft(createPaperTemplate(selectedSyllabusId)); setPaperResult(null); }} style={{ background: colors.primary, color: 'white', border: 'none', padding: '6px 12px', borderRadius: '8px', cursor: 'pointer', fontSize: '13px' }}>+ 新建模板</button>
+          </div>
+          {paperTemplates.length === 0 ? (
+            <div style={{ fontSize: '13px', color: colors.textSub }}>还没有保存的模板。</div>
+          ) : (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '8px' }}>
+              {paperTemplates.map((t: PaperTemplate) => (
+                <div key={t.id} style={{ display: 'flex', alignItems: 'center', borderRadius: '8px', border: '1px solid ' + (paperDraft?.id === t.id ? colors.primary : colors.border), overflow: 'hidden' }}>
+                  <button onClick={() => { setPaperDraft({ ...t }); setPaperResult(null); }} style={{ background: 'transparent', border: 'none', color: colors.textMain, padding: '6px 10px', cursor: 'pointer', fontSize: '13px' }}>
+                    {t.name}（{t.sections.reduce((sum, sec) => sum + sec.count, 0)} 题）
+                  </button>
+                  <button onClick={() => handleDeletePaperTemplate(t.id)} title="删除模板" style={{ background: 'transparent', border: 'none', color: '#ef4444', padding: '6px 8px', cursor: 'pointer', fontSize: '13px' }}>×</button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {paperDraft && (
+          <>
+            <div style={cardStyle}>
+              <div style={{ display: 'flex', gap: '12px', flexWrap: 'wrap' }}>
+                <div style={{ flex: 2, minWidth: '200px' }}>
+                  <label style={labelStyle}>模板名称</label>
+                  <input value={paperDraft.name} onChange={(e) => updatePaperDraft({ name: e.target.value })} style={{ ...inputStyle, width: '100%', boxSizing: 'border-box' }} />
+                </div>
+                <div style={{ flex: 2, minWidth: '180px' }}>
+                  <label style={labelStyle}>按大纲归类</label>
+                  <select value={paperDraft.syllabusId || ''} onChange={(e) => updatePaperDraft({ syllabusId: e.target.value || null, sections: paperDraft.sections.map(sec => ({ ...sec, bookId: undefined, topicId: undefined })) })} style={{ ...inputStyle, width: '100%' }}>
+                    <option value="">不使用大纲</option>
+                    {syllabusPresets.map((p: SyllabusPreset) => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                </div>
+                <div style={{ flex: 1, minWidth: '140px' }}>
+                  <label style={labelStyle}>避开最近几天做过的题</label>
+                  <input type="number" min={0} value={paperDraft.avoidRecentDays} onChange={(e) => updatePaperDraft({ avoidRecentDays: Math.max(0, parseInt(e.target.value) || 0) })} style={{ ...inputStyle, width: '100%', boxSizing: 'border-box' }} />
+                </div>
+              </div>
+            </div>
+
+            <div style={cardStyle}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
+                <h3 style={{ margin: 0, color: colors.textMain }}>分区（共 {totalWanted} 题）</h3>
+                <button onClick={handleAddPaperSection} style={{ background: theme === 'dark' ? '#334155' : '#e5e7eb', border: 'none', color: colors.textMain, padding: '6px 12px', borderRadius: '8px', cursor: 'pointer', fontSize: '13px' }}>+ 添加分区</button>
+              </div>
+              {paperDraft.sections.length === 0 && <div style={{ fontSize: '13px', color: colors.textSub }}>还没有分区，可手动添加或用下方的按比例生成。</div>}
+              {paperDraft.sections.map((sec, i) => {
+                const book = paperSyllabus?.books.find(b => b.id === sec.bookId);
+                const available = paperCandidates.filter(c => sectionMatches(c, sec, paperSyllabus)).length;
+                return (
+                  <div key={sec.id} style={{ padding: '12px', borderRadius: '10px', border: '1px solid ' + colors.border, marginBottom: '10px' }}>
+                    <div style={{ display: 'flex', gap: '8px', alignItems: 'center', marginBottom: '8px' }}>
+                      <span style={{ fontSize: '13px', color: colors.textSub }}>{i + 1}.</span>
+                      <input value={sec.title} placeholder="分区标题，如：单项选择题" onChange={(e) => updatePaperSection(sec.id, { title: e.target.value })} style={{ ...inputStyle, flex: 1 }} />
+                      <button onClick={() => handleRemovePaperSection(sec.id)} style={{ background: 'transparent', border: 'none', color: '#ef4444', cursor: 'pointer', fontSize: '13px' }}>删除</button>
+                    </div>
+                    <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap', alignItems: 'center' }}>
+                      <select value={sec.questionType} onChange={(e) => updatePaperSection(sec.id, { questionType: e.target.value as PaperSection['questionType'] })} style={inputStyle}>
+                        {typeOptions.map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                      </select>
+                      {paperSyllabus && (
+                        <select value={sec.bookId || ''} onChange={(e) => updatePaperSection(sec.id, { bookId: e.target.value || undefined, topicId: undefined })} style={{ ...inputStyle, maxWidth: '180px' }}>
+                          <option value="">不限书目</option>
+                          {paperSyllabus.books.map(b => <option key={b.id} value={b.id}>{b.title}</option>)}
+                        </select>
+                      )}
+                      {book && (
+                        <select value={sec.topicId || ''} onChange={(e) => updatePaperSection(sec.id, { topicId: e.target.value || undefined })} style={{ ...inputStyle, maxWidth: '200px' }}>
+                          <option value="">不限章节</option>
+                          {flattenTopics(book.topics).map(({ topic, depth }) => <option key={topic.id} value={topic.id}>{'\u3000'.repeat(depth)}{topic.title}</option>)}
+                        </select>
+                      )}
+                      <select value={sec.tag || ''} onChange={(e) => updatePaperSection(sec.id, { tag: e.target.value || undefined })} style={{ ...inputStyle, maxWidth: '140px' }}>
+                        <option value="">不限标签</option>
+                        {tagNames.map(name => <option key={name} value={name}>{name}</option>)}
+                      </select>
+                      <label style={{ fontSize: '13px', color: colors.textSub }}>
+                        题数 <input type="number" min={1} value={sec.count} onChange={(e) => updatePaperSection(sec.id, { count: Math.max(1, parseInt(e.target.value) || 1) })} style={{ ...inputStyle, width: '60px' }} />
+                      </label>
+                      <label style={{ fontSize: '13px', color: colors.textSub }}>
+                        每题分值 <input type="number" min={0} step={0.5} value={sec.points ?? ''} placeholder="默认" onChange={(e) => { const n = parseFloat(e.target.value); updatePaperSection(sec.id, { points: Number.isNaN(n) || n <= 0 ? undefined : n }); }} style={{ ...inputStyle, width: '70px' }} />
+                      </label>
+                      <span style={{ fontSize: '12px', color: available < sec.count ? '#ef4444' : colors.textSub }}>可选 {available} 题</span>
+                    </div>
+                  </div>
+                );
+              })}
+
+              {paperSyllabus && (
+                <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap', marginTop: '12px', paddingTop: '12px', borderTop: '1px dashed ' + colors.border, fontSize: '13px', color: colors.textSub }}>
+                  <span>按各书目题量比例生成</span>
+                  <input type="number" min={1} value={paperWeightTotal} onChange={(e) => setPaperWeightTotal(Math.max(1, parseInt(e.target.value) || 1))} style={{ ...inputStyle, width: '60px' }} />
+                  <span>道</span>
+                  <select value={paperWeightType} onChange={(e) => setPaperWeightType(e.target.value as PaperSection['questionType'])} style={inputStyle}>
+                    {typeOptions.map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                  </select>
+                  <button onClick={handleWeightPaperSections} style={{ background: theme === 'dark' ? '#334155' : '#e5e7eb', border: 'none', color: colors.textMain, padding: '6px 12px', borderRadius: '8px', cursor: 'pointer', fontSize: '13px' }}>追加分区</button>
+                </div>
+              )}
+            </div>
+
+            <div style={{ display: 'flex', gap: '10px', marginBottom: '20px' }}>
+              <button onClick={handleSavePaperTemplate} style={{ flex: 1, padding: '12px', borderRadius: '10px', border: '1px solid ' + colors.border, background: colors.surface, color: colors.textMain, cursor: 'pointer', fontSize: '15px' }}>保存模板</button>
+              <button onClick={handleAssemblePaper} style={{ flex: 2, padding: '12px', borderRadius: '10px', border: 'none', background: colors.primary, color: 'white', cursor: 'pointer', fontSize: '15px', fontWeight: 'bold' }}>组卷并保存到题库</button>
+            </div>
+
+            {paperResult && (
+              <div style={cardStyle}>
+                <h3 style={{ marginTop: 0, color: colors.textMain }}>{paperResult.questions.length > 0 ? `已生成：${paperResult.bankTitle}` : '未能组卷'}</h3>
+                <div style={{ fontSize: '13px', color: colors.textSub, lineHeight: 1.8 }}>
+                  <div>共 {paperResult.questions.length} 题，总分 {roundPoints(paperResult.questions.reduce((sum, q) => sum + questionPoints(q, quizSettings.weightedPoints, paperResult.pointsById), 0))} 分</div>
+                  {paperResult.reusedRecent > 0 && <div>新题不足，有 {paperResult.reusedRecent} 道题在最近 {paperDraft.avoidRecentDays} 天内做过</div>}
+                  {paperResult.shortages.map(s => <div key={s.title} style={{ color: '#ef4444' }}>「{s.title}」需要 {s.wanted} 题，只找到 {s.got} 题</div>)}
+                </div>
+                {paperResult.questions.length > 0 && (
+                  <button onClick={() => navigateTo('history')} style={{ marginTop: '10px', background: 'transparent', border: '1px solid ' + colors.primary, color: colors.primary, padding: '6px 12px', borderRadius: '8px', cursor: 'pointer', fontSize: '13px' }}>到历史题库中开始作答</button>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const renderUsage = () => {
+    const today = toLocalDay(Date.now());
+    const monthAgo = toLocalDay(Date.now() - 29 * 24 * 3600 * 1000);
+    const todayUsage = usageByModelFromEntries(usageEntries.filter(e => e.day === today));
+    const monthUsage = usageByModelFromEntries(usageEntries.filter(e => e.day >= monthAgo));
+
+    const days = new Map<string, UsageEntry[]>();
+    usageEntries.forEach(e => days.set(e.day, [...(days.get(e.day) || []), e]));
+    const recentDays = Array.from(days.keys()).sort().reverse().slice(0, 14);
+
+    const models = Array.from(new Set([apiConfig.model, ...Object.keys(modelPrices), ...usageEntries.map(e => e.model)].filter(Boolean)));
+    const banksWithUsage = history.filter(b => b.usage && Object.keys(b.usage).length > 0);
+    const sessionsWithUsage = chatSessions.filter(c => c.usage && Object.keys(c.usage).length > 0);
+
+    const cellStyle = { padding: '6px 8px', borderTop: '1px solid ' + colors.border, textAlign: 'right' as const };
+    const cardStyle = { background: colors.surface, padding: '20px', borderRadius: '12px', border: '1px solid ' + colors.border, marginBottom: '20px' };
+    const tokensText = (u: TokenUsage) => `${(u.promptTokens + u.completionTokens).toLocaleString()} tokens${u.estimated ? '（含估算）' : ''}`;
+
+    const renderSummary = (label: string, byModel: UsageByModel) => {
+      const total = sumUsage(byModel);
+      const { cost, unpriced } = costOfUsage(byModel, modelPrices);
+      return (
+        <div style={{ flex: 1, padding: '16px', borderRadius: '12px', background: theme === 'dark' ? '#1e3a8a' : '#dbeafe', color: theme === 'dark' ? '#bfdbfe' : '#1e40af' }}>
+          <div style={{ fontSize: '13px' }}>{label}</div>
+          <div style={{ fontSize: '24px', fontWeight: 'bold', margin: '4px 0' }}>{formatCost(cost)}</div>
+          <div style={{ fontSize: '12px' }}>{tokensText(total)}</div>
+          {unpriced.length > 0 && <div style={{ fontSize: '11px', marginTop: '4px' }}>未设置价格：{unpriced.join('、')}</div>}
+        </div>
+      );
+    };
+
+    return (
+      <div style={{ maxWidth: '800px', margin: '40px auto', padding: '20px' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '30px' }}>
+          <h1 style={{ margin: 0, color: colors.textMain }}>模型用量与费用</h1>
+          <button onClick={() => navigateTo('home')} style={{ background: theme === 'dark' ? '#334155' : '#e5e7eb', border: 'none', color: colors.textMain, padding: '8px 16px', borderRadius: '8px', cursor: 'pointer' }}>返回</button>
+        </div>
+
+        <div style={{ display: 'flex', gap: '15px', marginBottom: '20px' }}>
+          {renderSummary('今日', todayUsage)}
+          {renderSummary('近 30 天', monthUsage)}
+        </div>
+
+        <div style={cardStyle}>
+          <h3 style={{ marginTop: 0, color: colors.textMain }}>每日预算</h3>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '10px', fontSize: '14px', color: colors.textSub }}>
+            <span>¥</span>
+            <input type="number" min={0} step={0.1} value={dailyBudget} onChange={(e) => { const n = parseFloat(e.target.value); setDailyBudget(Number.isNaN(n) || n < 0 ? 0 : n); }} style={{ width: '120px', padding: '8px 12px', borderRadius: '8px', border: '1px solid ' + colors.border, background: colors.inputBg, color: colors.textMain }} />
+            <span>超出时生成前会提醒（0 为不限制）</span>
+          </div>
+        </div>
+
+        <div style={cardStyle}>
+          <h3 style={{ marginTop: 0, color: colors.textMain }}>模型价格（元 / 百万 tokens）</h3>
+          <table style={{ width: '100%', fontSize: '13px', color: colors.textMain, borderCollapse: 'collapse' }}>
+            <thead>
+              <tr style={{ color: colors.textSub }}>
+                <th style={{ textAlign: 'left', padding: '6px 8px' }}>模型</th>
+                <th style={{ textAlign: 'right', padding: '6px 8px' }}>输入</th>
+                <th style={{ textAlign: 'right', padding: '6px 8px' }}>输出</th>
+              </tr>
+            </thead>
+            <tbody>
+              {models.map(model => (
+                <tr key={model}>
+                  <td style={{ ...cellStyle, textAlign: 'left' }}>{model}</td>
+                  {(['input', 'output'] as const).map(field => (
+                    <td key={field} style={cellStyle}>
+                      <input type="number" min={0} step={0.1} value={modelPrices[model]?.[field] ?? ''} placeholder="未设置" onChange={(e) => updateModelPrice(model, field, e.target.value)} style={{ width: '90px', padding: '4px 8px', borderRadius: '6px', border: '1px solid ' + colors.border, background: colors.inputBg, color: colors.textMain, textAlign: 'right' }} />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div style={cardStyle}>
+          <h3 style={{ marginTop: 0, color: colors.textMain }}>每日明细</h3>
+          {recentDays.length === 0 ? <div style={{ color: colors.textSub, fontSize: '14px' }}>暂无调用记录。</div> : (
+            <table style={{ width: '100%', fontSize: '13px', color: colors.textMain, borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ color: colors.textSub }}>
+                  <th style={{ textAlign: 'left', padding: '6px 8px' }}>日期</th>
+                  <th style={{ textAlign: 'right', padding: '6px 8px' }}>调用</th>
+                  <th style={{ textAlign: 'right', padding: '6px 8px' }}>输入</th>
+                  <th style={{ textAlign: 'right', padding: '6px 8px' }}>输出</th>
+                  <th style={{ textAlign: 'right', padding: '6px 8px' }}>费用</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recentDays.map(day => {
+                  const entries = days.get(day) || [];
+                  const byModel = usageByModelFromEntries(entries);
+                  const total = sumUsage(byModel);
+                  const over = dailyBudget > 0 && costOfUsage(byModel, modelPrices).cost > dailyBudget;
+                  return (
+                    <tr key={day}>
+                      <td style={{ ...cellStyle, textAlign: 'left' }}>{day}</td>
+                      <td style={cellStyle}>{entries.length}</td>
+                      <td style={cellStyle}>{total.promptTokens.toLocaleString()}</td>
+                      <td style={cellStyle}>{total.completionTokens.toLocaleString()}</td>
+                      <td style={{ ...cellStyle, color: over ? '#ef4444' : undefined }}>{formatCost(costOfUsage(byModel, modelPrices).cost)}{total.estimated ? '*' : ''}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+          <div style={{ fontSize: '11px', color: colors.textSub, marginTop: '8px' }}>* 部分接口未返回用量，按字数估算</div>
+        </div>
+
+        {(banksWithUsage.length > 0 || sessionsWithUsage.length > 0) && (
+          <div style={cardStyle}>
+            <h3 style={{ marginTop: 0, color: colors.textMain }}>按题库 / 对话</h3>
+            {banksWithUsage.map(bank => (
+              <div key={bank.id} style={{ display: 'flex', justifyContent: 'space-between', fontSize: '13px', padding: '6px 0', borderTop: '1px solid ' + colors.border, color: colors.textMain }}>
+                <span>📚 {bank.title} <span style={{ color: colors.textSub }}>({bank.questionCount} 题)</span></span>
+                <span style={{ color: colors.textSub }}>{tokensText(sumUsage(bank.usage))} · {formatCost(costOfUsage(bank.usage, modelPrices).cost)}</span>
+              </div>
+            ))}
+            {sessionsWithUsage.map(session => (
+              <div key={session.id} style={{ display: 'flex', justifyContent: 'space-between', fontSize: '13px', padding: '6px 0', borderTop: '1px solid ' + colors.border, color: colors.textMain }}>
+                <span>💬 {session.title}</span>
+                <span style={{ color: colors.textSub }}>{tokensText(sumUsage(session.usage))} · {formatCost(costOfUsage(session.usage, modelPrices).cost)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const renderMistakes = () => (
     <div style={{ maxWidth: '800px', margin: '40px auto', padding: '20px' }}>
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '30px' }}>
@@ -4454,14 +9239,19 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
                 <div key={i} style={{ background: colors.surface, padding: '20px', borderRadius: '12px', boxShadow: '0 2px 4px rgba(0,0,0,0.05)', border: '1px solid ' + colors.border + '' }}>
                   <div style={{ display: 'flex', justifyContent: 'space-between' }}>
                     <div style={{ display: 'flex', gap: '8px' }}>
-                       <span style={{ fontSize: '12px', padding: '2px 6px', background: theme === 'dark' ? '#334155' : '#e5e7eb', borderRadius: '4px', height: 'fit-content', color: colors.textSub }}>{m.question.type === 'multiple' ? '多选' : '单选'}</span>
+                       <span style={{ fontSize: '12px', padding: '2px 6px', background: theme === 'dark' ? '#334155' : '#e5e7eb', borderRadius: '4px', height: 'fit-content', color: colors.textSub }}>{QUESTION_TYPE_LABELS[m.question.type] || '单选'}</span>
+                       {m.partial && <span style={{ fontSize: '12px', padding: '2px 6px', background: theme === 'dark' ? '#78350f' : '#fef3c7', borderRadius: '4px', height: 'fit-content', color: theme === 'dark' ? '#fbbf24' : '#b45309' }}>部分正确</span>}
+                       {(reviewCards[m.id]?.streak || 0) > 0 && <span style={{ fontSize: '12px', padding: '2px 6px', background: colors.successBg, borderRadius: '4px', height: 'fit-content', color: colors.successText, whiteSpace: 'nowrap' }}>连对 {reviewCards[m.id].streak}/{REVIEW_GRADUATE_STREAK}</span>}
                        <h3 style={{ marginTop: 0, color: colors.textMain }}>{m.question.stem}</h3>
                     </div>
-                    <button onClick={() => moveMistakeToTrash(m)} style={{ color: colors.textSub, border: 'none', background: 'transparent', cursor: 'pointer' }}>×</button>
+                    <div style={{ display: 'flex', alignItems: 'flex-start', gap: '4px' }}>
+                      <button onClick={() => openQuestionEditor(m.question)} title="编辑题目" style={{ color: colors.textSub, border: 'none', background: 'transparent', cursor: 'pointer' }}>✎</button>
+                      <button onClick={() => moveMistakeToTrash(m)} style={{ color: colors.textSub, border: 'none', background: 'transparent', cursor: 'pointer' }}>×</button>
+                    </div>
                   </div>
                   <div style={{ display: 'flex', flexDirection: 'column', gap: '8px', marginTop: '10px', marginBottom: '15px' }}>
                     {m.question.options.map((opt, idx) => {
-                      const letter = indexToLetter(idx);
+                      const letter = optionBadge(m.question, idx);
                       const isCorrect = m.question.answerIds.includes(opt.id);
                       return (
                         <div key={idx} style={{ padding: '8px 12px', borderRadius: '6px', background: isCorrect ? colors.successBg : (theme === 'dark' ? '#1e293b' : '#f9fafb'), color: isCorrect ? colors.successText : colors.textSub, border: isCorrect ? '1px solid ' + colors.successBorder + '' : '1px solid transparent', display: 'flex', gap: '8px', fontSize: '14px', alignItems: 'center' }}>
@@ -4470,6 +9260,19 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
                         </div>
                       );
                     })}
+                    {m.question.type === 'essay' && (
+                      <div style={{ padding: '8px 12px', borderRadius: '6px', background: colors.successBg, color: colors.successText, border: '1px solid ' + colors.successBorder, fontSize: '14px', whiteSpace: 'pre-wrap' }}>
+                        <b>参考答案：</b>{formatCorrectAnswer(m.question)}
+                        {m.userAnswer?.[0] && <div style={{ marginTop: '6px', color: colors.errorText }}><b>你的答案：</b>{m.userAnswer[0]}</div>}
+                      </div>
+                    )}
+                    {m.question.type === 'blank' && (m.question.blanks || []).map((accepted, i) => (
+                      <div key={`blank-${i}`} style={{ padding: '8px 12px', borderRadius: '6px', background: colors.successBg, color: colors.successText, border: '1px solid ' + colors.successBorder, display: 'flex', gap: '8px', fontSize: '14px', alignItems: 'center', flexWrap: 'wrap' }}>
+                        <span style={{ fontWeight: 'bold' }}>空 {i + 1}.</span>
+                        <span>{accepted.join(' / ')}</span>
+                        {m.userAnswer?.[i] !== undefined && <span style={{ color: colors.errorText }}>（你的答案：{m.userAnswer[i] || '未填'}）</span>}
+                      </div>
+                    ))}
                   </div>
                   <div style={{ background: theme === 'dark' ? '#1e3a8a' : '#f0f9ff', padding: '15px', borderRadius: '8px' }}>
                     {renderFormattedExplanation(m.question, theme)}
@@ -4633,6 +9436,31 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
             </div>
           )}
           
+          {/* 可撤销的批量操作 */}
+          {revisionBatches.some((b: RevisionBatch) => !b.revertedAt) && (
+            <div style={{ background: colors.surface, padding: '12px 16px', borderRadius: '12px', border: '1px solid ' + colors.border, marginBottom: '15px' }}>
+              <div style={{ fontSize: '13px', fontWeight: 'bold', color: colors.textMain, marginBottom: '6px' }}>最近的批量操作</div>
+              {revisionBatches.filter((b: RevisionBatch) => !b.revertedAt).slice(0, 5).map((batch: RevisionBatch) => (
+                <div key={batch.id} style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', padding: '6px 0', fontSize: '13px', color: colors.textSub }}>
+                  <span>{new Date(batch.at).toLocaleString()} · {batch.label}</span>
+                  {pendingRevertBatchId === batch.id ? (
+                    <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+                      <span style={{ fontSize: '12px', color: '#ef4444' }}>{(() => {
+                        const changed = batchCreatedBanksChanged(batch, history);
+                        if (changed === false) return '确认撤销?';
+                        return changed ? '合并后的题库之后有过修改，这些修改会一并丢弃，确认?' : '合并后题库里的修改会一并丢弃，确认?';
+                      })()}</span>
+                      <button onClick={() => handleRevertBatch(batch)} style={{ padding: '4px 10px', borderRadius: '4px', background: '#ef4444', color: 'white', border: 'none', cursor: 'pointer', fontSize: '12px' }}>是</button>
+                      <button onClick={() => setPendingRevertBatchId(null)} style={{ padding: '4px 10px', borderRadius: '4px', background: colors.disabled, color: colors.textMain, border: 'none', cursor: 'pointer', fontSize: '12px' }}>否</button>
+                    </div>
+                  ) : (
+                    <button onClick={() => setPendingRevertBatchId(batch.id)} style={{ padding: '4px 10px', borderRadius: '6px', border: '1px solid ' + colors.border, background: colors.surface, color: colors.textSub, cursor: 'pointer', fontSize: '12px' }}>撤销</button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
           <div style={{ display: 'flex', flexDirection: 'column', gap: '15px' }}>
             {/* 正在生成的卡片 */}
             {isGeneratingInBank && (
@@ -4648,7 +9476,7 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
                   <div style={{ marginBottom: '15px' }}>
                     <div style={{ fontSize: '14px', color: colors.textSub, marginBottom: '8px' }}>当前阶段：</div>
                     <div style={{ display: 'flex', gap: '10px', alignItems: 'center', flexWrap: 'wrap' }}>
-                      {['parsing', 'callingModel', 'postProcessing'].map((stage, idx) => (
+                      {['parsing', 'callingModel', ...(settings.verifyAnswers ? ['verifying'] : []), 'postProcessing'].map((stage, idx, stages) => (
                         <div key={stage} style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
                           {renderStepIcon(stage as any, generationStage)}
                           <span style={{ 
@@ -4656,9 +9484,9 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
                             color: generationStage === stage ? colors.primary : colors.textSub,
                             fontWeight: generationStage === stage ? 'bold' : 'normal'
                           }}>
-                            {stage === 'parsing' ? '解析资料' : stage === 'callingModel' ? '生成题目' : '后处理'}
+                            {stage === 'parsing' ? '解析资料' : stage === 'callingModel' ? '生成题目' : stage === 'verifying' ? '复核答案' : '后处理'}
                           </span>
-                          {idx < 2 && <span style={{ color: colors.border }}>→</span>}
+                          {idx < stages.length - 1 && <span style={{ color: colors.border }}>→</span>}
                         </div>
                       ))}
                     </div>
@@ -4668,7 +9496,7 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
                   {totalBatches > 0 && (
                     <div style={{ marginBottom: '15px' }}>
                       <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '14px', marginBottom: '8px' }}>
-                        <span style={{ color: colors.textMain }}>批量进度</span>
+                        <span style={{ color: colors.textMain }}>{generationStage === 'verifying' ? '复核进度' : '批量进度'}</span>
                         <span style={{ color: colors.primary, fontWeight: 'bold' }}>
                           {currentBatchIndex}/{totalBatches}
                         </span>
@@ -4688,10 +9516,28 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
                     </div>
                   )}
 
+                  {/* 流式输出预览 */}
+                  {generationStream && generationStage === 'callingModel' && (
+                    <div style={{ marginBottom: '15px', fontSize: '13px', color: colors.textSub }}>
+                      <div style={{ marginBottom: '6px' }}>
+                        已完成 {generationStream.completedCount} 题 · 本批已接收 {generationStream.receivedChars} 字
+                        {generationStream.reasoningChars > 0 && `（思考 ${generationStream.reasoningChars} 字）`}
+                      </div>
+                      {generationStream.stems.length > 0 && (
+                        <ol style={{ margin: 0, paddingLeft: '20px', maxHeight: '160px', overflowY: 'auto', color: colors.textMain }}>
+                          {generationStream.stems.map((stem, idx) => (
+                            <li key={idx} style={{ marginBottom: '4px', lineHeight: '1.4' }}>{stem}</li>
+                          ))}
+                        </ol>
+                      )}
+                    </div>
+                  )}
+
                   {/* 取消按钮 */}
                   <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
                     <button 
-                      onClick={() => setIsGeneratingInBank(false)}
+                      onClick={handleCancelGeneration}
+                      disabled={isCancellingGeneration}
                       style={{ 
                         padding: '6px 12px', 
                         borderRadius: '6px', 
@@ -4702,7 +9548,7 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
                         fontSize: '12px'
                       }}
                     >
-                      取消生成
+                      {isCancellingGeneration ? '正在取消...' : '取消生成'}
                     </button>
                   </div>
                 </div>
@@ -4842,6 +9688,15 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
                       {new Date(bank.createdAt).toLocaleString()} · {bank.questionCount} 题
                       {bank.sourceFiles && bank.sourceFiles.length > 0 && <span> · 来源: {bank.sourceFiles.join(', ')}</span>}
                     </div>
+                    {bank.providers && bank.providers.length > 0 && (
+                      <div style={{ fontSize: '12px', color: colors.textSub, marginTop: '4px' }}>
+                        生成模型: {bank.providers.join(' → ')}
+                        {bank.usage && <span> · {(sumUsage(bank.usage).promptTokens + sumUsage(bank.usage).completionTokens).toLocaleString()} tokens · {formatCost(costOfUsage(bank.usage, modelPrices).cost)}</span>}
+                      </div>
+                    )}
+                    {bank.note && (
+                      <div style={{ fontSize: '12px', color: '#f59e0b', marginTop: '4px' }}>{bank.note}</div>
+                    )}
                     {/* NEW: Progress Bar for Bank */}
                     <div className="mt-1 space-y-1" style={{ marginTop: '8px', maxWidth: '300px' }}>
                       <div className="h-1.5 w-full bg-gray-100 rounded-full overflow-hidden" style={{ height: '6px', background: theme === 'dark' ? '#334155' : '#e2e8f0', borderRadius: '3px' }}>
@@ -4857,6 +9712,28 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
                         )}
                       </div>
                     </div>
+                    <button onClick={() => setExpandedBankId(expandedBankId === bank.id ? null : bank.id)} style={{ marginTop: '8px', padding: 0, border: 'none', background: 'transparent', color: colors.primary, cursor: 'pointer', fontSize: '12px' }}>
+                      {expandedBankId === bank.id ? '收起题目 ▲' : '查看与编辑题目 ▼'}
+                    </button>
+                    {expandedBankId === bank.id && (
+                      <ol style={{ margin: '8px 0 0', paddingLeft: '20px', maxHeight: '320px', overflowY: 'auto', fontSize: '13px', color: colors.textMain }}>
+                        {bank.questions.map(q => (
+                          <li key={q.id} style={{ padding: '6px 0', borderBottom: '1px dashed ' + colors.border }}>
+                            <div style={{ display: 'flex', justifyContent: 'space-between', gap: '10px', alignItems: 'flex-start' }}>
+                              <span style={{ lineHeight: 1.5 }}>
+                                <span style={{ color: colors.textSub }}>[{QUESTION_TYPE_LABELS[q.type] || '单选'}] </span>{q.stem}
+                                <span style={{ color: colors.successText }}> · 答案：{formatCorrectAnswer(q)}</span>
+                              </span>
+                              <div style={{ display: 'flex', gap: '4px', flexShrink: 0 }}>
+                                <button onClick={() => openQuestionEditor(q)} style={{ padding: '2px 8px', borderRadius: '4px', border: '1px solid ' + colors.border, background: colors.surface, color: colors.textSub, cursor: 'pointer', fontSize: '12px' }}>编辑</button>
+                                {renderRewriteMenu(q, bank.id, true)}
+                                <button onClick={() => openRevisionViewer(String(q.id))} style={{ padding: '2px 8px', borderRadius: '4px', border: '1px solid ' + colors.border, background: colors.surface, color: colors.textSub, cursor: 'pointer', fontSize: '12px' }}>记录</button>
+                              </div>
+                            </div>
+                          </li>
+                        ))}
+                      </ol>
+                    )}
                   </div>
                   <div style={{ display: 'flex', gap: '10px', alignItems: 'center' }}>
                      <button onClick={() => exportQuizBankToJson(bank)} style={{ padding: '8px 12px', borderRadius: '6px', border: '1px solid ' + colors.border + '', background: colors.surface, color: colors.textSub, cursor: 'pointer' }}>导出 JSON</button>
@@ -5075,16 +9952,51 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
   };
 
   const renderResult = () => {
-    const correctCount = Object.values(userAnswers).filter(a => a.isCorrect).length;
-    const score = Math.round((correctCount / quizData.length) * 100);
+    const answers: StoredQuizAnswer[] = Object.values(userAnswers);
+    const correctCount = answers.filter(a => a.isCorrect).length;
+    const partialCount = answers.filter(isPartialAnswer).length;
+    const totalPoints = roundPoints(quizData.reduce((sum: number, q: QuizQuestion) => sum + questionPoints(q, quizSettings.weightedPoints, quizPointsById), 0));
+    const earnedPoints = roundPoints(quizData.reduce((sum: number, q: QuizQuestion) => sum + answerPoints(q, userAnswers[q.id], quizSettings.weightedPoints, quizPointsById), 0));
+    const score = totalPoints > 0 ? Math.round(earnedPoints / totalPoints * 100) : 0;
     return (
       <div style={{ maxWidth: '600px', margin: '40px auto', padding: '20px', textAlign: 'center' }}>
         <h1 style={{ fontSize: '32px', marginBottom: '10px' }}>{score >= 90 ? "🏆" : score >= 60 ? "🎉" : "💪"}</h1>
         <h2 style={{ color: colors.textMain, marginBottom: '20px' }}>考试结束</h2>
         <div style={{ background: colors.surface, padding: '30px', borderRadius: '20px', boxShadow: '0 10px 25px rgba(0,0,0,0.1)', marginBottom: '30px', border: '1px solid ' + colors.border + '' }}>
-          <div style={{ fontSize: '48px', fontWeight: '800', color: colors.primary, marginBottom: '10px' }}>{score} <span style={{fontSize: '20px', color: colors.textSub}}>分</span></div>
-          <p style={{ color: colors.textSub }}>答对 {correctCount} / {quizData.length} 题</p>
+          <div style={{ fontSize: '48px', fontWeight: '800', color: colors.primary, marginBottom: '10px' }}>{earnedPoints} <span style={{fontSize: '20px', color: colors.textSub}}>/ {totalPoints} 分</span></div>
+          <p style={{ color: colors.textSub }}>得分率 {score}% · 答对 {correctCount} / {quizData.length} 题{partialCount > 0 ? ` · 部分正确 ${partialCount} 题` : ''}</p>
+          <p style={{ color: colors.textSub, fontSize: '12px' }}>多选题计分：{SCORING_SCHEME_LABELS[quizSettings.scoringScheme as ScoringScheme] || SCORING_SCHEME_LABELS.strict}</p>
         </div>
+        {lastExamRecord && (
+          <div style={{ background: colors.surface, padding: '20px', borderRadius: '16px', marginBottom: '30px', border: '1px solid ' + colors.border + '', textAlign: 'left' }}>
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '12px' }}>
+              <h3 style={{ margin: 0, fontSize: '16px', color: colors.textMain }}>⏱ 用时 {formatTime(lastExamRecord.usedSeconds)} / {formatTime(lastExamRecord.durationSeconds)}</h3>
+              {lastExamRecord.timedOut && <span style={{ fontSize: '12px', padding: '2px 8px', borderRadius: '4px', background: colors.errorBg, color: colors.errorText }}>超时自动交卷</span>}
+            </div>
+            <div style={{ maxHeight: '240px', overflowY: 'auto' }}>
+              {lastExamRecord.questions.map((q, i) => (
+                <div key={q.id} style={{ display: 'flex', gap: '10px', fontSize: '13px', padding: '6px 0', borderTop: '1px solid ' + colors.border, color: colors.textMain }}>
+                  <span style={{ minWidth: '28px', color: colors.textSub }}>{i + 1}.</span>
+                  <span style={{ flex: 1, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>{q.stem}</span>
+                  <span style={{ color: colors.textSub }}>{formatTime(q.seconds)}</span>
+                  <span style={{ minWidth: '56px', textAlign: 'right', color: !q.answered ? colors.textSub : q.isCorrect ? colors.successText : colors.errorText }}>{q.answered ? `${q.score}/${q.maxScore}` : '未答'}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        {examRecords.length > 0 && (
+          <div style={{ background: colors.surface, padding: '20px', borderRadius: '16px', marginBottom: '30px', border: '1px solid ' + colors.border + '', textAlign: 'left' }}>
+            <h3 style={{ margin: '0 0 12px 0', fontSize: '16px', color: colors.textMain }}>最近模考记录</h3>
+            {examRecords.slice(0, 5).map(record => (
+              <div key={record.id} style={{ display: 'flex', justifyContent: 'space-between', gap: '10px', fontSize: '13px', padding: '6px 0', borderTop: '1px solid ' + colors.border, color: colors.textMain }}>
+                <span style={{ flex: 1, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>{new Date(record.finishedAt).toLocaleString('zh-CN', { month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' })} · {record.title}</span>
+                <span style={{ color: colors.textSub }}>{formatTime(record.usedSeconds)}{record.timedOut ? '（超时）' : ''}</span>
+                <span style={{ fontWeight: 'bold' }}>{record.earnedPoints} / {record.totalPoints}</span>
+              </div>
+            ))}
+          </div>
+        )}
         <div style={{ display: 'flex', gap: '15px', justifyContent: 'center' }}>
           <button onClick={() => navigateTo('home')} style={{ padding: '12px 24px', borderRadius: '10px', background: theme === 'dark' ? '#334155' : '#f3f4f6', color: colors.textMain, border: 'none', fontSize: '16px', cursor: 'pointer' }}>返回首页</button>
           <button onClick={() => navigateTo('mistakes')} style={{ padding: '12px 24px', borderRadius: '10px', background: theme === 'dark' ? '#7f1d1d' : '#fee2e2', color: theme === 'dark' ? '#fecaca' : '#991b1b', border: 'none', fontSize: '16px', cursor: 'pointer', fontWeight: 'bold' }}>查看错题</button>
@@ -5129,6 +10041,108 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
         </div>
       )}
 
+      {budgetWarning && (
+        <div style={{ position: 'fixed', inset: 0, zIndex: 9999, display: 'flex', alignItems: 'center', justifyContent: 'center', backgroundColor: 'rgba(0,0,0,0.5)' }}>
+          <div style={{ width: '90%', maxWidth: '400px', backgroundColor: colors.surface, padding: '24px', borderRadius: '16px', boxShadow: '0 10px 25px rgba(0,0,0,0.2)', animation: 'fade-in-up 0.4s cubic-bezier(0.4, 0, 0.2, 1) forwards' }}>
+            <h3 style={{ margin: '0 0 16px 0', fontSize: '18px', fontWeight: 'bold', color: colors.textMain }}>即将超出今日预算</h3>
+            <p style={{ fontSize: '14px', color: colors.textSub, lineHeight: '1.5', marginBottom: '20px' }}>
+              今日已花费 {formatCost(budgetWarning.spentToday)}，本次生成预计约 {formatCost(budgetWarning.estimate)}，每日预算为 {formatCost(dailyBudget)}。仍要继续生成吗？
+            </p>
+            <div style={{ display: 'flex', gap: '10px', justifyContent: 'flex-end' }}>
+              <button onClick={() => setBudgetWarning(null)} style={{ padding: '8px 16px', borderRadius: '8px', border: '1px solid ' + colors.border + '', background: 'transparent', color: colors.textMain, cursor: 'pointer' }}>取消</button>
+              <button onClick={handleConfirmOverBudget} style={{ padding: '8px 16px', borderRadius: '8px', background: '#f59e0b', color: 'white', border: 'none', cursor: 'pointer' }}>继续生成</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {pendingPartialBank && (
+        <div style={{ position: 'fixed', inset: 0, zIndex: 9999, display: 'flex', alignItems: 'center', justifyContent: 'center', backgroundColor: 'rgba(0,0,0,0.5)' }}>
+          <div style={{ width: '90%', maxWidth: '400px', backgroundColor: colors.surface, padding: '24px', borderRadius: '16px', boxShadow: '0 10px 25px rgba(0,0,0,0.2)', animation: 'fade-in-up 0.4s cubic-bezier(0.4, 0, 0.2, 1) forwards' }}>
+            <h3 style={{ margin: '0 0 16px 0', fontSize: '18px', fontWeight: 'bold', color: colors.textMain }}>生成已取消</h3>
+            <p style={{ fontSize: '14px', color: colors.textSub, lineHeight: '1.5', marginBottom: '20px' }}>
+              已完成 {pendingPartialBank.partial?.completedBatches}/{pendingPartialBank.partial?.totalBatches} 批，共 {pendingPartialBank.questionCount} 道题目。是否将它们保存为一个题库？
+            </p>
+            <div style={{ display: 'flex', gap: '10px', justifyContent: 'flex-end' }}>
+              <button onClick={() => setPendingPartialBank(null)} style={{ padding: '8px 16px', borderRadius: '8px', border: '1px solid ' + colors.border + '', background: 'transparent', color: colors.textMain, cursor: 'pointer' }}>丢弃</button>
+              <button onClick={handleSavePartialBank} style={{ padding: '8px 16px', borderRadius: '8px', background: colors.primary, color: 'white', border: 'none', cursor: 'pointer' }}>保存为题库</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {pendingArchive && (
+        <div style={{ position: 'fixed', inset: 0, zIndex: 9999, display: 'flex', alignItems: 'center', justifyContent: 'center', backgroundColor: 'rgba(0,0,0,0.5)' }}>
+          <div style={{ width: '90%', maxWidth: '440px', backgroundColor: colors.surface, padding: '24px', borderRadius: '16px', boxShadow: '0 10px 25px rgba(0,0,0,0.2)', animation: 'fade-in-up 0.4s cubic-bezier(0.4, 0, 0.2, 1) forwards' }}>
+            <h3 style={{ margin: '0 0 12px 0', fontSize: '18px', fontWeight: 'bold', color: colors.textMain }}>导入工作区备份</h3>
+            <p style={{ fontSize: '13px', color: colors.textSub, lineHeight: '1.6', margin: '0 0 12px 0' }}>
+              文件：{pendingArchive.fileName}<br />
+              导出时间：{pendingArchive.archive.exportedAt ? new Date(pendingArchive.archive.exportedAt).toLocaleString() : '未知'}（{pendingArchive.archive.appVersion || '未知版本'}）<br />
+              {pendingArchive.archive.includesApiKeys ? '包含 API Key' : '不包含 API Key'}
+            </p>
+            <div style={{ fontSize: '13px', color: colors.textMain, marginBottom: '12px', display: 'grid', gridTemplateColumns: '1fr auto', gap: '4px 12px' }}>
+              {(Object.keys(ARCHIVE_COLLECTION_LABELS) as ArchiveCollectionName[]).map(name => {
+                const value = pendingArchive.archive.collections[name];
+                return (
+                  <React.Fragment key={name}>
+                    <span>{ARCHIVE_COLLECTION_LABELS[name]}</span>
+                    <span style={{ color: colors.textSub }}>{Array.isArray(value) ? value.length : Object.keys(value).length} 条</span>
+                  </React.Fragment>
+                );
+              })}
+            </div>
+            <p style={{ fontSize: '13px', color: colors.textSub, lineHeight: '1.5', marginBottom: '20px' }}>「合并」保留本地数据，冲突时以本地为准（答题进度以较新的为准）；「覆盖」会用备份替换当前所有数据。</p>
+            <div style={{ display: 'flex', gap: '10px', justifyContent: 'flex-end' }}>
+              <button disabled={isApplyingArchive} onClick={() => setPendingArchive(null)} style={{ padding: '8px 16px', borderRadius: '8px', border: '1px solid ' + colors.border + '', background: 'transparent', color: colors.textMain, cursor: 'pointer' }}>取消</button>
+              <button disabled={isApplyingArchive} onClick={() => handleApplyWorkspaceArchive('replace')} style={{ padding: '8px 16px', borderRadius: '8px', background: '#ef4444', color: 'white', border: 'none', cursor: 'pointer' }}>覆盖</button>
+              <button disabled={isApplyingArchive} onClick={() => handleApplyWorkspaceArchive('merge')} style={{ padding: '8px 16px', borderRadius: '8px', background: colors.primary, color: 'white', border: 'none', cursor: 'pointer' }}>{isApplyingArchive ? '导入中...' : '合并'}</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {renderQuestionEditor()}
+      {renderRevisionViewer()}
+
+      {archiveImportResult && (
+        <div style={{ position: 'fixed', inset: 0, zIndex: 9999, display: 'flex', alignItems: 'center', justifyContent: 'center', backgroundColor: 'rgba(0,0,0,0.5)' }}>
+          <div style={{ width: '90%', maxWidth: '480px', backgroundColor: colors.surface, padding: '24px', borderRadius: '16px', boxShadow: '0 10px 25px rgba(0,0,0,0.2)', animation: 'fade-in-up 0.4s cubic-bezier(0.4, 0, 0.2, 1) forwards' }}>
+            <h3 style={{ margin: '0 0 16px 0', fontSize: '18px', fontWeight: 'bold', color: colors.textMain }}>{archiveImportResult.mode === 'merge' ? '备份已合并' : '备份已覆盖导入'}</h3>
+            <table style={{ width: '100%', fontSize: '13px', color: colors.textMain, borderCollapse: 'collapse', marginBottom: '12px' }}>
+              <thead>
+                <tr style={{ color: colors.textSub, textAlign: 'right' }}>
+                  <th style={{ textAlign: 'left', padding: '4px 0' }}>集合</th>
+                  <th>新增</th>
+                  <th>更新</th>
+                  <th>冲突</th>
+                  <th>相同</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(Object.keys(ARCHIVE_COLLECTION_LABELS) as ArchiveCollectionName[]).map(name => {
+                  const r = archiveImportResult.report[name];
+                  return (
+                    <tr key={name} style={{ borderTop: '1px solid ' + colors.border, textAlign: 'right' }}>
+                      <td style={{ textAlign: 'left', padding: '4px 0' }}>{ARCHIVE_COLLECTION_LABELS[name]}</td>
+                      <td>{r.added}</td>
+                      <td>{r.updated}</td>
+                      <td style={{ color: r.conflicts > 0 ? '#f59e0b' : undefined }}>{r.conflicts}</td>
+                      <td>{r.unchanged}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            {archiveImportResult.mode === 'merge' && (Object.values(archiveImportResult.report) as ArchiveCollectionReport[]).some(r => r.conflicts > 0) && (
+              <p style={{ fontSize: '12px', color: colors.textSub, lineHeight: '1.5', margin: '0 0 12px 0' }}>冲突项与本地同名但内容不同，已保留本地版本。</p>
+            )}
+            <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+              <button onClick={() => setArchiveImportResult(null)} style={{ padding: '8px 16px', borderRadius: '8px', background: colors.primary, color: 'white', border: 'none', cursor: 'pointer' }}>知道了</button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {showClearTrashDialog && (
         <div style={{ position: 'fixed', inset: 0, zIndex: 9999, display: 'flex', alignItems: 'center', justifyContent: 'center', backgroundColor: 'rgba(0,0,0,0.5)' }}>
           <div style={{ width: '90%', maxWidth: '400px', backgroundColor: colors.surface, padding: '24px', borderRadius: '16px', boxShadow: '0 10px 25px rgba(0,0,0,0.2)', animation: 'fade-in-up 0.4s cubic-bezier(0.4, 0, 0.2, 1) forwards' }}>
@@ -5162,9 +10176,22 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
                   </div>
                 )}
               </div>
+              {settings.verifyAnswers && (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '12px', fontSize: '14px', color: colors.textMain }}>
+                    {renderStepIcon('verifying', generationStage)}
+                    <span>3. 独立复核答案</span>
+                  </div>
+                  {generationStage === 'verifying' && totalBatches > 1 && (
+                    <div style={{ fontSize: '12px', color: colors.primary, paddingLeft: '32px' }}>
+                      正在复核第 {currentBatchIndex} 题（共 {totalBatches} 题）
+                    </div>
+                  )}
+                </div>
+              )}
               <div style={{ display: 'flex', alignItems: 'center', gap: '12px', fontSize: '14px', color: colors.textMain }}>
                 {renderStepIcon('postProcessing', generationStage)}
-                <span>3. 解析题目并保存</span>
+                <span>{settings.verifyAnswers ? 4 : 3}. 解析题目并保存</span>
               </div>
             </div>
             <p style={{ margin: '24px 0 0 0', fontSize: '12px', color: colors.textSub, textAlign: 'center' }}>请不要关闭页面，生成完成后将自动跳转。</p>
@@ -5280,6 +10307,66 @@ const [isSelectMode, setIsSelectMode] = useState<boolean>(false);
           </div>
         )}
         
+        {/* 用量统计界面 */}
+        {screen === 'usage' && (
+          <div key="usage" style={{ 
+            position: 'relative', 
+            width: '100%', 
+            minHeight: '100%', 
+            opacity: 1, 
+            transform: 'scale(1)',
+            zIndex: 10,
+            animation: 'page-float-in 0.6s cubic-bezier(0.4, 0, 0.2, 1) forwards'
+          }}>
+            {renderUsage()}
+          </div>
+        )}
+
+        {/* 组卷界面 */}
+        {screen === 'paper' && (
+          <div key="paper" style={{ 
+            position: 'relative', 
+            width: '100%', 
+            minHeight: '100%', 
+            opacity: 1, 
+            transform: 'scale(1)',
+            zIndex: 10,
+            animation: 'page-float-in 0.6s cubic-bezier(0.4, 0, 0.2, 1) forwards'
+          }}>
+            {renderPaper()}
+          </div>
+        )}
+
+        {/* 学习统计界面 */}
+        {screen === 'stats' && (
+          <div key="stats" style={{ 
+            position: 'relative', 
+            width: '100%', 
+            minHeight: '100%', 
+            opacity: 1, 
+            transform: 'scale(1)',
+            zIndex: 10,
+            animation: 'page-float-in 0.6s cubic-bezier(0.4, 0, 0.2, 1) forwards'
+          }}>
+            {renderStats()}
+          </div>
+        )}
+
+        {/* 待核对界面 */}
+        {screen === 'verify' && (
+          <div key="verify" style={{ 
+            position: 'relative', 
+            width: '100%', 
+            minHeight: '100%', 
+            opacity: 1, 
+            transform: 'scale(1)',
+            zIndex: 10,
+            animation: 'page-float-in 0.6s cubic-bezier(0.4, 0, 0.2, 1) forwards'
+          }}>
+            {renderVerifyQueue()}
+          </div>
+        )}
+
         {/* 错题本界面 */}
         {screen === 'mistakes' && (
           <div key="mistakes" style={{ 
@@ -5330,17 +10417,64 @@ class ErrorBoundary extends React.Component<{ children: React.ReactNode }, { has
   }
 }
 
-// Log before rendering
-console.log('Starting to render App...');
-
-// Render with error boundary
-const root = ReactDOM.createRoot(document.getElementById("root")!);
-root.render(
-  <React.StrictMode>
-    <ErrorBoundary>
-      <App />
-    </ErrorBoundary>
-  </React.StrictMode>
-);
+// Pure helpers covered by index.test.ts
+export {
+  applyVerification,
+  normalizeQuizJson,
+  gradeBlankAnswers,
+  scoreChoiceAnswer,
+  allocateProportionally,
+  planChunkBatches,
+  assemblePaper,
+  createPaperTemplate,
+  scheduleReview,
+  buildWeeklyTrend,
+  parseVerificationResponse,
+  applyQuestionRewrite,
+  tallyAttempts,
+  recordAttempt,
+  queryAttempts,
+  batchIdMap,
+  repointProgress,
+  LLMError,
+  createStickyProviderFallback,
+  streamLLMToText,
+  withLLMRetry,
+  mergeWorkspaceArchive,
+  parseWorkspaceArchive,
+};
+export type {
+  QuizQuestion,
+  QuestionType,
+  AttemptEvent,
+  QuizBank,
+  QuestionMeta,
+  SyllabusPreset,
+  ApiConfig,
+  ApiConfigHistoryItem,
+  PaperCandidate,
+  PaperSection,
+  PaperTemplate,
+  ReviewCard,
+  QuestionRevision,
+  StoredQuizProgress,
+};
+
+// Not mounted outside the browser, e.g. when the tests import this module
+const rootElement = typeof document !== 'undefined' ? document.getElementById("root") : null;
+if (rootElement) {
+  // Log before rendering
+  console.log('Starting to render App...');
+
+  // Render with error boundary
+  const root = ReactDOM.createRoot(rootElement);
+  root.render(
+    <React.StrictMode>
+      <ErrorBoundary>
+        <App />
+      </ErrorBoundary>
+    </React.StrictMode>
+  );
 
-console.log('App rendering completed.');
\ No newline at end of file
+  console.log('App rendering completed.');
+}
\ No newline at end of file